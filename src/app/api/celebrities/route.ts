@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { Celebrity as CelebrityRecord } from '@prisma/client';
+import prisma from '@/lib/db/prisma';
+import { celebrityIdentifiersSchema, parseCelebrityIdentifiers } from '@/lib/utils/identifiers';
+import { Celebrity } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const updateCelebritySchema = z.object({
+  id: z.string().min(1),
+  aliases: z.array(z.string().trim().min(1)).optional(),
+  description: z.string().optional(),
+  // 整体替换已保存的标识，未传的字段视为删除
+  identifiers: celebrityIdentifiersSchema.optional(),
+});
+
+function formatCelebrity(celebrity: CelebrityRecord): Celebrity {
+  return {
+    id: celebrity.id,
+    name: celebrity.name,
+    aliases: JSON.parse(celebrity.aliases),
+    description: celebrity.description || undefined,
+    imageUrl: celebrity.imageUrl || undefined,
+    identifiers: parseCelebrityIdentifiers(celebrity.identifiers),
+  };
+}
+
+// 获取名人资料（传 id 返回单个，否则返回列表）
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (id) {
+      const celebrity = await prisma.celebrity.findUnique({ where: { id } });
+      if (!celebrity) {
+        return NextResponse.json(
+          { error: '名人不存在' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ celebrity: formatCelebrity(celebrity) });
+    }
+
+    const celebrities = await prisma.celebrity.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+    return NextResponse.json({ celebrities: celebrities.map(formatCelebrity) });
+  } catch (error) {
+    console.error('Celebrities API 错误:', error);
+    return NextResponse.json(
+      { error: '获取名人资料失败' },
+      { status: 500 }
+    );
+  }
+}
+
+// 更新名人资料（别名、简介、外部标识）
+export async function PATCH(request: NextRequest) {
+  try {
+    const parsed = updateCelebritySchema.safeParse(await request.json());
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        { error: `参数无效: ${issue.path.join('.')} ${issue.message}` },
+        { status: 400 }
+      );
+    }
+    const { id, aliases, description, identifiers } = parsed.data;
+
+    const existing = await prisma.celebrity.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { error: '名人不存在' },
+        { status: 404 }
+      );
+    }
+
+    const celebrity = await prisma.celebrity.update({
+      where: { id },
+      data: {
+        aliases: aliases ? JSON.stringify(aliases) : undefined,
+        description,
+        identifiers: identifiers ? JSON.stringify(identifiers) : undefined,
+        // 与 identifiers 同步，用于按 QID 查找
+        wikidataId: identifiers ? identifiers.wikidataId ?? null : undefined,
+      },
+    });
+
+    return NextResponse.json({ success: true, celebrity: formatCelebrity(celebrity) });
+  } catch (error) {
+    console.error('Celebrities API 错误:', error);
+    return NextResponse.json(
+      { error: '更新名人资料失败' },
+      { status: 500 }
+    );
+  }
+}
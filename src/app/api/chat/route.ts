@@ -1,103 +1,372 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getLLMAdapter, CELEBRITY_IDENTIFICATION_PROMPT } from '@/lib/llm';
-import { ChatMessage, Celebrity, LLMConfig } from '@/types';
+import { z } from 'zod';
+import type { Celebrity as CelebrityRecord } from '@prisma/client';
+import {
+  generateStructured,
+  ILLMAdapter,
+  CELEBRITY_IDENTIFICATION_PROMPT,
+  WIKIDATA_CANDIDATES_PROMPT,
+} from '@/lib/llm';
+import {
+  ChatMessage,
+  ChatStreamEvent,
+  Celebrity,
+  CelebrityIdentifiers,
+  LLMConfig,
+} from '@/types';
 import prisma from '@/lib/db/prisma';
+import { createTrackedLLMAdapter } from '@/lib/utils/llmUsage';
+import { parseCelebrityIdentifiers, sanitizeProposedIdentifiers } from '@/lib/utils/identifiers';
+import {
+  createWikidataResolver,
+  describeWikidataCandidate,
+  WikidataCandidate,
+} from '@/lib/utils/wikidata';
 
-export async function POST(request: NextRequest) {
-  try {
-    const { messages, llmConfig } = (await request.json()) as {
-      messages: ChatMessage[];
-      llmConfig: LLMConfig;
-    };
+// 超过这个长度的输入不是名字，不做 Wikidata 搜索
+const MAX_SEARCH_LENGTH = 60;
+const MAX_CANDIDATES = 8;
 
-    if (!messages || !llmConfig) {
-      return NextResponse.json(
-        { error: '缺少必要参数' },
-        { status: 400 }
-      );
-    }
+// 回复末尾结构化确认信息的标签，标签内的内容不会推送给用户
+const CONFIRMATION_OPEN = '<confirmation>';
+const CONFIRMATION_CLOSE = '</confirmation>';
 
-    // 构建完整的消息列表，包含系统提示
-    const fullMessages: ChatMessage[] = [
-      { role: 'system', content: CELEBRITY_IDENTIFICATION_PROMPT },
-      ...messages,
-    ];
-
-    // 调用 LLM
-    const adapter = getLLMAdapter(llmConfig);
-    const response = await adapter.chat(fullMessages);
-
-    // 尝试解析 JSON 响应
-    let result: {
-      confirmed: boolean;
-      celebrity?: {
-        name: string;
-        aliases: string[];
-        description?: string;
-      };
-      message: string;
-    };
+// 结构化确认信息；不合法时请模型修正，可选字段不合法时忽略
+const confirmationSchema = z
+  .object({
+    confirmed: z.boolean(),
+    celebrity: z
+      .object({
+        name: z.string().trim().min(1),
+        aliases: z.array(z.string()).catch([]).default([]),
+        description: z.string().optional().catch(undefined),
+        identifiers: z.unknown().optional(),
+      })
+      .nullish(),
+    // 旧格式（整条回复是 JSON）中给用户的消息
+    message: z.string().optional().catch(undefined),
+  })
+  .refine((value) => !value.confirmed || !!value.celebrity, {
+    message: 'confirmed 为 true 时必须提供 celebrity',
+    path: ['celebrity'],
+  });
+
+type Confirmation = z.infer<typeof confirmationSchema>;
+
+const resolver = createWikidataResolver();
 
+/**
+ * 按用户最新输入搜索 Wikidata 候选人物，与前几轮的候选合并
+ * Wikidata 不可用时只记录警告，继续由 LLM 识别
+ */
+async function resolveCandidates(
+  messages: ChatMessage[],
+  previous: WikidataCandidate[]
+): Promise<WikidataCandidate[]> {
+  const query = [...messages].reverse().find((message) => message.role === 'user')?.content.trim();
+  let found: WikidataCandidate[] = [];
+  if (query && query.length <= MAX_SEARCH_LENGTH) {
     try {
-      // 尝试从响应中提取 JSON
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        result = JSON.parse(jsonMatch[0]);
-      } else {
-        // 如果没有 JSON，直接返回响应文本
-        return NextResponse.json({
-          message: response,
-          confirmed: false,
-        });
-      }
-    } catch {
-      // JSON 解析失败，直接返回响应文本
-      return NextResponse.json({
-        message: response,
-        confirmed: false,
-      });
+      found = await resolver.search(query);
+    } catch (error) {
+      console.warn('Wikidata 搜索失败:', error);
     }
+  }
 
-    // 如果确认了名人，保存到数据库
-    let savedCelebrity: Celebrity | null = null;
-    if (result.confirmed && result.celebrity) {
-      try {
-        const dbCelebrity = await prisma.celebrity.create({
-          data: {
-            name: result.celebrity.name,
-            aliases: JSON.stringify(result.celebrity.aliases || []),
-            description: result.celebrity.description,
-          },
-        });
-
-        savedCelebrity = {
-          id: dbCelebrity.id,
-          name: dbCelebrity.name,
-          aliases: JSON.parse(dbCelebrity.aliases),
-          description: dbCelebrity.description || undefined,
-        };
-      } catch (dbError) {
-        console.error('保存名人信息失败:', dbError);
-        // 不阻止流程，返回未保存的信息
-        savedCelebrity = {
-          name: result.celebrity.name,
-          aliases: result.celebrity.aliases || [],
-          description: result.celebrity.description,
-        };
-      }
+  const merged = new Map<string, WikidataCandidate>();
+  for (const candidate of [...found, ...previous]) {
+    if (!merged.has(candidate.qid)) merged.set(candidate.qid, candidate);
+  }
+  return Array.from(merged.values()).slice(0, MAX_CANDIDATES);
+}
+
+/**
+ * 把 LLM 的流式输出拆成给用户的回复和末尾的确认信息
+ * 可能是标签开头的片段先暂存，确认是普通文本后再推送
+ */
+function createReplySplitter() {
+  let pending = '';
+  let payload: string | null = null;
+
+  const push = (chunk: string): string => {
+    if (payload !== null) {
+      payload += chunk;
+      return '';
     }
+    pending += chunk;
+    const index = pending.indexOf(CONFIRMATION_OPEN);
+    if (index >= 0) {
+      const text = pending.slice(0, index);
+      payload = pending.slice(index + CONFIRMATION_OPEN.length);
+      pending = '';
+      return text;
+    }
+    // 末尾可能是标签的前半部分，暂不推送
+    let keep = Math.min(pending.length, CONFIRMATION_OPEN.length - 1);
+    while (keep > 0 && !CONFIRMATION_OPEN.startsWith(pending.slice(-keep))) keep--;
+    const text = pending.slice(0, pending.length - keep);
+    pending = pending.slice(pending.length - keep);
+    return text;
+  };
+
+  // 流结束：返回剩余文本和标签内的内容
+  const finish = (): { text: string; payload: string | null } => {
+    const text = pending;
+    pending = '';
+    return { text, payload: payload === null ? null : payload.split(CONFIRMATION_CLOSE)[0] };
+  };
 
-    return NextResponse.json({
-      message: result.message,
-      confirmed: result.confirmed,
-      celebrity: savedCelebrity,
+  return { push, finish };
+}
+
+/**
+ * 校验确认信息；缺少标签时按整条回复为 JSON 的旧格式解析
+ * 不合法时请模型修正，仍不合法按未确认处理
+ */
+async function parseConfirmation(
+  adapter: ILLMAdapter,
+  messages: ChatMessage[],
+  payload: string | null,
+  reply: string
+): Promise<Confirmation> {
+  try {
+    return await generateStructured(adapter, messages, confirmationSchema, {
+      initialResponse: payload ?? reply,
     });
   } catch (error) {
-    console.error('Chat API 错误:', error);
-    const errorMessage = error instanceof Error ? error.message : '未知错误';
+    console.warn('名人确认信息无效，按未确认处理:', error);
+    return { confirmed: false };
+  }
+}
+
+/**
+ * 查找已保存的名人（复用已有记录便于增量更新）
+ * 解析出 Wikidata 实体时按 QID 匹配；同名记录只在尚未关联 QID 时复用，避免把同名的不同人物合并
+ */
+async function findSavedCelebrity(name: string, qid?: string): Promise<CelebrityRecord | null> {
+  if (qid) {
+    const byQid = await prisma.celebrity.findFirst({
+      where: { wikidataId: qid },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (byQid) return byQid;
+  }
+
+  const sameName = await prisma.celebrity.findMany({
+    where: { name, ...(qid && { wikidataId: null }) },
+    orderBy: { createdAt: 'asc' },
+  });
+  if (!qid) return sameName[0] ?? null;
+  // 早于 wikidataId 列保存的记录只在 identifiers 中有 QID
+  return (
+    sameName.find((record) => {
+      const saved = parseCelebrityIdentifiers(record.identifiers).wikidataId;
+      return !saved || saved === qid;
+    }) ?? null
+  );
+}
+
+/**
+ * 确认的名人保存到数据库，并整理建议的外部标识
+ * 解析出 Wikidata 实体时记录其 QID，之后按 QID 查找
+ */
+async function saveConfirmedCelebrity(
+  confirmed: NonNullable<Confirmation['celebrity']>,
+  candidates: WikidataCandidate[]
+): Promise<{
+  celebrity: Celebrity;
+  proposedIdentifiers: CelebrityIdentifiers;
+  entity?: WikidataCandidate;
+}> {
+  let result = confirmed;
+  const llmIdentifiers = sanitizeProposedIdentifiers(result.identifiers);
+  // 确认的人物对应的 Wikidata 实体
+  const entity = await resolver.confirm(llmIdentifiers.wikidataId, candidates);
+
+  // 别名取自 Wikidata 名称；LLM 给出的名字不在其中时使用 Wikidata 的名称
+  if (entity) {
+    const names = [entity.label, ...entity.aliases];
+    const name = names.includes(result.name) ? result.name : entity.label;
+    result = {
+      ...result,
+      name,
+      aliases: names.filter((alias) => alias !== name),
+      description: result.description || entity.description,
+    };
+  }
+
+  let celebrity: Celebrity;
+  try {
+    // 同一 Wikidata 实体的名人即使名字不同也复用
+    let dbCelebrity = await findSavedCelebrity(result.name, entity?.qid);
+    if (!dbCelebrity) {
+      dbCelebrity = await prisma.celebrity.create({
+        data: {
+          name: result.name,
+          aliases: JSON.stringify(result.aliases),
+          description: result.description,
+          identifiers: JSON.stringify(entity ? { wikidataId: entity.qid } : {}),
+          wikidataId: entity?.qid,
+        },
+      });
+    } else if (entity && !dbCelebrity.wikidataId) {
+      // 复用的记录尚未关联 QID 时补上
+      dbCelebrity = await prisma.celebrity.update({
+        where: { id: dbCelebrity.id },
+        data: {
+          identifiers: JSON.stringify({
+            ...parseCelebrityIdentifiers(dbCelebrity.identifiers),
+            wikidataId: entity.qid,
+          }),
+          wikidataId: entity.qid,
+        },
+      });
+    }
+
+    celebrity = {
+      id: dbCelebrity.id,
+      name: dbCelebrity.name,
+      aliases: JSON.parse(dbCelebrity.aliases),
+      description: dbCelebrity.description || undefined,
+      identifiers: parseCelebrityIdentifiers(dbCelebrity.identifiers),
+    };
+  } catch (dbError) {
+    console.error('保存名人信息失败:', dbError);
+    // 不阻止流程，返回未保存的信息
+    celebrity = {
+      name: result.name,
+      aliases: result.aliases,
+      description: result.description,
+    };
+  }
+
+  // 已保存的标识以用户确认过的为准，只建议缺少的字段
+  const existing = celebrity.identifiers || {};
+  // Wikidata 声明中的标识优先于 LLM 的建议；LLM 给出的 QID 未通过验证时不建议
+  const suggested: CelebrityIdentifiers = { ...llmIdentifiers };
+  delete suggested.wikidataId;
+  const proposedIdentifiers = Object.fromEntries(
+    Object.entries({ ...suggested, ...entity?.identifiers }).filter(
+      ([key]) => !existing[key as keyof CelebrityIdentifiers]
+    )
+  );
+
+  return { celebrity, proposedIdentifiers, entity };
+}
+
+/**
+ * 名人识别对话（流式）
+ * 响应为换行分隔的 JSON 事件：candidates（Wikidata 候选）、delta（回复文本片段）、
+ * done（完整回复和校验后的确认信息）、error
+ */
+export async function POST(request: NextRequest) {
+  const { messages, llmConfig, candidates: previousCandidates } = (await request
+    .json()
+    .catch(() => ({}))) as {
+    messages: ChatMessage[];
+    llmConfig: LLMConfig;
+    // 前几轮返回的候选，由客户端回传
+    candidates?: WikidataCandidate[];
+  };
+
+  if (!messages || !llmConfig) {
     return NextResponse.json(
-      { error: `处理请求时发生错误: ${errorMessage}` },
-      { status: 500 }
+      { error: '缺少必要参数' },
+      { status: 400 }
     );
   }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      try {
+        const candidates = await resolveCandidates(
+          messages,
+          Array.isArray(previousCandidates) ? previousCandidates : []
+        );
+        send({ type: 'candidates', candidates });
+
+        // 构建完整的消息列表，包含系统提示和 Wikidata 候选
+        const fullMessages: ChatMessage[] = [
+          { role: 'system', content: CELEBRITY_IDENTIFICATION_PROMPT },
+          ...(candidates.length > 0
+            ? [
+                {
+                  role: 'system' as const,
+                  content: WIKIDATA_CANDIDATES_PROMPT.replace(
+                    '{candidates}',
+                    candidates.map((candidate) => `- ${describeWikidataCandidate(candidate)}`).join('\n')
+                  ),
+                },
+              ]
+            : []),
+          ...messages,
+        ];
+
+        // 流式调用 LLM，回复文本逐段推送，确认信息留到最后
+        const adapter = createTrackedLLMAdapter(llmConfig, 'identification');
+        const splitter = createReplySplitter();
+        let reply = '';
+        for await (const chunk of adapter.streamChat(fullMessages)) {
+          const text = splitter.push(chunk);
+          if (text) {
+            reply += text;
+            send({ type: 'delta', text });
+          }
+        }
+        const rest = splitter.finish();
+        if (rest.text) {
+          reply += rest.text;
+          send({ type: 'delta', text: rest.text });
+        }
+
+        const confirmation = await parseConfirmation(adapter, fullMessages, rest.payload, reply);
+        // 旧格式的回复是 JSON，用其中的 message 替换已推送的文本
+        const message =
+          (rest.payload === null && confirmation.message) ||
+          reply.trim() ||
+          (confirmation.confirmed ? '请确认以下名人信息。' : '请提供更多信息帮助我确认您要找的名人。');
+
+        if (confirmation.confirmed && confirmation.celebrity) {
+          const saved = await saveConfirmedCelebrity(confirmation.celebrity, candidates);
+          send({
+            type: 'done',
+            message,
+            confirmed: true,
+            celebrity: saved.celebrity,
+            proposedIdentifiers: saved.proposedIdentifiers,
+            candidates,
+            wikidata: saved.entity,
+          });
+        } else {
+          send({
+            type: 'done',
+            message,
+            confirmed: false,
+            celebrity: null,
+            proposedIdentifiers: {},
+            candidates,
+          });
+        }
+      } catch (error) {
+        console.error('Chat API 错误:', error);
+        const errorMessage = error instanceof Error ? error.message : '未知错误';
+        send({ type: 'error', error: `处理请求时发生错误: ${errorMessage}` });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no',
+    },
+  });
 }
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db/prisma';
+import { abortLocalTask, cancelTasks } from '@/lib/queue';
+import { createCrawlLogger } from '@/lib/utils/crawlLogger';
+
+// 取消爬取任务（单个任务，或某位名人所有未结束的任务）
+export async function POST(request: NextRequest) {
+  try {
+    const { taskId, celebrityId } = (await request.json()) as {
+      taskId?: string;
+      celebrityId?: string;
+    };
+
+    if (!taskId && !celebrityId) {
+      return NextResponse.json(
+        { error: '缺少 taskId 或 celebrityId 参数' },
+        { status: 400 }
+      );
+    }
+
+    const taskIds = taskId
+      ? [taskId]
+      : (
+          await prisma.crawlTask.findMany({
+            where: { celebrityId, status: { in: ['pending', 'running'] } },
+            select: { id: true },
+          })
+        ).map((t) => t.id);
+
+    const cancelled = await cancelTasks(taskIds);
+
+    for (const id of cancelled) {
+      await createCrawlLogger(id).warn('🛑 任务已被用户取消');
+      // 任务在当前进程执行时立即中止网络请求，其他进程会在下一次心跳时发现
+      abortLocalTask(id);
+    }
+
+    return NextResponse.json({ success: true, cancelled });
+  } catch (error) {
+    console.error('Cancel API 错误:', error);
+    return NextResponse.json(
+      { error: '取消任务失败' },
+      { status: 500 }
+    );
+  }
+}
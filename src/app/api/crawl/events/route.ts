@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db/prisma';
+import {
+  CrawlLogEvent,
+  CrawlTaskEvent,
+  subscribeCrawlEvents,
+  toCrawlTaskEvent,
+} from '@/lib/utils/crawlEvents';
+
+export const dynamic = 'force-dynamic';
+
+// 单个连接的最长时长，需小于 vercel.json 中的 maxDuration（60s），到时由服务端主动关闭，
+// EventSource 带上 Last-Event-ID 自动重连并补发日志
+const STREAM_DURATION_MS = 55 * 1000;
+// 心跳间隔；期间没有收到本进程的事件时，从数据库补齐其他进程（如 Cron 触发的 worker）的变化
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+// 客户端重连间隔
+const RETRY_MS = 3000;
+// 首次连接时发送的最近日志数
+const INITIAL_LOGS = 100;
+// 断线重连时最多补发的日志数
+const REPLAY_LIMIT = 500;
+
+function toLogEvent(log: {
+  id: string;
+  taskId: string;
+  level: string;
+  message: string;
+  details: string | null;
+  createdAt: Date;
+}): CrawlLogEvent {
+  return {
+    id: log.id,
+    taskId: log.taskId,
+    level: log.level as CrawlLogEvent['level'],
+    message: log.message,
+    details: log.details ? JSON.parse(log.details) : null,
+    createdAt: log.createdAt.toISOString(),
+  };
+}
+
+/**
+ * 实时推送某位名人的爬取日志和任务进度（Server-Sent Events）
+ * 事件：tasks（连接时的任务快照）、task（单个任务状态变化）、log（新日志，id 为日志 ID）
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const celebrityId = searchParams.get('celebrityId');
+  // EventSource 重连时自动带上 Last-Event-ID 请求头
+  const lastEventId = request.headers.get('last-event-id') || searchParams.get('lastEventId');
+
+  if (!celebrityId) {
+    return NextResponse.json({ error: '缺少 celebrityId 参数' }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send = (event: string, data: unknown, id?: string) => {
+        if (closed) return;
+        controller.enqueue(
+          encoder.encode(`${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
+      };
+
+      // 已发送的任务状态（用于补齐时只发送有变化的任务）
+      const sentTasks = new Map<string, string>();
+      const sendTask = (task: CrawlTaskEvent) => {
+        const snapshot = JSON.stringify(task);
+        if (sentTasks.get(task.id) === snapshot) return;
+        sentTasks.set(task.id, snapshot);
+        send('task', task);
+      };
+
+      // 补发历史日志期间收到的实时日志先缓存，补发完成后去重发送
+      let pending: CrawlLogEvent[] | null = [];
+      const sentLogIds = new Set<string>();
+      let lastLogAt: string | undefined;
+      const sendLog = (log: CrawlLogEvent) => {
+        if (sentLogIds.has(log.id)) return;
+        sentLogIds.add(log.id);
+        if (!lastLogAt || log.createdAt > lastLogAt) lastLogAt = log.createdAt;
+        send('log', log, log.id);
+      };
+
+      let lastEventAt = Date.now();
+      const unsubscribeTask = subscribeCrawlEvents('task', (task) => {
+        if (task.celebrityId !== celebrityId) return;
+        lastEventAt = Date.now();
+        sendTask(task);
+      });
+      const unsubscribeLog = subscribeCrawlEvents('log', (log) => {
+        if (!sentTasks.has(log.taskId)) return;
+        lastEventAt = Date.now();
+        if (pending) pending.push(log);
+        else sendLog(log);
+      });
+
+      // 从数据库补齐任务状态和日志（只在有未结束的任务且一段时间没有事件时执行）
+      const reconcile = async () => {
+        const active = Array.from(sentTasks.values()).some((snapshot) => {
+          const { status } = JSON.parse(snapshot) as CrawlTaskEvent;
+          return status === 'pending' || status === 'running';
+        });
+        if (!active || Date.now() - lastEventAt < HEARTBEAT_INTERVAL_MS) return;
+
+        const tasks = await prisma.crawlTask.findMany({ where: { celebrityId } });
+        tasks.map(toCrawlTaskEvent).forEach(sendTask);
+        const logs = await prisma.crawlLog.findMany({
+          where: {
+            taskId: { in: Array.from(sentTasks.keys()) },
+            ...(lastLogAt && { createdAt: { gte: new Date(lastLogAt) } }),
+          },
+          orderBy: { createdAt: 'asc' },
+          take: REPLAY_LIMIT,
+        });
+        logs.map(toLogEvent).forEach(sendLog);
+      };
+
+      const heartbeat = setInterval(() => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`: ping\n\n`));
+        reconcile().catch((error) => console.error('补齐爬取事件失败:', error));
+      }, HEARTBEAT_INTERVAL_MS);
+      const timeout = setTimeout(() => cleanup(), STREAM_DURATION_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        clearTimeout(timeout);
+        unsubscribeTask();
+        unsubscribeLog();
+        try {
+          controller.close();
+        } catch {
+          // 客户端已断开
+        }
+      };
+      request.signal.addEventListener('abort', () => cleanup());
+
+      try {
+        controller.enqueue(encoder.encode(`retry: ${RETRY_MS}\n\n`));
+
+        const tasks = await prisma.crawlTask.findMany({
+          where: { celebrityId },
+          orderBy: { createdAt: 'desc' },
+        });
+        const snapshot = tasks.map(toCrawlTaskEvent);
+        snapshot.forEach((task) => sentTasks.set(task.id, JSON.stringify(task)));
+        send('tasks', snapshot);
+
+        // 重连时补发 Last-Event-ID 之后的日志，首次连接发送最近的日志
+        const lastLog = lastEventId
+          ? await prisma.crawlLog.findUnique({ where: { id: lastEventId } })
+          : null;
+        const logs = lastLog
+          ? await prisma.crawlLog.findMany({
+              where: {
+                taskId: { in: Array.from(sentTasks.keys()) },
+                createdAt: { gte: lastLog.createdAt },
+                id: { not: lastLog.id },
+              },
+              orderBy: { createdAt: 'asc' },
+              take: REPLAY_LIMIT,
+            })
+          : (
+              await prisma.crawlLog.findMany({
+                where: { taskId: { in: Array.from(sentTasks.keys()) } },
+                orderBy: { createdAt: 'desc' },
+                take: INITIAL_LOGS,
+              })
+            ).reverse();
+
+        logs.map(toLogEvent).forEach(sendLog);
+        const buffered = pending;
+        pending = null;
+        buffered.forEach(sendLog);
+      } catch (error) {
+        console.error('推送爬取事件失败:', error);
+        cleanup();
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // 关闭反向代理缓冲
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db/prisma';
+import { kickWorker, retryTask } from '@/lib/queue';
+
+// 重试失败的爬取任务（从检查点继续）
+export async function POST(request: NextRequest) {
+  try {
+    const { taskId, celebrityId } = (await request.json()) as {
+      taskId?: string;
+      celebrityId?: string;
+    };
+
+    if (!taskId && !celebrityId) {
+      return NextResponse.json(
+        { error: '缺少 taskId 或 celebrityId 参数' },
+        { status: 400 }
+      );
+    }
+
+    // 指定任务，或该名人所有失败的任务
+    const taskIds = taskId
+      ? [taskId]
+      : (
+          await prisma.crawlTask.findMany({
+            where: { celebrityId, status: 'failed' },
+            select: { id: true },
+          })
+        ).map((t) => t.id);
+
+    const retried: string[] = [];
+    for (const id of taskIds) {
+      if (await retryTask(id)) {
+        retried.push(id);
+      }
+    }
+
+    if (retried.length > 0) {
+      kickWorker();
+    }
+
+    return NextResponse.json({ success: true, retried });
+  } catch (error) {
+    console.error('Retry API 错误:', error);
+    return NextResponse.json(
+      { error: '重试任务失败' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,23 +1,130 @@
+import { randomUUID } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
-import { Celebrity, DataSource, CrawlerConfig } from '@/types';
-import { getCrawler } from '@/lib/crawlers';
+import { z } from 'zod';
 import prisma from '@/lib/db/prisma';
-import { createCrawlLogger } from '@/lib/utils/crawlLogger';
+import { enqueueCrawlTasks, kickWorker } from '@/lib/queue';
+import {
+  ensureCrawlerPluginsLoaded,
+  getApiKeyForSource,
+  getCrawlerPlugin,
+} from '@/lib/crawlers';
+import { crawlSourceOptionsSchema, dataSourceSchema } from '@/lib/crawlers/options';
+import { celebrityIdentifiersSchema } from '@/lib/utils/identifiers';
+import { LLMBudget } from '@/types';
+
+const crawlRequestSchema = z.object({
+  celebrity: z.object({
+    id: z.string().optional(),
+    name: z.string().min(1),
+    aliases: z.array(z.string()).default([]),
+    description: z.string().optional(),
+    identifiers: celebrityIdentifiersSchema.optional(),
+  }),
+  sources: z.array(dataSourceSchema).min(1),
+  apiKeys: z.record(z.string()).default({}),
+  // update: 只爬取上次成功爬取之后的新内容
+  mode: z.enum(['full', 'update']).default('full'),
+  // 按数据源配置的爬取选项
+  options: z.record(dataSourceSchema, crawlSourceOptionsSchema).default({}),
+  // 从第三方文章中提取本人引语
+  extractQuotes: z.boolean().default(true),
+  // 用 LLM 核实提取的引语（默认关闭，需要提供 llm）
+  verifyQuotes: z.boolean().default(false),
+  // 爬取后的内容分类：rule 只用规则；llm / hybrid 需要提供 llm
+  classification: z.enum(['rule', 'llm', 'hybrid']).default('rule'),
+  llm: z
+    .object({
+      provider: z.enum(['openai', 'anthropic', 'openai-compatible']),
+      // 兼容 OpenAI 的自建服务可以不需要 API Key
+      apiKey: z.string().default(''),
+      model: z.string().optional(),
+      baseUrl: z.string().url().optional(),
+      authHeader: z.string().optional(),
+    })
+    .refine(
+      (llm) =>
+        llm.provider === 'openai-compatible' ? !!llm.baseUrl && !!llm.model : !!llm.apiKey,
+      { message: '缺少 API Key，或自建服务缺少接口地址和模型名称' }
+    )
+    .optional(),
+  // 本次爬取的 LLM 预算（所有数据源任务共用），未提供时使用环境变量中的默认预算
+  llmBudget: z
+    .object({
+      maxCost: z.number().positive().optional(),
+      maxTokens: z.number().int().positive().optional(),
+    })
+    .optional(),
+})
+  .refine((data) => data.classification === 'rule' || !!data.llm, {
+    message: 'LLM 分类需要提供 llm 配置',
+    path: ['classification'],
+  })
+  .refine((data) => !data.verifyQuotes || !!data.llm, {
+    message: '引语核实需要提供 llm 配置',
+    path: ['verifyQuotes'],
+  });
+
+/**
+ * 环境变量中的默认 LLM 预算（LLM_BUDGET_USD、LLM_BUDGET_TOKENS），都未配置时不限制
+ */
+function defaultLLMBudget(): LLMBudget | undefined {
+  const maxCost = Number(process.env.LLM_BUDGET_USD);
+  const maxTokens = Number(process.env.LLM_BUDGET_TOKENS);
+  const budget: LLMBudget = {
+    ...(maxCost > 0 && { maxCost }),
+    ...(maxTokens > 0 && { maxTokens: Math.floor(maxTokens) }),
+  };
+  return Object.keys(budget).length > 0 ? budget : undefined;
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const { celebrity, sources, apiKeys } = (await request.json()) as {
-      celebrity: Celebrity;
-      sources: DataSource[];
-      apiKeys: Record<string, string>;
-    };
-
-    if (!celebrity || !sources || sources.length === 0) {
+    const parsed = crawlRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
       return NextResponse.json(
-        { error: '缺少必要参数' },
+        {
+          error: `参数无效: ${issue.path.join('.')} ${issue.message}`,
+          details: parsed.error.issues,
+        },
         { status: 400 }
       );
     }
+    const {
+      celebrity,
+      sources,
+      apiKeys,
+      mode,
+      options,
+      extractQuotes,
+      verifyQuotes,
+      classification,
+      llm,
+    } = parsed.data;
+    const llmBudget = parsed.data.llmBudget ?? defaultLLMBudget();
+
+    // 校验数据源已注册，并按插件声明的 settingsSchema 校验专属配置
+    await ensureCrawlerPluginsLoaded();
+    for (const source of sources) {
+      const plugin = getCrawlerPlugin(source);
+      if (!plugin) {
+        return NextResponse.json(
+          { error: `不支持的数据源: ${source}` },
+          { status: 400 }
+        );
+      }
+      if (plugin.settingsSchema) {
+        const settings = plugin.settingsSchema.safeParse(options[source]?.settings ?? {});
+        if (!settings.success) {
+          const issue = settings.error.issues[0];
+          return NextResponse.json(
+            { error: `参数无效: options.${source}.settings.${issue.path.join('.')} ${issue.message}` },
+            { status: 400 }
+          );
+        }
+        options[source] = { ...options[source], settings: settings.data };
+      }
+    }
 
     // 确保名人存在于数据库中
     let celebrityId = celebrity.id;
@@ -27,33 +134,43 @@ export async function POST(request: NextRequest) {
           name: celebrity.name,
           aliases: JSON.stringify(celebrity.aliases || []),
           description: celebrity.description,
+          identifiers: JSON.stringify(celebrity.identifiers || {}),
+          wikidataId: celebrity.identifiers?.wikidataId,
         },
       });
       celebrityId = dbCelebrity.id;
     }
 
-    // 为每个数据源创建爬取任务
-    const tasks = await Promise.all(
-      sources.map(async (source) => {
-        const task = await prisma.crawlTask.create({
-          data: {
-            celebrityId,
-            source,
-            status: 'pending',
+    // 为每个数据源创建爬取任务（持久化到队列），同一次爬取的任务共用批次 ID 和 LLM 预算
+    const crawlId = randomUUID();
+    const tasks = await enqueueCrawlTasks(
+      celebrityId,
+      sources,
+      Object.fromEntries(
+        sources.map((source) => [
+          source,
+          {
+            ...options[source],
+            apiKey: getApiKeyForSource(source, apiKeys),
+            mode,
+            extractQuotes,
+            verifyQuotes,
+            classification,
+            llm,
+            crawlId,
+            llmBudget,
           },
-        });
-        return task;
-      })
+        ])
+      )
     );
 
-    // 启动后台爬取（不阻塞响应）
-    startCrawling(celebrityId, celebrity, sources, apiKeys).catch((error) => {
-      console.error('爬取过程出错:', error);
-    });
+    // 唤醒 worker 处理队列（不阻塞响应）
+    kickWorker();
 
     return NextResponse.json({
       success: true,
       celebrityId,
+      crawlId,
       tasks: tasks.map((t) => ({
         id: t.id,
         source: t.source,
@@ -68,152 +185,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-async function startCrawling(
-  celebrityId: string,
-  celebrity: Celebrity,
-  sources: DataSource[],
-  apiKeys: Record<string, string>
-) {
-  for (const source of sources) {
-    // 更新任务状态为运行中
-    const task = await prisma.crawlTask.findFirst({
-      where: { celebrityId, source, status: 'pending' },
-    });
-
-    if (!task) continue;
-
-    await prisma.crawlTask.update({
-      where: { id: task.id },
-      data: { status: 'running', startedAt: new Date() },
-    });
-
-    // 创建日志记录器
-    const logger = createCrawlLogger(task.id);
-
-    try {
-      // 获取 API Key（如果有）
-      const apiKey = getApiKeyForSource(source, apiKeys);
-      const hasApiKey = !!apiKey && apiKey.trim().length > 0;
-
-      // 根据是否有 API Key 选择爬虫（有 Key 用 API 爬虫，无 Key 用公开爬虫）
-      const crawler = getCrawler(source, hasApiKey);
-
-      // 构建爬虫配置
-      const config: CrawlerConfig = {
-        source,
-        apiKey: hasApiKey ? apiKey : undefined,
-        maxItems: 100,
-      };
-
-      // 验证配置
-      if (!crawler.validateConfig(config)) {
-        await logger.error(`${source} 配置无效`);
-        throw new Error(`${source} 配置无效`);
-      }
-
-      const sourceNames: Record<string, string> = {
-        twitter: 'X (Twitter)',
-        youtube: 'YouTube',
-        wikipedia: 'Wikipedia',
-        news: '新闻聚合',
-        book: '书籍/传记',
-        podcast: '播客',
-      };
-      const sourceName = sourceNames[source] || source;
-
-      await logger.info(`🚀 开始爬取 ${sourceName}`, { mode: hasApiKey ? 'API模式' : '公开模式' });
-      await logger.info(`🔍 搜索关键词: ${celebrity.name}`, { aliases: celebrity.aliases });
-
-      let itemsCrawled = 0;
-
-      // 执行爬取
-      for await (const item of crawler.crawl(celebrity, config)) {
-        // 保存到数据库
-        await prisma.content.create({
-          data: {
-            celebrityId,
-            source: item.source,
-            sourceUrl: item.sourceUrl,
-            type: item.type,
-            priority: item.priority,
-            weight: item.weight,
-            title: item.title,
-            content: item.content,
-            summary: item.summary,
-            date: item.date,
-            author: item.author,
-            language: item.language || 'en',
-            metadata: item.metadata ? JSON.stringify(item.metadata) : null,
-          },
-        });
-
-        itemsCrawled++;
-
-        // 记录每条数据 - 更详细的信息
-        const contentPreview = item.content.slice(0, 50).replace(/\n/g, ' ');
-        await logger.info(`📄 [${itemsCrawled}] ${item.title || item.type}`, {
-          type: item.type,
-          source: item.source,
-          url: item.sourceUrl,
-          preview: contentPreview,
-          priority: `P${item.priority}`,
-        });
-
-        // 更新进度
-        await prisma.crawlTask.update({
-          where: { id: task.id },
-          data: {
-            itemsCrawled,
-            progress: itemsCrawled,
-          },
-        });
-      }
-
-      // 标记完成
-      await prisma.crawlTask.update({
-        where: { id: task.id },
-        data: {
-          status: 'completed',
-          completedAt: new Date(),
-          total: itemsCrawled,
-        },
-      });
-
-      await logger.success(`🎉 ${sourceName} 爬取完成！共获取 ${itemsCrawled} 条数据`, { total: itemsCrawled });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : '未知错误';
-      await logger.error(`❌ 爬取失败: ${errorMessage}`);
-      await logger.warn(`💡 提示: 如果是网络问题，请检查网络连接或稍后重试`);
-      console.error(`爬取 ${source} 失败:`, error);
-
-      // 标记失败
-      await prisma.crawlTask.update({
-        where: { id: task.id },
-        data: {
-          status: 'failed',
-          error: errorMessage,
-          completedAt: new Date(),
-        },
-      });
-    }
-  }
-}
-
-function getApiKeyForSource(
-  source: DataSource,
-  apiKeys: Record<string, string>
-): string | undefined {
-  const keyMapping: Record<DataSource, string> = {
-    twitter: 'TWITTER_BEARER_TOKEN',
-    youtube: 'YOUTUBE_API_KEY',
-    news: 'GOOGLE_SEARCH_API_KEY',
-    wikipedia: '',
-    book: '',
-    podcast: 'SPOTIFY_API_KEY',
-    blog: '',
-  };
-
-  const keyName = keyMapping[source];
-  return keyName ? apiKeys[keyName] : undefined;
-}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db/prisma';
+import { getDuplicateClusters, rebuildNearDuplicateIndex } from '@/lib/utils/nearDuplicateIndex';
+
+export const dynamic = 'force-dynamic';
+
+// 获取近似重复簇
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const celebrityId = searchParams.get('celebrityId');
+
+    if (!celebrityId) {
+      return NextResponse.json(
+        { error: '缺少 celebrityId 参数' },
+        { status: 400 }
+      );
+    }
+
+    const clusters = await getDuplicateClusters(celebrityId);
+    const contentIds = clusters.flatMap((cluster) => cluster.contentIds);
+    const contents = await prisma.content.findMany({
+      where: { id: { in: contentIds } },
+      select: {
+        id: true,
+        source: true,
+        sourceUrl: true,
+        type: true,
+        title: true,
+        priority: true,
+        createdAt: true,
+      },
+    });
+    const contentById = new Map(contents.map((c) => [c.id, c]));
+
+    return NextResponse.json({
+      clusters: clusters.map((cluster) => ({
+        clusterId: cluster.clusterId,
+        size: cluster.contentIds.length,
+        items: cluster.contentIds.map((id) => contentById.get(id)).filter(Boolean),
+      })),
+    });
+  } catch (error) {
+    console.error('Duplicates API 错误:', error);
+    return NextResponse.json(
+      { error: '获取近似重复簇失败' },
+      { status: 500 }
+    );
+  }
+}
+
+// 重建近似重复索引（为历史内容补算签名并重新划分簇）
+export async function POST(request: NextRequest) {
+  try {
+    const { celebrityId } = (await request.json()) as { celebrityId?: string };
+
+    if (!celebrityId) {
+      return NextResponse.json(
+        { error: '缺少 celebrityId 参数' },
+        { status: 400 }
+      );
+    }
+
+    const result = await rebuildNearDuplicateIndex(celebrityId);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Duplicates API 错误:', error);
+    return NextResponse.json(
+      { error: '重建近似重复索引失败' },
+      { status: 500 }
+    );
+  }
+}
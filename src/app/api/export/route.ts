@@ -1,13 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db/prisma';
 import { DataExporter } from '@/lib/utils/exporter';
+import { parseCelebrityIdentifiers } from '@/lib/utils/identifiers';
 import { Celebrity, ContentItem } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
-    const { celebrityId, format } = (await request.json()) as {
+    const { celebrityId, format, collapseDuplicates = true } = (await request.json()) as {
       celebrityId: string;
       format: 'json' | 'markdown' | 'both';
+      // 是否将近似重复簇折叠为一条代表内容
+      collapseDuplicates?: boolean;
     };
 
     if (!celebrityId) {
@@ -35,6 +38,7 @@ export async function POST(request: NextRequest) {
       aliases: JSON.parse(dbCelebrity.aliases),
       description: dbCelebrity.description || undefined,
       imageUrl: dbCelebrity.imageUrl || undefined,
+      identifiers: parseCelebrityIdentifiers(dbCelebrity.identifiers),
     };
 
     // 获取所有内容
@@ -57,10 +61,13 @@ export async function POST(request: NextRequest) {
       author: c.author || undefined,
       language: c.language,
       metadata: c.metadata ? JSON.parse(c.metadata) : undefined,
+      clusterId: c.clusterId || undefined,
     }));
 
     // 生成导出结果
-    const exportResult = DataExporter.generateExportResult(celebrity, contents);
+    const exportContents = collapseDuplicates ? DataExporter.collapseClusters(contents) : contents;
+    const exportResult = DataExporter.generateExportResult(celebrity, exportContents);
+    exportResult.metadata.collapsedItems = contents.length - exportContents.length;
 
     // 根据格式生成内容
     if (format === 'json') {
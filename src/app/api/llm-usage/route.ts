@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db/prisma';
+import { getLLMUsageTotals, usageWhere } from '@/lib/utils/llmUsage';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * LLM 用量汇总：总计、按阶段和按模型统计
+ * 可按 celebrityId、taskId、crawlId（爬取批次）和 since（ISO 时间）过滤，都不提供时汇总全部用量
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const since = searchParams.get('since');
+    const sinceDate = since ? new Date(since) : undefined;
+    if (sinceDate && Number.isNaN(sinceDate.getTime())) {
+      return NextResponse.json(
+        { error: '参数无效: since 不是有效的时间' },
+        { status: 400 }
+      );
+    }
+
+    const filter = {
+      celebrityId: searchParams.get('celebrityId') || undefined,
+      taskId: searchParams.get('taskId') || undefined,
+      crawlId: searchParams.get('crawlId') || undefined,
+      since: sinceDate,
+    };
+    const where = usageWhere(filter);
+
+    const [total, byStageRaw, byModelRaw] = await Promise.all([
+      getLLMUsageTotals(filter),
+      prisma.llmUsage.groupBy({
+        by: ['stage'],
+        where,
+        _count: true,
+        _sum: { inputTokens: true, outputTokens: true, cost: true },
+      }),
+      prisma.llmUsage.groupBy({
+        by: ['provider', 'model'],
+        where,
+        _count: true,
+        _sum: { inputTokens: true, outputTokens: true, cost: true },
+      }),
+    ]);
+
+    const toTotals = (item: (typeof byStageRaw)[number] | (typeof byModelRaw)[number]) => ({
+      calls: item._count,
+      inputTokens: item._sum.inputTokens || 0,
+      outputTokens: item._sum.outputTokens || 0,
+      cost: item._sum.cost || 0,
+    });
+
+    return NextResponse.json({
+      total,
+      byStage: Object.fromEntries(byStageRaw.map((item) => [item.stage, toTotals(item)])),
+      byModel: byModelRaw.map((item) => ({
+        provider: item.provider,
+        model: item.model,
+        ...toTotals(item),
+      })),
+    });
+  } catch (error) {
+    console.error('LLM 用量 API 错误:', error);
+    return NextResponse.json(
+      { error: '获取 LLM 用量失败' },
+      { status: 500 }
+    );
+  }
+}
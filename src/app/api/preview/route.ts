@@ -53,6 +53,8 @@ export async function GET(request: NextRequest) {
       title: c.title,
       content: c.content,
       summary: c.summary,
+      isSelfExpression: c.isSelfExpression,
+      classifier: c.classifier,
       date: c.date,
       author: c.author,
       language: c.language,
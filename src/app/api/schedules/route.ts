@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/db/prisma';
+import { ensureCrawlerPluginsLoaded, isSupportedSource } from '@/lib/crawlers';
+import { dataSourceSchema } from '@/lib/crawlers/options';
+import { CrawlScheduleRecord, parseScheduleSources } from '@/lib/queue';
+import { getNextRun, isValidCron } from '@/lib/utils/cron';
+
+export const dynamic = 'force-dynamic';
+
+const scheduleFieldsSchema = z.object({
+  cron: z.string().refine(isValidCron, { message: '无效的 cron 表达式' }),
+  sources: z.array(dataSourceSchema).min(1),
+  maxItems: z.number().int().min(1).max(1000).optional(),
+  mode: z.enum(['full', 'update']).optional(),
+  enabled: z.boolean().optional(),
+});
+
+const createScheduleSchema = scheduleFieldsSchema.extend({
+  celebrityId: z.string().min(1),
+});
+
+// 更新时只校验提供了的字段
+const updateScheduleSchema = scheduleFieldsSchema.partial().extend({
+  id: z.string().min(1),
+});
+
+// 参数校验失败的响应，与 /api/crawl 的错误格式一致
+function invalidParams(error: z.ZodError) {
+  const issue = error.issues[0];
+  return NextResponse.json(
+    { error: `参数无效: ${issue.path.join('.')} ${issue.message}`, details: error.issues },
+    { status: 400 }
+  );
+}
+
+// 返回第一个未注册的数据源
+async function findUnsupportedSource(sources: string[] | undefined): Promise<string | undefined> {
+  if (!sources) return undefined;
+  await ensureCrawlerPluginsLoaded();
+  return sources.find((source) => !isSupportedSource(source));
+}
+
+function formatSchedule(schedule: CrawlScheduleRecord) {
+  return {
+    ...schedule,
+    sources: parseScheduleSources(schedule),
+  };
+}
+
+// 获取定时计划列表
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const celebrityId = searchParams.get('celebrityId');
+
+    const schedules = await prisma.crawlSchedule.findMany({
+      where: celebrityId ? { celebrityId } : undefined,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ schedules: schedules.map(formatSchedule) });
+  } catch (error) {
+    console.error('Schedules API 错误:', error);
+    return NextResponse.json(
+      { error: '获取定时计划失败' },
+      { status: 500 }
+    );
+  }
+}
+
+// 创建定时计划
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = createScheduleSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return invalidParams(parsed.error);
+    }
+    const { celebrityId, ...input } = parsed.data;
+
+    const unsupported = await findUnsupportedSource(input.sources);
+    if (unsupported) {
+      return NextResponse.json(
+        { error: `不支持的数据源: ${unsupported}` },
+        { status: 400 }
+      );
+    }
+
+    const celebrity = await prisma.celebrity.findUnique({ where: { id: celebrityId } });
+    if (!celebrity) {
+      return NextResponse.json(
+        { error: '名人不存在' },
+        { status: 404 }
+      );
+    }
+
+    const enabled = input.enabled ?? true;
+    const schedule = await prisma.crawlSchedule.create({
+      data: {
+        celebrityId,
+        cron: input.cron,
+        sources: JSON.stringify(input.sources),
+        maxItems: input.maxItems,
+        mode: input.mode,
+        enabled,
+        nextRunAt: enabled ? getNextRun(input.cron) : null,
+      },
+    });
+
+    return NextResponse.json({ success: true, schedule: formatSchedule(schedule) });
+  } catch (error) {
+    console.error('Schedules API 错误:', error);
+    return NextResponse.json(
+      { error: '创建定时计划失败' },
+      { status: 500 }
+    );
+  }
+}
+
+// 更新定时计划
+export async function PATCH(request: NextRequest) {
+  try {
+    const parsed = updateScheduleSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return invalidParams(parsed.error);
+    }
+    const { id, ...input } = parsed.data;
+
+    const unsupported = await findUnsupportedSource(input.sources);
+    if (unsupported) {
+      return NextResponse.json(
+        { error: `不支持的数据源: ${unsupported}` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.crawlSchedule.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { error: '定时计划不存在' },
+        { status: 404 }
+      );
+    }
+
+    // cron 或启用状态变化时重新计算下一次执行时间
+    const cron = input.cron ?? existing.cron;
+    const enabled = input.enabled ?? existing.enabled;
+    const schedule = await prisma.crawlSchedule.update({
+      where: { id },
+      data: {
+        cron,
+        sources: input.sources ? JSON.stringify(input.sources) : undefined,
+        maxItems: input.maxItems,
+        mode: input.mode,
+        enabled,
+        nextRunAt: enabled ? getNextRun(cron) : null,
+      },
+    });
+
+    return NextResponse.json({ success: true, schedule: formatSchedule(schedule) });
+  } catch (error) {
+    console.error('Schedules API 错误:', error);
+    return NextResponse.json(
+      { error: '更新定时计划失败' },
+      { status: 500 }
+    );
+  }
+}
+
+// 删除定时计划
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: '缺少 id 参数' },
+        { status: 400 }
+      );
+    }
+
+    const { count } = await prisma.crawlSchedule.deleteMany({ where: { id } });
+    if (count === 0) {
+      return NextResponse.json(
+        { error: '定时计划不存在' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Schedules API 错误:', error);
+    return NextResponse.json(
+      { error: '删除定时计划失败' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { ensureCrawlerPluginsLoaded, listCrawlerPlugins } from '@/lib/crawlers';
+
+export const dynamic = 'force-dynamic';
+
+// 获取已注册的数据源（内置爬虫和插件爬虫）
+export async function GET() {
+  try {
+    await ensureCrawlerPluginsLoaded();
+
+    const sources = listCrawlerPlugins().map((plugin) => ({
+      id: plugin.source,
+      name: plugin.name,
+      description: plugin.description,
+      apiKeyName: plugin.apiKeyName,
+      capabilities: plugin.capabilities,
+      defaults: plugin.defaults,
+      hasSettings: !!plugin.settingsSchema,
+    }));
+
+    return NextResponse.json({ sources });
+  } catch (error) {
+    console.error('Sources API 错误:', error);
+    return NextResponse.json(
+      { error: '获取数据源失败' },
+      { status: 500 }
+    );
+  }
+}
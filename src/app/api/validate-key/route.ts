@@ -1,9 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { LLMProvider } from '@/types';
+import { LLMConfig, LLMProvider } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
-    const { provider, apiKey } = await request.json();
+    const { provider, apiKey, baseUrl, model, authHeader } = (await request.json()) as LLMConfig;
+
+    // 兼容 OpenAI 的自建服务可以不需要 API Key，但必须有接口地址和模型名称
+    if (provider === 'openai-compatible') {
+      if (!baseUrl || !model) {
+        return NextResponse.json(
+          { valid: false, error: '缺少接口地址或模型名称' },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json(
+        await validateCompatibleEndpoint({ provider, apiKey, baseUrl, model, authHeader })
+      );
+    }
 
     if (!provider || !apiKey) {
       return NextResponse.json(
@@ -61,3 +74,40 @@ async function validateApiKey(
     return false;
   }
 }
+
+/**
+ * 验证兼容 OpenAI 的服务：能访问模型列表，且列表中有配置的模型
+ */
+async function validateCompatibleEndpoint(
+  config: LLMConfig
+): Promise<{ valid: boolean; error?: string }> {
+  const { apiKey, baseUrl, model, authHeader } = config;
+  const headerName = authHeader || 'Authorization';
+  const headers: Record<string, string> = {};
+  if (apiKey) {
+    headers[headerName] = headerName.toLowerCase() === 'authorization' ? `Bearer ${apiKey}` : apiKey;
+  }
+
+  try {
+    const response = await fetch(`${(baseUrl as string).replace(/\/+$/, '')}/models`, {
+      headers,
+      signal: AbortSignal.timeout(10000),
+    });
+    if (response.status === 401 || response.status === 403) {
+      return { valid: false, error: '鉴权失败，请检查 API Key 和鉴权请求头' };
+    }
+    if (!response.ok) {
+      return { valid: false, error: `接口返回 ${response.status}，请检查接口地址` };
+    }
+
+    const data = (await response.json()) as { data?: { id: string }[] };
+    const models = (data.data || []).map((item) => item.id);
+    // 部分服务不返回模型列表，列表为空时不做检查
+    if (models.length > 0 && !models.includes(model as string)) {
+      return { valid: false, error: `模型 ${model} 不存在，可用模型: ${models.slice(0, 10).join(', ')}` };
+    }
+    return { valid: true };
+  } catch {
+    return { valid: false, error: '无法连接到接口地址' };
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { drainQueue, runDueSchedules } from '@/lib/queue';
+
+export const dynamic = 'force-dynamic';
+
+// 单次调用的最长执行时间，需小于 vercel.json 中的 maxDuration（60s）
+const DRAIN_BUDGET_MS = 50 * 1000;
+
+// 为到期的定时计划创建任务，并处理爬取任务队列（供 Vercel Cron 或外部调度器调用）
+export async function GET(request: NextRequest) {
+  // 配置了 CRON_SECRET 时校验调用方
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret && request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: '未授权' }, { status: 401 });
+  }
+
+  try {
+    const scheduled = await runDueSchedules();
+    const processed = await drainQueue({ deadline: Date.now() + DRAIN_BUDGET_MS });
+    return NextResponse.json({ success: true, scheduled, processed });
+  } catch (error) {
+    console.error('Worker API 错误:', error);
+    return NextResponse.json(
+      { error: '处理任务队列失败' },
+      { status: 500 }
+    );
+  }
+}
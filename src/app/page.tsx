@@ -1,12 +1,21 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { ChatInterface } from '@/components/ChatInterface';
 import { SourceConfig } from '@/components/SourceConfig';
 import { CrawlProgress } from '@/components/CrawlProgress';
 import { DataPreview } from '@/components/DataPreview';
 import { PaidResourceList } from '@/components/PaidResourceList';
-import { Celebrity, DataSource, CrawlTask, LLMProvider } from '@/types';
+import {
+  Celebrity,
+  ClassificationMode,
+  DataSource,
+  CrawlTask,
+  CrawlLogEntry,
+  CrawlMode,
+  CrawlSourceOptions,
+  LLMConfig,
+} from '@/types';
 
 type AppState = 'config' | 'chat' | 'crawling' | 'preview' | 'paid';
 
@@ -14,59 +23,93 @@ const STORAGE_KEY = 'celebrity-crawler-state';
 
 interface SavedState {
   appState: AppState;
-  llmConfig: { provider: LLMProvider; apiKey: string } | null;
+  llmConfig: LLMConfig | null;
   apiKeys: Record<string, string>;
   celebrity: Celebrity | null;
   selectedSources: DataSource[];
+  sourceOptions?: Partial<Record<DataSource, CrawlSourceOptions>>;
   savedAt: string;
 }
 
 export default function Home() {
   const [isLoaded, setIsLoaded] = useState(false);
   const [appState, setAppState] = useState<AppState>('config');
-  const [llmConfig, setLlmConfig] = useState<{
-    provider: LLMProvider;
-    apiKey: string;
-  } | null>(null);
+  const [llmConfig, setLlmConfig] = useState<LLMConfig | null>(null);
   const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
   const [celebrity, setCelebrity] = useState<Celebrity | null>(null);
   const [selectedSources, setSelectedSources] = useState<DataSource[]>([
     'wikipedia',
   ]);
+  const [sourceOptions, setSourceOptions] = useState<
+    Partial<Record<DataSource, CrawlSourceOptions>>
+  >({});
   const [crawlTasks, setCrawlTasks] = useState<CrawlTask[]>([]);
-
-  // 轮询爬取状态（提前定义，因为 useEffect 中使用）
-  const pollCrawlStatus = useCallback((celebrityId: string) => {
-    const poll = async () => {
-      try {
-        const response = await fetch(`/api/status?celebrityId=${celebrityId}`);
-        const data = await response.json();
-
-        if (data.tasks) {
-          setCrawlTasks(data.tasks);
-
-          // 检查是否全部完成
-          const allCompleted = data.tasks.every(
-            (t: CrawlTask) => t.status === 'completed' || t.status === 'failed'
-          );
-
-          if (allCompleted) {
-            setAppState('preview');
-            return;
-          }
-        }
-
-        // 继续轮询
-        setTimeout(poll, 2000);
-      } catch (error) {
-        console.error('状态查询失败:', error);
-        setTimeout(poll, 5000);
+  const [crawlMode, setCrawlMode] = useState<CrawlMode>('full');
+  const [classificationMode, setClassificationMode] = useState<ClassificationMode>('rule');
+  // 用 LLM 核实引语（每篇第三方文章一次调用，默认关闭）
+  const [verifyQuotes, setVerifyQuotes] = useState(false);
+  // 本次爬取的 LLM 费用上限（美元），为空时使用服务端默认预算
+  const [llmBudgetUsd, setLlmBudgetUsd] = useState('');
+
+  const [crawlLogs, setCrawlLogs] = useState<CrawlLogEntry[]>([]);
+  const eventSourceRef = useRef<EventSource | null>(null);
+
+  // 订阅爬取日志和任务进度（SSE，提前定义，因为 useEffect 中使用）
+  const watchCrawlEvents = useCallback((celebrityId: string) => {
+    eventSourceRef.current?.close();
+    const source = new EventSource(
+      `/api/crawl/events?celebrityId=${encodeURIComponent(celebrityId)}`
+    );
+    eventSourceRef.current = source;
+    let tasks: CrawlTask[] = [];
+
+    const updateTasks = (next: CrawlTask[]) => {
+      tasks = next;
+      setCrawlTasks(next);
+
+      // 检查是否全部结束（完成、失败或取消）
+      const allCompleted =
+        next.length > 0 &&
+        next.every(
+          (t) => t.status === 'completed' || t.status === 'failed' || t.status === 'cancelled'
+        );
+      if (allCompleted) {
+        source.close();
+        setAppState('preview');
       }
     };
 
-    poll();
+    // 连接（包括断线重连）时的任务快照
+    source.addEventListener('tasks', (event) => {
+      updateTasks(JSON.parse((event as MessageEvent).data));
+    });
+
+    source.addEventListener('task', (event) => {
+      const task: CrawlTask = JSON.parse((event as MessageEvent).data);
+      updateTasks(
+        tasks.some((t) => t.id === task.id)
+          ? tasks.map((t) => (t.id === task.id ? task : t))
+          : [task, ...tasks]
+      );
+    });
+
+    // 日志按时间倒序保存，重连补发的日志按 ID 去重
+    source.addEventListener('log', (event) => {
+      const log: CrawlLogEntry = JSON.parse((event as MessageEvent).data);
+      setCrawlLogs((prev) =>
+        prev.some((l) => l.id === log.id) ? prev : [log, ...prev].slice(0, 500)
+      );
+    });
+
+    // 断开后 EventSource 会自动重连并带上 Last-Event-ID
+    source.onerror = () => {
+      console.error('爬取事件连接中断，正在重连');
+    };
   }, []);
 
+  // 页面卸载时关闭连接
+  useEffect(() => () => eventSourceRef.current?.close(), []);
+
   // 从 localStorage 加载状态
   useEffect(() => {
     try {
@@ -82,10 +125,11 @@ export default function Home() {
           setApiKeys(state.apiKeys);
           setCelebrity(state.celebrity);
           setSelectedSources(state.selectedSources);
+          setSourceOptions(state.sourceOptions || {});
 
-          // 如果之前在爬取中，恢复轮询
+          // 如果之前在爬取中，恢复订阅
           if (state.appState === 'crawling' && state.celebrity?.id) {
-            pollCrawlStatus(state.celebrity.id);
+            watchCrawlEvents(state.celebrity.id);
           }
         }
       }
@@ -93,7 +137,7 @@ export default function Home() {
       console.error('加载缓存状态失败:', error);
     }
     setIsLoaded(true);
-  }, [pollCrawlStatus]);
+  }, [watchCrawlEvents]);
 
   // 保存状态到 localStorage
   const saveState = useCallback(() => {
@@ -105,13 +149,14 @@ export default function Home() {
         apiKeys,
         celebrity,
         selectedSources,
+        sourceOptions,
         savedAt: new Date().toISOString(),
       };
       localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
     } catch (error) {
       console.error('保存状态失败:', error);
     }
-  }, [isLoaded, appState, llmConfig, apiKeys, celebrity, selectedSources]);
+  }, [isLoaded, appState, llmConfig, apiKeys, celebrity, selectedSources, sourceOptions]);
 
   // 状态变化时自动保存
   useEffect(() => {
@@ -126,12 +171,15 @@ export default function Home() {
     setApiKeys({});
     setCelebrity(null);
     setSelectedSources(['wikipedia']);
+    setSourceOptions({});
     setCrawlTasks([]);
+    setCrawlLogs([]);
+    eventSourceRef.current?.close();
   };
 
   // 处理LLM配置完成
-  const handleLLMConfigured = (provider: LLMProvider, apiKey: string) => {
-    setLlmConfig({ provider, apiKey });
+  const handleLLMConfigured = (config: LLMConfig) => {
+    setLlmConfig(config);
     setAppState('chat');
   };
 
@@ -158,6 +206,7 @@ export default function Home() {
     }));
 
     setCrawlTasks(tasks);
+    setCrawlLogs([]);
 
     // 启动爬取
     try {
@@ -168,6 +217,15 @@ export default function Home() {
           celebrity,
           sources: selectedSources,
           apiKeys,
+          mode: crawlMode,
+          classification: classificationMode,
+          verifyQuotes: !!llmConfig && verifyQuotes,
+          // 只在 LLM 分类或引语核实开启时发送 LLM 配置
+          llm: llmConfig && (classificationMode !== 'rule' || verifyQuotes) ? llmConfig : undefined,
+          llmBudget: Number(llmBudgetUsd) > 0 ? { maxCost: Number(llmBudgetUsd) } : undefined,
+          options: Object.fromEntries(
+            selectedSources.map((source) => [source, sourceOptions[source] || {}])
+          ),
         }),
       });
 
@@ -175,8 +233,14 @@ export default function Home() {
         throw new Error('爬取请求失败');
       }
 
-      // 轮询获取状态
-      pollCrawlStatus(celebrity.id || '');
+      // 新建的名人由服务端创建，使用返回的 ID 订阅
+      const data = await response.json();
+      if (!celebrity.id) {
+        setCelebrity({ ...celebrity, id: data.celebrityId });
+      }
+
+      // 订阅实时日志和进度
+      watchCrawlEvents(data.celebrityId);
     } catch (error) {
       console.error('爬取失败:', error);
     }
@@ -300,6 +364,8 @@ export default function Home() {
             onApiKeysChange={setApiKeys}
             selectedSources={selectedSources}
             onSourcesChange={setSelectedSources}
+            sourceOptions={sourceOptions}
+            onSourceOptionsChange={setSourceOptions}
           />
         )}
 
@@ -328,6 +394,52 @@ export default function Home() {
                     </li>
                   ))}
                 </ul>
+                {celebrity?.id && (
+                  <label className="flex items-center gap-2 mt-4 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={crawlMode === 'update'}
+                      onChange={(e) => setCrawlMode(e.target.checked ? 'update' : 'full')}
+                    />
+                    增量更新（只爬取上次之后的新内容）
+                  </label>
+                )}
+                <label className="block mt-4 text-sm text-gray-600">
+                  内容分类
+                  <select
+                    value={classificationMode}
+                    onChange={(e) => setClassificationMode(e.target.value as ClassificationMode)}
+                    className="w-full mt-1 px-3 py-1.5 border rounded text-sm"
+                  >
+                    <option value="rule">仅规则</option>
+                    <option value="hybrid">规则 + LLM（规则无法确定的交给 LLM）</option>
+                    <option value="llm">全部由 LLM 分类</option>
+                  </select>
+                </label>
+                {llmConfig && (
+                  <label className="flex items-center gap-2 mt-4 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={verifyQuotes}
+                      onChange={(e) => setVerifyQuotes(e.target.checked)}
+                    />
+                    用 LLM 核实第三方文章中的引语
+                  </label>
+                )}
+                {llmConfig && (
+                  <label className="block mt-4 text-sm text-gray-600">
+                    LLM 预算（美元，留空使用默认预算）
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={llmBudgetUsd}
+                      onChange={(e) => setLlmBudgetUsd(e.target.value)}
+                      placeholder="如 1.00"
+                      className="w-full mt-1 px-3 py-1.5 border rounded text-sm"
+                    />
+                  </label>
+                )}
                 {celebrity && (
                   <button
                     onClick={handleStartCrawl}
@@ -343,7 +455,7 @@ export default function Home() {
 
         {/* 爬取进度阶段 */}
         {appState === 'crawling' && (
-          <CrawlProgress tasks={crawlTasks} celebrity={celebrity} />
+          <CrawlProgress tasks={crawlTasks} logs={crawlLogs} celebrity={celebrity} />
         )}
 
         {/* 预览导出阶段 */}
@@ -1,13 +1,18 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { ChatMessage, Celebrity, LLMProvider } from '@/types';
+import {
+  ChatMessage,
+  ChatStreamEvent,
+  Celebrity,
+  CelebrityIdentifiers,
+  LLMConfig,
+} from '@/types';
+import { IDENTIFIER_LABELS } from '@/lib/utils/identifiers';
+import { WikidataCandidate } from '@/lib/utils/wikidata';
 
 interface ChatInterfaceProps {
-  llmConfig: {
-    provider: LLMProvider;
-    apiKey: string;
-  };
+  llmConfig: LLMConfig;
   onCelebrityConfirmed: (celebrity: Celebrity) => void;
 }
 
@@ -27,6 +32,12 @@ export function ChatInterface({
   const [pendingCelebrity, setPendingCelebrity] = useState<Celebrity | null>(
     null
   );
+  // AI 建议的外部标识，用户勾选的会保存到名人资料
+  const [proposedIdentifiers, setProposedIdentifiers] = useState<CelebrityIdentifiers>({});
+  const [acceptedIdentifiers, setAcceptedIdentifiers] = useState<Set<string>>(new Set());
+  // Wikidata 候选人物，每轮回传给服务端；entity 为确认的人物
+  const [candidates, setCandidates] = useState<WikidataCandidate[]>([]);
+  const [entity, setEntity] = useState<WikidataCandidate | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -43,9 +54,59 @@ export function ChatInterface({
 
     const userMessage = input.trim();
     setInput('');
+    await sendMessage(userMessage);
+  };
+
+  // 从候选列表中选择人物
+  const handleSelectCandidate = (candidate: WikidataCandidate) => {
+    if (isLoading) return;
+    sendMessage(`我要找的是 ${candidate.label}（${candidate.qid}）`);
+  };
+
+  const sendMessage = async (userMessage: string) => {
     setMessages((prev) => [...prev, { role: 'user', content: userMessage }]);
     setIsLoading(true);
 
+    // 流式回复的文本先追加到一条助手消息中，结束时替换为服务端整理后的完整回复
+    let replyStarted = false;
+    const updateReply = (update: (content: string) => string) => {
+      setMessages((prev) => {
+        if (!replyStarted) {
+          replyStarted = true;
+          return [...prev, { role: 'assistant', content: update('') }];
+        }
+        const last = prev[prev.length - 1];
+        return [...prev.slice(0, -1), { ...last, content: update(last.content) }];
+      });
+    };
+
+    const handleEvent = (event: ChatStreamEvent) => {
+      switch (event.type) {
+        case 'candidates':
+          setCandidates(event.candidates || []);
+          break;
+        case 'delta':
+          updateReply((content) => content + event.text);
+          break;
+        case 'done':
+          updateReply(() => event.message);
+          setCandidates(event.candidates || []);
+
+          // 如果识别到名人，显示确认按钮
+          if (event.celebrity && event.confirmed) {
+            setPendingCelebrity(event.celebrity);
+            setEntity(event.wikidata || null);
+            const proposed: CelebrityIdentifiers = event.proposedIdentifiers || {};
+            setProposedIdentifiers(proposed);
+            setAcceptedIdentifiers(new Set(Object.keys(proposed)));
+          }
+          break;
+        case 'error':
+          updateReply(() => `错误: ${event.error}`);
+          break;
+      }
+    };
+
     try {
       const response = await fetch('/api/chat', {
         method: 'POST',
@@ -53,50 +114,89 @@ export function ChatInterface({
         body: JSON.stringify({
           messages: [...messages, { role: 'user', content: userMessage }],
           llmConfig,
+          candidates,
         }),
       });
 
-      const data = await response.json();
-
-      if (data.error) {
-        setMessages((prev) => [
-          ...prev,
-          { role: 'assistant', content: `错误: ${data.error}` },
-        ]);
-      } else {
-        setMessages((prev) => [
-          ...prev,
-          { role: 'assistant', content: data.message },
-        ]);
-
-        // 如果识别到名人，显示确认按钮
-        if (data.celebrity && data.confirmed) {
-          setPendingCelebrity(data.celebrity);
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        handleEvent({ type: 'error', error: data.error || '请求失败' });
+        return;
+      }
+
+      // 响应为换行分隔的 JSON 事件
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          if (line.trim()) handleEvent(JSON.parse(line));
         }
+        if (done) break;
       }
     } catch (error) {
-      setMessages((prev) => [
-        ...prev,
-        {
-          role: 'assistant',
-          content: '抱歉，发生了错误。请稍后重试。',
-        },
-      ]);
+      updateReply(() => '抱歉，发生了错误。请稍后重试。');
       console.error('Chat error:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleConfirm = () => {
-    if (pendingCelebrity) {
-      onCelebrityConfirmed(pendingCelebrity);
-      setPendingCelebrity(null);
+  const handleConfirm = async () => {
+    if (!pendingCelebrity) return;
+
+    let celebrity = pendingCelebrity;
+    const accepted = Object.fromEntries(
+      Object.entries(proposedIdentifiers).filter(([key]) => acceptedIdentifiers.has(key))
+    );
+
+    // 保存用户确认的标识，失败时不阻止流程
+    if (celebrity.id && Object.keys(accepted).length > 0) {
+      try {
+        const response = await fetch('/api/celebrities', {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: celebrity.id,
+            identifiers: { ...celebrity.identifiers, ...accepted },
+          }),
+        });
+        const data = await response.json();
+        if (data.celebrity) {
+          celebrity = data.celebrity;
+        } else {
+          console.error('保存外部标识失败:', data.error);
+        }
+      } catch (error) {
+        console.error('保存外部标识失败:', error);
+      }
+    }
+
+    onCelebrityConfirmed(celebrity);
+    setPendingCelebrity(null);
+    setProposedIdentifiers({});
+    setEntity(null);
+    setCandidates([]);
+  };
+
+  const toggleIdentifier = (key: string) => {
+    const next = new Set(acceptedIdentifiers);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
     }
+    setAcceptedIdentifiers(next);
   };
 
   const handleReject = () => {
     setPendingCelebrity(null);
+    setProposedIdentifiers({});
+    setEntity(null);
     setMessages((prev) => [
       ...prev,
       {
@@ -112,7 +212,12 @@ export function ChatInterface({
       <div className="px-4 py-3 border-b bg-gray-50 rounded-t-lg">
         <h2 className="font-semibold text-gray-900">AI 助手</h2>
         <p className="text-xs text-gray-500">
-          使用 {llmConfig.provider === 'openai' ? 'OpenAI GPT-4' : 'Claude'}{' '}
+          使用{' '}
+          {llmConfig.provider === 'openai-compatible'
+            ? llmConfig.model
+            : llmConfig.provider === 'openai'
+            ? 'OpenAI GPT-4'
+            : 'Claude'}{' '}
           进行名人识别
         </p>
       </div>
@@ -138,7 +243,7 @@ export function ChatInterface({
           </div>
         ))}
 
-        {isLoading && (
+        {isLoading && messages[messages.length - 1]?.role === 'user' && (
           <div className="flex justify-start">
             <div className="bg-gray-100 rounded-lg px-4 py-2">
               <div className="flex space-x-1">
@@ -170,11 +275,46 @@ export function ChatInterface({
               <p className="text-sm text-blue-700">
                 {pendingCelebrity.description}
               </p>
+              {entity && (
+                <p className="text-xs text-blue-600 mt-1">
+                  Wikidata:{' '}
+                  <a
+                    href={`https://www.wikidata.org/wiki/${entity.qid}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="underline"
+                  >
+                    {entity.qid}
+                  </a>
+                  {entity.birthDate && ` · 出生: ${entity.birthDate}`}
+                  {entity.occupations.length > 0 && ` · ${entity.occupations.slice(0, 3).join('、')}`}
+                </p>
+              )}
               {pendingCelebrity.aliases.length > 0 && (
                 <p className="text-xs text-blue-600 mt-1">
                   别名: {pendingCelebrity.aliases.join(', ')}
                 </p>
               )}
+              {Object.entries(pendingCelebrity.identifiers || {}).map(([key, value]) => (
+                <p key={key} className="text-xs text-blue-600 mt-1">
+                  {IDENTIFIER_LABELS[key as keyof CelebrityIdentifiers]}: {value}
+                </p>
+              ))}
+              {Object.keys(proposedIdentifiers).length > 0 && (
+                <div className="mt-2 space-y-1">
+                  <p className="text-xs text-blue-800">AI 建议的官方账号（勾选后保存，爬取时优先使用）:</p>
+                  {Object.entries(proposedIdentifiers).map(([key, value]) => (
+                    <label key={key} className="flex items-center gap-2 text-xs text-blue-700">
+                      <input
+                        type="checkbox"
+                        checked={acceptedIdentifiers.has(key)}
+                        onChange={() => toggleIdentifier(key)}
+                      />
+                      {IDENTIFIER_LABELS[key as keyof CelebrityIdentifiers]}: {value}
+                    </label>
+                  ))}
+                </div>
+              )}
             </div>
             <div className="flex gap-2">
               <button
@@ -194,6 +334,31 @@ export function ChatInterface({
         </div>
       )}
 
+      {/* Wikidata 候选人物 */}
+      {!pendingCelebrity && candidates.length > 1 && (
+        <div className="px-4 py-3 bg-gray-50 border-t max-h-40 overflow-y-auto">
+          <p className="text-xs text-gray-500 mb-2">Wikidata 中的同名人物，点击选择:</p>
+          <div className="space-y-1">
+            {candidates.map((candidate) => (
+              <button
+                key={candidate.qid}
+                onClick={() => handleSelectCandidate(candidate)}
+                disabled={isLoading}
+                className="w-full text-left px-3 py-1 text-xs border rounded-lg hover:bg-white disabled:opacity-50"
+              >
+                <span className="font-medium text-gray-900">{candidate.label}</span>
+                <span className="text-gray-500">
+                  {[candidate.birthDate, candidate.occupations.slice(0, 3).join('、'), candidate.description]
+                    .filter(Boolean)
+                    .map((detail) => ` · ${detail}`)
+                    .join('')}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* 输入框 */}
       <form onSubmit={handleSubmit} className="p-4 border-t">
         <div className="flex gap-2">
@@ -1,19 +1,12 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { CrawlTask, Celebrity } from '@/types';
-
-interface CrawlLog {
-  id: string;
-  taskId: string;
-  level: 'info' | 'warn' | 'error' | 'success';
-  message: string;
-  details: Record<string, unknown> | null;
-  createdAt: string;
-}
+import { CrawlTask, CrawlLogEntry, Celebrity } from '@/types';
 
 interface CrawlProgressProps {
   tasks: CrawlTask[];
+  // 实时推送的日志（按时间倒序）
+  logs: CrawlLogEntry[];
   celebrity: Celebrity | null;
 }
 
@@ -52,53 +45,12 @@ const LOG_LEVEL_CONFIG: Record<string, { color: string; bgColor: string; icon: s
   success: { color: 'text-green-400', bgColor: 'bg-green-900/30', icon: '✅' },
 };
 
-export function CrawlProgress({ tasks, celebrity }: CrawlProgressProps) {
-  const [logs, setLogs] = useState<CrawlLog[]>([]);
+export function CrawlProgress({ tasks, logs, celebrity }: CrawlProgressProps) {
   const [showLogs, setShowLogs] = useState(true);
-  const [currentAction, setCurrentAction] = useState<string>('初始化...');
+  const [cancelling, setCancelling] = useState<Record<string, boolean>>({});
   const logsEndRef = useRef<HTMLDivElement>(null);
-  const lastLogTime = useRef<string | null>(null);
-
-  // 轮询获取日志 - 更快的频率
-  useEffect(() => {
-    if (!celebrity?.id) return;
-
-    const fetchLogs = async () => {
-      try {
-        const url = new URL('/api/logs', window.location.origin);
-        url.searchParams.set('celebrityId', celebrity.id || '');
-        if (lastLogTime.current) {
-          url.searchParams.set('since', lastLogTime.current);
-        }
-
-        const response = await fetch(url.toString());
-        const data = await response.json();
-
-        if (data.logs && data.logs.length > 0) {
-          setLogs((prev) => {
-            const existingIds = new Set(prev.map((l) => l.id));
-            const newLogs = data.logs.filter((l: CrawlLog) => !existingIds.has(l.id));
-            if (newLogs.length > 0) {
-              lastLogTime.current = newLogs[0].createdAt;
-              // 更新当前操作状态
-              const latestLog = newLogs[0];
-              setCurrentAction(latestLog.message);
-              return [...newLogs.reverse(), ...prev].slice(0, 500); // 保留更多日志
-            }
-            return prev;
-          });
-        }
-      } catch (error) {
-        console.error('获取日志失败:', error);
-      }
-    };
-
-    fetchLogs();
-    // 更快的轮询频率 - 1秒
-    const interval = setInterval(fetchLogs, 1000);
-
-    return () => clearInterval(interval);
-  }, [celebrity?.id]);
+  // 当前操作状态取最新一条日志
+  const currentAction = logs[0]?.message || '初始化...';
 
   // 自动滚动到底部
   useEffect(() => {
@@ -107,25 +59,47 @@ export function CrawlProgress({ tasks, celebrity }: CrawlProgressProps) {
     }
   }, [logs, showLogs]);
 
+  // 取消任务（传 taskId 取消单个任务，否则取消全部未结束的任务）
+  const cancelCrawl = async (taskId?: string) => {
+    const key = taskId || 'all';
+    setCancelling((prev) => ({ ...prev, [key]: true }));
+    try {
+      await fetch('/api/crawl/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(taskId ? { taskId } : { celebrityId: celebrity?.id }),
+      });
+    } catch (error) {
+      console.error('取消任务失败:', error);
+    } finally {
+      setCancelling((prev) => ({ ...prev, [key]: false }));
+    }
+  };
+
   const totalItems = tasks.reduce((sum, task) => sum + task.itemsCrawled, 0);
   const completedTasks = tasks.filter(
-    (t) => t.status === 'completed' || t.status === 'failed'
+    (t) => t.status === 'completed' || t.status === 'failed' || t.status === 'cancelled'
   ).length;
-  const runningTask = tasks.find((t) => t.status === 'running');
+  const hasActiveTasks = tasks.some((t) => t.status === 'pending' || t.status === 'running');
+  // 多个数据源并行爬取时可能同时有多个运行中的任务
+  const runningTasks = tasks.filter((t) => t.status === 'running');
+  const runningItems = runningTasks.reduce((sum, task) => sum + task.itemsCrawled, 0);
   const overallProgress =
     tasks.length > 0 ? (completedTasks / tasks.length) * 100 : 0;
 
   return (
     <div className="max-w-4xl mx-auto space-y-6">
       {/* 当前状态卡片 */}
-      {runningTask && (
+      {runningTasks.length > 0 && (
         <div className="bg-gradient-to-r from-blue-600 to-indigo-600 rounded-lg shadow-lg p-6 text-white">
           <div className="flex items-center gap-3 mb-3">
             <div className="w-3 h-3 bg-white rounded-full animate-ping" />
             <span className="text-lg font-semibold">正在爬取</span>
-            <span className="bg-white/20 px-3 py-1 rounded-full text-sm">
-              {SOURCE_NAMES[runningTask.source] || runningTask.source}
-            </span>
+            {runningTasks.map((task) => (
+              <span key={task.id} className="bg-white/20 px-3 py-1 rounded-full text-sm">
+                {SOURCE_NAMES[task.source] || task.source}
+              </span>
+            ))}
           </div>
           <div className="bg-white/10 rounded-lg p-3 font-mono text-sm">
             <div className="flex items-center gap-2">
@@ -137,7 +111,7 @@ export function CrawlProgress({ tasks, celebrity }: CrawlProgressProps) {
             </div>
           </div>
           <div className="mt-3 flex justify-between text-sm text-white/80">
-            <span>已获取 {runningTask.itemsCrawled} 条数据</span>
+            <span>已获取 {runningItems} 条数据</span>
             <span>目标: {celebrity?.name}</span>
           </div>
         </div>
@@ -161,6 +135,15 @@ export function CrawlProgress({ tasks, celebrity }: CrawlProgressProps) {
             <div className="text-sm text-gray-500">
               {completedTasks}/{tasks.length} 个数据源
             </div>
+            {hasActiveTasks && celebrity?.id && (
+              <button
+                onClick={() => cancelCrawl()}
+                disabled={cancelling.all}
+                className="mt-2 text-xs px-3 py-1 border border-red-300 text-red-600 rounded hover:bg-red-50 disabled:opacity-50"
+              >
+                {cancelling.all ? '取消中...' : '全部取消'}
+              </button>
+            )}
           </div>
         </div>
 
@@ -197,8 +180,17 @@ export function CrawlProgress({ tasks, celebrity }: CrawlProgressProps) {
                       {statusConfig.text}
                     </span>
                   </div>
-                  <div className="text-sm text-gray-500">
+                  <div className="flex items-center gap-3 text-sm text-gray-500">
                     {task.itemsCrawled} 条
+                    {(task.status === 'pending' || task.status === 'running') && (
+                      <button
+                        onClick={() => cancelCrawl(task.id)}
+                        disabled={cancelling[task.id]}
+                        className="text-xs text-red-500 hover:text-red-700 disabled:opacity-50"
+                      >
+                        {cancelling[task.id] ? '取消中...' : '取消'}
+                      </button>
+                    )}
                   </div>
                 </div>
 
@@ -212,6 +204,8 @@ export function CrawlProgress({ tasks, celebrity }: CrawlProgressProps) {
                         ? 'bg-green-500'
                         : task.status === 'failed'
                         ? 'bg-red-500'
+                        : task.status === 'cancelled'
+                        ? 'bg-yellow-400'
                         : 'bg-gray-300'
                     }`}
                     style={{
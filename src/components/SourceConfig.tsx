@@ -1,18 +1,20 @@
 'use client';
 
-import { useState } from 'react';
-import { DataSource, LLMProvider } from '@/types';
+import { useEffect, useState } from 'react';
+import { CrawlSourceOptions, DataSource, LLMConfig, LLMProvider } from '@/types';
 import { ApiKeyHelpLink } from './ApiKeyGuide';
 
 interface SourceConfigProps {
-  onLLMConfigured: (provider: LLMProvider, apiKey: string) => void;
+  onLLMConfigured: (config: LLMConfig) => void;
   apiKeys: Record<string, string>;
   onApiKeysChange: (keys: Record<string, string>) => void;
   selectedSources: DataSource[];
   onSourcesChange: (sources: DataSource[]) => void;
+  sourceOptions: Partial<Record<DataSource, CrawlSourceOptions>>;
+  onSourceOptionsChange: (options: Partial<Record<DataSource, CrawlSourceOptions>>) => void;
 }
 
-const DATA_SOURCES: {
+interface DataSourceInfo {
   id: DataSource;
   name: string;
   description: string;
@@ -21,13 +23,34 @@ const DATA_SOURCES: {
   apiKeyName?: string;
   publicModeNote?: string;
   guideProvider?: 'twitter' | 'youtube' | 'google' | 'spotify';  // 对应的帮助指南
-}[] = [
+  supportsLanguages?: boolean;  // 是否支持按语言爬取
+  supportsQueryTemplates?: boolean;  // 是否支持自定义搜索词
+  urlListSetting?: { key: string; label: string; placeholder: string };  // 地址列表形式的专属配置（settings）
+  toggleSetting?: { key: string; label: string };  // 开关形式的专属配置（settings）
+}
+
+// /api/sources 返回的已注册数据源
+interface RegisteredSource {
+  id: DataSource;
+  name: string;
+  description?: string;
+  apiKeyName?: string;
+  capabilities: {
+    needsKey: boolean;
+    supportsLanguages?: boolean;
+    supportsQueryTemplates?: boolean;
+  };
+}
+
+const DATA_SOURCES: DataSourceInfo[] = [
   {
     id: 'wikipedia',
     name: 'Wikipedia',
     description: '维基百科基本信息',
     requiresApiKey: false,
     hasPublicMode: true,
+    supportsLanguages: true,
+    toggleSetting: { key: 'followReferences', label: '抓取引用来源原文（采访、演讲、新闻报道）' },
   },
   {
     id: 'twitter',
@@ -48,6 +71,8 @@ const DATA_SOURCES: {
     apiKeyName: 'YOUTUBE_API_KEY',
     publicModeNote: '无 Key 模式：通过 Invidious/公开页面获取',
     guideProvider: 'youtube',
+    supportsLanguages: true,
+    supportsQueryTemplates: true,
   },
   {
     id: 'news',
@@ -58,6 +83,7 @@ const DATA_SOURCES: {
     apiKeyName: 'GOOGLE_SEARCH_API_KEY',
     publicModeNote: '无 Key 模式：通过 Bing/Google News RSS/DuckDuckGo/Reddit 获取',
     guideProvider: 'google',
+    supportsQueryTemplates: true,
   },
   {
     id: 'book',
@@ -65,27 +91,177 @@ const DATA_SOURCES: {
     description: '相关书籍和传记内容摘要',
     requiresApiKey: false,
     hasPublicMode: true,
+    supportsLanguages: true,
+    supportsQueryTemplates: true,
   },
   {
     id: 'podcast',
     name: '播客',
     description: '播客出镜内容的文字稿',
-    requiresApiKey: true,
-    hasPublicMode: false,
-    apiKeyName: 'SPOTIFY_API_KEY',
-    guideProvider: 'spotify',
+    requiresApiKey: false,
+    hasPublicMode: true,
+    publicModeNote: '通过 iTunes 搜索发现节目 RSS，获取单集简介和 Podcasting 2.0 文字稿',
+    supportsLanguages: true,
+    supportsQueryTemplates: true,
+    urlListSetting: {
+      key: 'feedUrls',
+      label: '订阅源地址（每行一个，除搜索结果外额外爬取）',
+      placeholder: 'https://example.com/podcast.rss',
+    },
+  },
+  {
+    id: 'blog',
+    name: '博客/个人网站',
+    description: '本人在 Substack、Medium 或个人网站发表的文章',
+    requiresApiKey: false,
+    hasPublicMode: true,
+    publicModeNote: '读取站点的 RSS 和 sitemap.xml，未配置站点时按名称查找 Substack / Medium',
+    urlListSetting: {
+      key: 'sites',
+      label: '本人的博客 / 个人网站（每行一个）',
+      placeholder: 'https://example.substack.com\nhttps://medium.com/@example',
+    },
   },
 ];
 
+// 逗号或换行分隔的文本转为列表，空列表返回 undefined
+function parseList(value: string, separator: RegExp): string[] | undefined {
+  const items = value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+// 单个数据源的高级选项
+function SourceOptionsEditor({
+  source,
+  options,
+  onChange,
+}: {
+  source: DataSourceInfo;
+  options: CrawlSourceOptions;
+  onChange: (options: CrawlSourceOptions) => void;
+}) {
+  const update = (patch: Partial<CrawlSourceOptions>) => onChange({ ...options, ...patch });
+  const { urlListSetting, toggleSetting } = source;
+
+  return (
+    <details className="mt-3 ml-7">
+      <summary className="text-sm text-gray-600 cursor-pointer select-none">高级选项</summary>
+      <div className="mt-2 grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="text-xs text-gray-500 space-y-1">
+          <span>最大条目数</span>
+          <input
+            type="number"
+            min={1}
+            max={1000}
+            value={options.maxItems ?? ''}
+            onChange={(e) =>
+              update({ maxItems: e.target.value ? parseInt(e.target.value) : undefined })
+            }
+            placeholder="100"
+            className="w-full px-3 py-2 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <label className="text-xs text-gray-500 space-y-1">
+          <span>开始日期</span>
+          <input
+            type="date"
+            value={options.startDate ?? ''}
+            onChange={(e) => update({ startDate: e.target.value || undefined })}
+            className="w-full px-3 py-2 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <label className="text-xs text-gray-500 space-y-1">
+          <span>结束日期</span>
+          <input
+            type="date"
+            value={options.endDate ?? ''}
+            onChange={(e) => update({ endDate: e.target.value || undefined })}
+            className="w-full px-3 py-2 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+      </div>
+      {source.supportsLanguages && (
+        <label className="block mt-3 text-xs text-gray-500 space-y-1">
+          <span>语言（逗号分隔，如 en, zh）</span>
+          <input
+            type="text"
+            defaultValue={options.languages?.join(', ') ?? ''}
+            onBlur={(e) => update({ languages: parseList(e.target.value, /[,，\s]+/) })}
+            placeholder="en, zh"
+            className="w-full px-3 py-2 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+      )}
+      {source.supportsQueryTemplates && (
+        <label className="block mt-3 text-xs text-gray-500 space-y-1">
+          <span>搜索词模板（每行一个，{'{name}'} 替换为名人名称）</span>
+          <textarea
+            rows={3}
+            defaultValue={options.queryTemplates?.join('\n') ?? ''}
+            onBlur={(e) => update({ queryTemplates: parseList(e.target.value, /\n/) })}
+            placeholder={'{name} interview\n{name} keynote'}
+            className="w-full px-3 py-2 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+      )}
+      {urlListSetting && (
+        <label className="block mt-3 text-xs text-gray-500 space-y-1">
+          <span>{urlListSetting.label}</span>
+          <textarea
+            rows={3}
+            defaultValue={
+              (options.settings?.[urlListSetting.key] as string[] | undefined)?.join('\n') ?? ''
+            }
+            onBlur={(e) =>
+              update({
+                settings: {
+                  ...options.settings,
+                  [urlListSetting.key]: parseList(e.target.value, /\n/),
+                },
+              })
+            }
+            placeholder={urlListSetting.placeholder}
+            className="w-full px-3 py-2 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+      )}
+      {toggleSetting && (
+        <label className="flex items-center gap-2 mt-3 text-xs text-gray-500">
+          <input
+            type="checkbox"
+            checked={options.settings?.[toggleSetting.key] === true}
+            onChange={(e) =>
+              update({
+                settings: { ...options.settings, [toggleSetting.key]: e.target.checked },
+              })
+            }
+          />
+          <span>{toggleSetting.label}</span>
+        </label>
+      )}
+    </details>
+  );
+}
+
 export function SourceConfig({
   onLLMConfigured,
   apiKeys,
   onApiKeysChange,
   selectedSources,
   onSourcesChange,
+  sourceOptions,
+  onSourceOptionsChange,
 }: SourceConfigProps) {
   const [llmProvider, setLlmProvider] = useState<LLMProvider>('openai');
   const [llmApiKey, setLlmApiKey] = useState('');
+  // 兼容 OpenAI 的自建服务（Ollama、vLLM、llama.cpp server 等）
+  const [llmBaseUrl, setLlmBaseUrl] = useState('http://localhost:11434/v1');
+  const [llmModel, setLlmModel] = useState('');
+  const [llmAuthHeader, setLlmAuthHeader] = useState('');
+  const isCompatible = llmProvider === 'openai-compatible';
   const [isValidating, setIsValidating] = useState(false);
   const [error, setError] = useState('');
   // 记录哪些数据源使用公开模式（无 Key）
@@ -94,6 +270,40 @@ export function SourceConfig({
     youtube: true,
     news: true,
   });
+  const [dataSources, setDataSources] = useState<DataSourceInfo[]>(DATA_SOURCES);
+
+  // 按服务端注册表显示数据源：内置数据源沿用本地说明，插件数据源追加在后面
+  useEffect(() => {
+    const fetchSources = async () => {
+      try {
+        const response = await fetch('/api/sources');
+        const data = await response.json();
+        if (!response.ok) return;
+
+        const registered = data.sources as RegisteredSource[];
+        const registeredIds = new Set(registered.map((source) => source.id));
+        const builtinIds = new Set(DATA_SOURCES.map((source) => source.id));
+        setDataSources([
+          ...DATA_SOURCES.filter((source) => registeredIds.has(source.id)),
+          ...registered
+            .filter((source) => !builtinIds.has(source.id))
+            .map((source) => ({
+              id: source.id,
+              name: source.name,
+              description: source.description || '',
+              requiresApiKey: source.capabilities.needsKey,
+              hasPublicMode: !source.capabilities.needsKey,
+              apiKeyName: source.apiKeyName,
+              supportsLanguages: source.capabilities.supportsLanguages,
+              supportsQueryTemplates: source.capabilities.supportsQueryTemplates,
+            })),
+        ]);
+      } catch (err) {
+        console.error('获取数据源失败:', err);
+      }
+    };
+    fetchSources();
+  }, []);
 
   const handleSourceToggle = (sourceId: DataSource) => {
     if (selectedSources.includes(sourceId)) {
@@ -113,18 +323,32 @@ export function SourceConfig({
       [sourceId]: !publicModeEnabled[sourceId],
     });
     // 如果切换到公开模式，清空对应的 API Key
-    const source = DATA_SOURCES.find((s) => s.id === sourceId);
+    const source = dataSources.find((s) => s.id === sourceId);
     if (source?.apiKeyName && !publicModeEnabled[sourceId]) {
       onApiKeysChange({ ...apiKeys, [source.apiKeyName]: '' });
     }
   };
 
   const handleContinue = async () => {
-    if (!llmApiKey.trim()) {
+    if (isCompatible && (!llmBaseUrl.trim() || !llmModel.trim())) {
+      setError('请输入接口地址和模型名称');
+      return;
+    }
+    if (!isCompatible && !llmApiKey.trim()) {
       setError('请输入 LLM API Key');
       return;
     }
 
+    const config: LLMConfig = isCompatible
+      ? {
+          provider: llmProvider,
+          apiKey: llmApiKey.trim(),
+          baseUrl: llmBaseUrl.trim(),
+          model: llmModel.trim(),
+          authHeader: llmAuthHeader.trim() || undefined,
+        }
+      : { provider: llmProvider, apiKey: llmApiKey };
+
     setIsValidating(true);
     setError('');
 
@@ -133,18 +357,15 @@ export function SourceConfig({
       const response = await fetch('/api/validate-key', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          provider: llmProvider,
-          apiKey: llmApiKey,
-        }),
+        body: JSON.stringify(config),
       });
 
       const data = await response.json();
 
       if (data.valid) {
-        onLLMConfigured(llmProvider, llmApiKey);
+        onLLMConfigured(config);
       } else {
-        setError('API Key 无效，请检查后重试');
+        setError(data.error || 'API Key 无效，请检查后重试');
       }
     } catch {
       setError('验证失败，请稍后重试');
@@ -164,7 +385,7 @@ export function SourceConfig({
           选择一个 LLM 提供商用于名人识别和内容分析
         </p>
 
-        <div className="grid grid-cols-2 gap-4 mb-4">
+        <div className="grid grid-cols-3 gap-4 mb-4">
           <button
             onClick={() => setLlmProvider('openai')}
             className={`p-4 border-2 rounded-lg text-left transition ${
@@ -187,21 +408,73 @@ export function SourceConfig({
             <div className="font-medium">Anthropic</div>
             <div className="text-sm text-gray-500">Claude 3 Opus</div>
           </button>
+          <button
+            onClick={() => setLlmProvider('openai-compatible')}
+            className={`p-4 border-2 rounded-lg text-left transition ${
+              isCompatible
+                ? 'border-blue-500 bg-blue-50'
+                : 'border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            <div className="font-medium">自建服务</div>
+            <div className="text-sm text-gray-500">兼容 OpenAI 接口（Ollama、vLLM 等）</div>
+          </button>
         </div>
 
+        {isCompatible && (
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">接口地址</label>
+              <input
+                type="text"
+                value={llmBaseUrl}
+                onChange={(e) => setLlmBaseUrl(e.target.value)}
+                placeholder="http://localhost:11434/v1"
+                className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">模型名称</label>
+              <input
+                type="text"
+                value={llmModel}
+                onChange={(e) => setLlmModel(e.target.value)}
+                placeholder="qwen2.5:14b"
+                className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <label className="block text-sm font-medium text-gray-700">
+                鉴权请求头（可选，默认 Authorization: Bearer）
+              </label>
+              <input
+                type="text"
+                value={llmAuthHeader}
+                onChange={(e) => setLlmAuthHeader(e.target.value)}
+                placeholder="Authorization"
+                className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+        )}
+
         <div className="space-y-2">
           <div className="flex items-center justify-between">
             <label className="block text-sm font-medium text-gray-700">
-              {llmProvider === 'openai' ? 'OpenAI' : 'Anthropic'} API Key
+              {isCompatible
+                ? 'API Key（可选）'
+                : `${llmProvider === 'openai' ? 'OpenAI' : 'Anthropic'} API Key`}
             </label>
-            <ApiKeyHelpLink provider={llmProvider} />
+            {!isCompatible && (
+              <ApiKeyHelpLink provider={llmProvider === 'openai' ? 'openai' : 'anthropic'} />
+            )}
           </div>
           <input
             type="password"
             value={llmApiKey}
             onChange={(e) => setLlmApiKey(e.target.value)}
             placeholder={
-              llmProvider === 'openai' ? 'sk-...' : 'sk-ant-...'
+              isCompatible ? '服务不需要鉴权时留空' : llmProvider === 'openai' ? 'sk-...' : 'sk-ant-...'
             }
             className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
@@ -227,7 +500,7 @@ export function SourceConfig({
         </p>
 
         <div className="space-y-3">
-          {DATA_SOURCES.map((source) => (
+          {dataSources.map((source) => (
             <div
               key={source.id}
               className={`border rounded-lg p-4 transition ${
@@ -367,6 +640,17 @@ export function SourceConfig({
                     />
                   </div>
                 )}
+
+              {/* 爬取范围选项 */}
+              {selectedSources.includes(source.id) && (
+                <SourceOptionsEditor
+                  source={source}
+                  options={sourceOptions[source.id] || {}}
+                  onChange={(options) =>
+                    onSourceOptionsChange({ ...sourceOptions, [source.id]: options })
+                  }
+                />
+              )}
             </div>
           ))}
         </div>
@@ -0,0 +1,10 @@
+// 服务启动时运行：加载爬虫插件，启动常驻 worker（接管重启前遗留的任务）和定时爬取调度器
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.CRAWL_WORKER !== 'off') {
+    const { ensureCrawlerPluginsLoaded } = await import('@/lib/crawlers');
+    await ensureCrawlerPluginsLoaded();
+    const { startWorkerLoop, startScheduler } = await import('@/lib/queue');
+    startWorkerLoop();
+    startScheduler();
+  }
+}
@@ -0,0 +1,88 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { extractArticle } from '../article-extractor';
+
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, 'fixtures/articles', name), 'utf-8');
+}
+
+describe('extractArticle', () => {
+  it('uses a known body container and reads page metadata', () => {
+    const article = extractArticle(fixture('news-selector.html'));
+
+    expect(article).not.toBeNull();
+    expect(article!.method).toBe('selector');
+    expect(article!.title).toBe('Engine pioneer honoured at science museum');
+    expect(article!.byline).toBe('Jane Reporter');
+    expect(article!.date).toBe('2024-03-05T08:00:00Z');
+    expect(article!.language).toBe('en');
+    expect(article!.siteName).toBe('Daily Ledger');
+    expect(article!.imageUrl).toBe('https://ledger.example.com/images/engine.jpg');
+    expect(article!.canonicalUrl).toBe('https://ledger.example.com/science/engine-pioneer');
+
+    expect(article!.content).toContain('first published computer program');
+    expect(article!.content).toContain('manipulate symbols, not just numbers');
+    expect(article!.content).not.toContain('Share on X');
+    expect(article!.content).not.toContain('Great article');
+  });
+
+  it('does not treat vendor class names or footer promos as a paywall', () => {
+    const article = extractArticle(fixture('news-selector.html'));
+
+    expect(article!.paywalled).toBe(false);
+  });
+
+  it('falls back to paragraph scoring when no known container matches', () => {
+    const article = extractArticle(fixture('blog-scoring.html'));
+
+    expect(article).not.toBeNull();
+    expect(article!.method).toBe('scoring');
+    expect(article!.title).toBe('Notes from the workshop');
+    expect(article!.byline).toBe('Ada Lovelace');
+    expect(article!.date).toBe('2023-11-02');
+
+    expect(article!.content).toContain('gears for the new prototype');
+    expect(article!.content).toContain('the carriage mechanism');
+    expect(article!.content).not.toContain('Archive 2023');
+    expect(article!.content).not.toContain('delivered every Sunday morning');
+  });
+
+  it('prefers the JSON-LD article body when the page is rendered by scripts', () => {
+    const article = extractArticle(fixture('jsonld.html'));
+
+    expect(article).not.toBeNull();
+    expect(article!.method).toBe('jsonld');
+    expect(article!.title).toBe('专访：分析机背后的诗意');
+    expect(article!.byline).toBe('李记者');
+    expect(article!.date).toBe('2024-01-15T09:30:00+08:00');
+    expect(article!.language).toBe('zh');
+    expect(article!.content).toMatch(/^在这次专访中/);
+    expect(article!.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('flags paywalled pages and lowers confidence', () => {
+    const article = extractArticle(fixture('paywall.html'));
+
+    expect(article).not.toBeNull();
+    expect(article!.method).toBe('selector');
+    expect(article!.paywalled).toBe(true);
+    // meta author 是作者主页链接时改用页面上的署名
+    expect(article!.byline).toBe('Sam Writer');
+    expect(article!.date).toBe('2024-02-20');
+    expect(article!.confidence).toBeLessThan(0.5);
+  });
+
+  it('flags articles marked as not free in JSON-LD', () => {
+    const html = fixture('jsonld.html').replace(
+      '"headline"',
+      '"isAccessibleForFree": "False", "headline"'
+    );
+
+    expect(extractArticle(html)!.paywalled).toBe(true);
+  });
+
+  it('returns null when the page has too little text', () => {
+    expect(extractArticle('<html><body><p>Page not found.</p></body></html>')).toBeNull();
+  });
+});
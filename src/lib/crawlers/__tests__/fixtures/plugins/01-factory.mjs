@@ -0,0 +1,22 @@
+// 工厂函数导出：通过宿主 SDK 继承 BaseCrawler、声明配置校验规则
+export default function createPlugin({ BaseCrawler, z }) {
+  class FanzineCrawler extends BaseCrawler {
+    source = 'fanzine';
+
+    async crawl() {
+      return { success: true, items: [], totalItems: 0 };
+    }
+
+    validateConfig() {
+      return true;
+    }
+  }
+
+  return {
+    source: 'fanzine',
+    name: 'Fanzine',
+    capabilities: { needsKey: false, supportsDateFilter: false, supportsResume: false },
+    settingsSchema: z.object({ issue: z.number().int().positive() }),
+    create: () => new FanzineCrawler(),
+  };
+}
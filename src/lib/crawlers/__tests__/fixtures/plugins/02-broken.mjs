@@ -0,0 +1,2 @@
+// 模块加载时抛出异常
+throw new Error('plugin failed to initialise');
@@ -0,0 +1,7 @@
+// 数据源 ID 不符合格式
+export default {
+  source: 'Bad Source',
+  name: 'Bad',
+  capabilities: { needsKey: false, supportsDateFilter: false, supportsResume: false },
+  create: () => ({}),
+};
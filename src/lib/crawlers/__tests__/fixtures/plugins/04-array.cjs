@@ -0,0 +1,7 @@
+// CommonJS 模块导出插件数组
+const capabilities = { needsKey: false, supportsDateFilter: false, supportsResume: false };
+
+module.exports = [
+  { source: 'zine-a', name: 'Zine A', capabilities, create: () => ({}) },
+  { source: 'zine-b', name: 'Zine B', capabilities, create: () => ({}) },
+];
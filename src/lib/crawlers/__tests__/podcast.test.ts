@@ -0,0 +1,214 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import { Celebrity, ContentItem } from '@/types';
+import {
+  PodcastCrawler,
+  PodcastFetcher,
+  parseJsonTranscript,
+  parsePodcastFeed,
+  parseTranscript,
+  podcastSettingsSchema,
+} from '../podcast';
+
+const FEED_URL = 'https://podcasts.example.com/long-conversation/feed.xml';
+
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, 'fixtures/podcast', name), 'utf-8');
+}
+
+// 按地址返回本地样例，未登记的地址视为请求失败
+function fixtureFetcher(files: Record<string, string>): PodcastFetcher {
+  return vi.fn(async (url: string) => {
+    const name = files[url];
+    if (!name) throw new Error(`unexpected fetch: ${url}`);
+    return fixture(name);
+  });
+}
+
+const ada: Celebrity = { name: 'Ada Lovelace', aliases: [] };
+
+async function collect(generator: AsyncGenerator<ContentItem>): Promise<ContentItem[]> {
+  const items: ContentItem[] = [];
+  for await (const item of generator) items.push(item);
+  return items;
+}
+
+describe('parsePodcastFeed', () => {
+  it('reads channel fields and Podcasting 2.0 extensions', () => {
+    const feed = parsePodcastFeed(fixture('feed.xml'));
+
+    expect(feed).not.toBeNull();
+    expect(feed!.title).toBe('The Long Conversation');
+    expect(feed!.author).toBe('Sam Host');
+    expect(feed!.language).toBe('en-us');
+    expect(feed!.entries).toHaveLength(3);
+
+    const [episode] = feed!.entries;
+    expect(episode.guid).toBe('lc-101');
+    expect(episode.duration).toBe('01:02:03');
+    expect(episode.episode).toBe(101);
+    expect(episode.season).toBe(3);
+    expect(episode.enclosure?.url).toBe('https://cdn.example.com/lc-101.mp3');
+    expect(episode.persons).toEqual([
+      { name: 'Sam Host', role: 'host' },
+      { name: 'Ada Lovelace', role: 'guest' },
+    ]);
+    expect(episode.transcripts).toEqual([
+      {
+        url: 'https://podcasts.example.com/long-conversation/101.vtt',
+        type: 'text/vtt',
+        language: 'en',
+      },
+      {
+        url: 'https://podcasts.example.com/long-conversation/101.json',
+        type: 'application/json',
+        language: 'en',
+      },
+    ]);
+  });
+
+  it('returns null for documents that are not feeds', () => {
+    expect(parsePodcastFeed('<html><body>Not a feed</body></html>')).toBeNull();
+  });
+});
+
+describe('parseTranscript', () => {
+  it('strips WebVTT headers, cues and voice tags and drops repeated lines', () => {
+    expect(parseTranscript(fixture('transcript.vtt'), 'text/vtt')).toBe(
+      'Welcome back to the show. Thank you for having me. The engine weaves algebraic patterns.'
+    );
+  });
+
+  it('strips SRT sequence numbers and timestamps', () => {
+    expect(parseTranscript(fixture('transcript.srt'), 'application/x-subrip')).toBe(
+      'Welcome back to the show. Thank you for having me. The engine weaves algebraic patterns.'
+    );
+  });
+
+  it('merges consecutive JSON segments by speaker', () => {
+    expect(parseTranscript(fixture('transcript.json'), 'application/json')).toBe(
+      [
+        'Sam Host: Welcome back to the show.',
+        'Ada Lovelace: Thank you for having me.',
+        'Sam Host: Tell us about the engine.',
+      ].join('\n')
+    );
+  });
+
+  it('keeps only the given speaker when filtering JSON segments', () => {
+    const body = JSON.stringify({
+      segments: [
+        { speaker: 'Ada Lovelace', body: 'The engine' },
+        { speaker: 'Ada Lovelace', body: 'weaves patterns.' },
+        { speaker: 'Sam Host', body: 'Go on.' },
+        { speaker: 'Ada Lovelace', body: 'Like a loom.' },
+        { body: 'Unlabelled aside.' },
+      ],
+    });
+
+    expect(parseJsonTranscript(body, (speaker) => speaker === 'Ada Lovelace')).toBe(
+      ['Ada Lovelace: The engine weaves patterns.', 'Ada Lovelace: Like a loom.'].join('\n')
+    );
+    expect(parseJsonTranscript(body, (speaker) => speaker === 'Grace Hopper')).toBe('');
+  });
+
+  it('returns an empty string for malformed JSON', () => {
+    expect(parseTranscript('{ not json', 'application/json')).toBe('');
+  });
+});
+
+describe('podcastSettingsSchema', () => {
+  it('only accepts http(s) feed URLs', () => {
+    expect(podcastSettingsSchema.safeParse({ feedUrls: [FEED_URL] }).success).toBe(true);
+    expect(podcastSettingsSchema.safeParse({ feedUrls: ['file:///etc/passwd'] }).success).toBe(
+      false
+    );
+    expect(podcastSettingsSchema.safeParse({ searchUrl: 'file:///etc/passwd' }).success).toBe(
+      false
+    );
+  });
+});
+
+describe('PodcastCrawler', () => {
+  it("keeps guest episodes and only the guest's own lines from a labelled transcript", async () => {
+    const fetcher = fixtureFetcher({
+      [FEED_URL]: 'feed.xml',
+      'https://podcasts.example.com/long-conversation/101.json': 'transcript.json',
+    });
+    const crawler = new PodcastCrawler(fetcher);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const items = await collect(
+      crawler.crawl(ada, {
+        source: 'podcast',
+        settings: { feedUrls: [FEED_URL], skipSearch: true },
+      })
+    );
+    errorSpy.mockRestore();
+
+    // 第 102 期没有提到本人，不保留
+    expect(items.map((item) => item.metadata?.episodeGuid)).toEqual(['lc-101', 'lc-103']);
+
+    const [interview, rerun] = items;
+    expect(interview.content).toBe('Ada Lovelace: Thank you for having me.');
+    expect(interview.priority).toBe(1);
+    expect(interview.weight).toBe(1.0);
+    expect(interview.metadata?.role).toBe('guest');
+    expect(interview.metadata?.transcriptType).toBe('application/json');
+    expect(interview.metadata?.speakerOnly).toBe(true);
+
+    // 只有节目简介时按第三方描述处理
+    expect(rerun.metadata?.hasTranscript).toBe(false);
+    expect(rerun.priority).toBe(3);
+    expect(rerun.content).toContain('We revisit our interview with Ada Lovelace.');
+
+    // 订阅源里的 file:// 文字稿地址不会被读取
+    const fetchedUrls = vi.mocked(fetcher).mock.calls.map(([url]) => url);
+    expect(fetchedUrls).not.toContain('file:///etc/passwd');
+  });
+
+  it('lowers the priority of guest transcripts without speaker labels', async () => {
+    // 去掉 JSON 文字稿，只剩不带说话人标注的 WebVTT
+    const feed = fixture('feed.xml').replace(/^.*101\.json.*$/m, '');
+    const crawler = new PodcastCrawler(async (url) => {
+      if (url === FEED_URL) return feed;
+      if (url.endsWith('101.vtt')) return fixture('transcript.vtt');
+      throw new Error(`unexpected fetch: ${url}`);
+    });
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const [interview] = await collect(
+      crawler.crawl(ada, { source: 'podcast', settings: { feedUrls: [FEED_URL], skipSearch: true } })
+    );
+    errorSpy.mockRestore();
+
+    expect(interview.content).toContain('Welcome back to the show.');
+    expect(interview.priority).toBe(2);
+    expect(interview.weight).toBe(0.8);
+    expect(interview.metadata?.speakerOnly).toBeUndefined();
+  });
+
+  it("keeps the full transcript of every episode of the celebrity's own show", async () => {
+    const fetcher = fixtureFetcher({
+      [FEED_URL]: 'feed.xml',
+      'https://podcasts.example.com/long-conversation/101.json': 'transcript.json',
+    });
+    const crawler = new PodcastCrawler(fetcher);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const items = await collect(
+      crawler.crawl(
+        { name: 'Sam Host', aliases: [] },
+        { source: 'podcast', settings: { feedUrls: [FEED_URL], skipSearch: true } }
+      )
+    );
+    errorSpy.mockRestore();
+
+    expect(items.map((item) => item.metadata?.episodeGuid)).toEqual(['lc-101', 'lc-102', 'lc-103']);
+    expect(items[0].metadata?.role).toBe('host');
+    expect(items[0].content).toContain('Ada Lovelace: Thank you for having me.');
+    expect(items[0].priority).toBe(1);
+    expect(items[1].priority).toBe(3);
+  });
+});
@@ -0,0 +1,48 @@
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BaseCrawler } from '../base';
+import { getCrawlerPlugin, loadCrawlerPlugins } from '../registry';
+
+const PLUGIN_DIR = path.join(__dirname, 'fixtures/plugins');
+
+describe('loadCrawlerPlugins', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('loads factory and array exports and skips plugins that fail', async () => {
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const loaded = await loadCrawlerPlugins(PLUGIN_DIR);
+
+    expect(loaded).toEqual(['fanzine', 'zine-a', 'zine-b']);
+    // 抛出异常的模块和数据源 ID 无效的插件各记录一次错误
+    expect(errors).toHaveBeenCalledTimes(2);
+    expect(errors.mock.calls.map(([message]) => message)).toEqual([
+      expect.stringContaining('02-broken.mjs'),
+      expect.stringContaining('03-invalid-source.mjs'),
+    ]);
+    expect(getCrawlerPlugin('Bad Source')).toBeUndefined();
+  });
+
+  it('passes the host SDK to factory exports', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    // 工厂函数每次加载都返回新的插件对象，重复加载会覆盖并告警
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await loadCrawlerPlugins(PLUGIN_DIR);
+
+    const plugin = getCrawlerPlugin('fanzine')!;
+    const crawler = plugin.create({ hasApiKey: false });
+
+    expect(crawler).toBeInstanceOf(BaseCrawler);
+    expect(crawler.source).toBe('fanzine');
+    expect(plugin.settingsSchema!.safeParse({ issue: 3 }).success).toBe(true);
+    expect(plugin.settingsSchema!.safeParse({ issue: 'three' }).success).toBe(false);
+  });
+
+  it('treats a missing directory as having no plugins', async () => {
+    expect(await loadCrawlerPlugins(path.join(PLUGIN_DIR, 'missing'))).toEqual([]);
+  });
+});
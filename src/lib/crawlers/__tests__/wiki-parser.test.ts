@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { extractDate } from '../wiki-parser';
+
+describe('extractDate', () => {
+  it('prefers the most precise date in a sentence', () => {
+    expect(extractDate('He was born on March 14, 1879 in Ulm.')).toBe('1879-03-14');
+    expect(extractDate('She moved to Paris on 14 June 1891.')).toBe('1891-06-14');
+    expect(extractDate('他于1879年3月14日出生。')).toBe('1879-03-14');
+    expect(extractDate('He joined the board in May 2004.')).toBe('2004-05');
+  });
+
+  it('accepts years with date context', () => {
+    expect(extractDate('He has lived in Berlin since 1933.')).toBe('1933');
+    expect(extractDate('The company was founded in 2002.')).toBe('2002');
+    expect(extractDate('她在2008年获得奖项。')).toBe('2008');
+    expect(extractDate('Smith, J. (1998). A biography.')).toBe('1998');
+    expect(extractDate('He chaired the committee (1990–1995).')).toBe('1990');
+  });
+
+  it('ignores bare four-digit numbers', () => {
+    expect(extractDate('The company has 1500 employees.')).toBeUndefined();
+    expect(extractDate('The motion passed with 2048 votes.')).toBeUndefined();
+    expect(extractDate('The ticket price rose by 2,000 yen to 1500.5 yen.')).toBeUndefined();
+  });
+
+  it('ignores years after next year', () => {
+    expect(extractDate('The tunnel is planned to open in 2095.')).toBeUndefined();
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * 网页正文提取（参考 Readability 的做法）
+ * 去除导航、广告、评论等模板内容，按段落得分选出正文容器，并读取标题、作者、日期等元数据。
+ * 新闻、博客和维基百科引用来源共用，confidence 表示提取结果的可信度
+ */
+
+import * as cheerio from 'cheerio';
+import { htmlToText } from './feed';
+
+export type ExtractionMethod = 'jsonld' | 'selector' | 'scoring' | 'paragraphs';
+
+export interface ExtractedArticle {
+  title?: string;
+  content: string;
+  byline?: string;
+  date?: string;
+  language?: string;
+  siteName?: string;
+  imageUrl?: string;
+  canonicalUrl?: string;
+  method: ExtractionMethod;
+  // 检测到付费墙（正文可能不完整）
+  paywalled: boolean;
+  // 0–1
+  confidence: number;
+}
+
+export interface ExtractOptions {
+  // 站点专用的正文容器选择器，优先于打分
+  selectors?: string[];
+  // 正文少于该长度（字符）时视为提取失败
+  minLength?: number;
+}
+
+// 写入 ContentItem.metadata.extraction 的摘要
+export function extractionMetadata(article: ExtractedArticle) {
+  return {
+    method: article.method,
+    confidence: article.confidence,
+    paywalled: article.paywalled,
+  };
+}
+
+type Node = ReturnType<cheerio.CheerioAPI>;
+
+// 一定不是正文的元素
+const BOILERPLATE_SELECTOR =
+  'script, style, noscript, iframe, form, nav, footer, aside, svg, button, select, textarea, template, [hidden], [aria-hidden="true"]';
+
+// class / id 命中时视为模板内容（同时命中 MAYBE_CONTENT 的除外）
+const UNLIKELY_PATTERN =
+  /comment|sidebar|footer|menu|share|social|related|recommend|promo|advert|\bads?\b|sponsor|newsletter|subscribe|cookie|popup|modal|breadcrumb|masthead|banner|widget|pagination|disqus|outbrain|taboola/i;
+const MAYBE_CONTENT_PATTERN = /article|body|content|main|story|post|entry|text/i;
+
+// 打分用的 class / id 权重
+const POSITIVE_PATTERN = /article|body|content|entry|main|page|post|text|blog|story/i;
+const NEGATIVE_PATTERN =
+  /comment|meta|footer|footnote|masthead|media|related|scroll|share|shoutbox|sidebar|sponsor|shopping|tags|tool|widget|hidden|caption/i;
+
+// 付费墙的标记
+const PAYWALL_CLASS_PATTERN = /paywall|subscriber-only|premium-content|metered|regwall|tp-modal|locked-content/i;
+const PAYWALL_TEXT_PATTERN =
+  /subscribe to (continue|read)|to continue reading|already a subscriber|subscribers only|sign in to read|订阅后(继续)?阅读|付费(内容|阅读)|开通会员|登录后阅读/i;
+
+const DEFAULT_MIN_LENGTH = 200;
+
+// 各提取方式的基础可信度
+const METHOD_CONFIDENCE: Record<ExtractionMethod, number> = {
+  jsonld: 0.9,
+  selector: 0.8,
+  scoring: 0.7,
+  paragraphs: 0.4,
+};
+
+// 常见的正文容器
+const DEFAULT_SELECTORS = [
+  '[itemprop="articleBody"]',
+  'article .article-body',
+  'article .entry-content',
+  '.article-content',
+  '.article-body',
+  '.story-body',
+  '.post-content',
+  '.entry-content',
+];
+
+interface JsonLdArticle {
+  headline?: string;
+  articleBody?: string;
+  datePublished?: string;
+  author?: string;
+  isAccessibleForFree?: boolean;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 读取 JSON-LD 中的文章信息（NewsArticle、BlogPosting 等）
+ */
+function readJsonLd($: cheerio.CheerioAPI): JsonLdArticle | null {
+  const candidates: Record<string, unknown>[] = [];
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      const data = JSON.parse($(element).text());
+      const items: unknown[] = Array.isArray(data) ? data : data['@graph'] || [data];
+      for (const item of items) {
+        if (item && typeof item === 'object') candidates.push(item as Record<string, unknown>);
+      }
+    } catch {
+      // 忽略格式错误的 JSON-LD
+    }
+  });
+
+  const article = candidates.find((item) => {
+    const types = ([] as unknown[]).concat(item['@type']);
+    return types.some((type) => typeof type === 'string' && /Article|BlogPosting|Report/.test(type));
+  });
+  if (!article) return null;
+
+  const author = ([] as unknown[]).concat(article.author)[0];
+  const free = article.isAccessibleForFree;
+  return {
+    headline: typeof article.headline === 'string' ? article.headline : undefined,
+    articleBody: typeof article.articleBody === 'string' ? article.articleBody : undefined,
+    datePublished: typeof article.datePublished === 'string' ? article.datePublished : undefined,
+    author:
+      typeof author === 'string'
+        ? author
+        : author && typeof author === 'object' && typeof (author as { name?: unknown }).name === 'string'
+          ? (author as { name: string }).name
+          : undefined,
+    isAccessibleForFree: free === false || free === 'False' || free === 'false' ? false : undefined,
+  };
+}
+
+function readMetadata($: cheerio.CheerioAPI, jsonLd: JsonLdArticle | null) {
+  const meta = (...names: string[]) => {
+    for (const name of names) {
+      const value = $(`meta[property="${name}"], meta[name="${name}"], meta[itemprop="${name}"]`)
+        .first()
+        .attr('content')
+        ?.trim();
+      if (value) return value;
+    }
+    return undefined;
+  };
+
+  const siteName = meta('og:site_name');
+  let title = meta('og:title', 'twitter:title') || jsonLd?.headline || normalize($('h1').first().text());
+  if (!title) {
+    // <title> 通常带站点名（"标题 | 站点"）
+    title = normalize($('title').first().text()).split(/\s+[|–—-]\s+/)[0];
+  }
+
+  // article:author 有时是作者主页链接
+  const metaAuthor = meta('author', 'article:author', 'parsely-author', 'sailthru.author');
+  const byline =
+    (metaAuthor && !/^https?:\/\//.test(metaAuthor) ? metaAuthor : undefined) ||
+    jsonLd?.author ||
+    normalize($('[rel="author"], [itemprop="author"], .byline, .author-name').first().text()) ||
+    undefined;
+
+  return {
+    title: title || undefined,
+    byline: byline?.replace(/^(by|作者[:：]?)\s*/i, ''),
+    date:
+      meta('article:published_time', 'datePublished', 'pubdate', 'publishdate', 'date', 'DC.date.issued') ||
+      jsonLd?.datePublished ||
+      $('time[datetime]').first().attr('datetime'),
+    language: ($('html').attr('lang') || meta('og:locale'))?.split(/[-_]/)[0].toLowerCase(),
+    siteName,
+    imageUrl: meta('og:image', 'twitter:image'),
+    canonicalUrl: $('link[rel="canonical"]').attr('href') || meta('og:url'),
+  };
+}
+
+// 付费墙的标记和弹窗在去除模板内容前检查
+function hasPaywallMarkup($: cheerio.CheerioAPI, jsonLd: JsonLdArticle | null): boolean {
+  if (jsonLd?.isAccessibleForFree === false) return true;
+  return $('[class], [id]')
+    .toArray()
+    .some((element) => PAYWALL_CLASS_PATTERN.test(`${$(element).attr('class') || ''} ${$(element).attr('id') || ''}`));
+}
+
+// 去除模板内容
+function removeBoilerplate($: cheerio.CheerioAPI): void {
+  $(BOILERPLATE_SELECTOR).remove();
+  $('header').not('article header').remove();
+  $('[class], [id]').each((_, element) => {
+    const node = $(element);
+    if (node.is('html, body, article, main')) return;
+    const label = `${node.attr('class') || ''} ${node.attr('id') || ''}`;
+    if (UNLIKELY_PATTERN.test(label) && !MAYBE_CONTENT_PATTERN.test(label)) {
+      node.remove();
+    }
+  });
+}
+
+function linkDensity($: cheerio.CheerioAPI, node: Node): number {
+  const length = normalize(node.text()).length;
+  if (length === 0) return 0;
+  const linkLength = node
+    .find('a')
+    .toArray()
+    .reduce((sum, link) => sum + normalize($(link).text()).length, 0);
+  return linkLength / length;
+}
+
+function classWeight(node: Node): number {
+  const label = `${node.attr('class') || ''} ${node.attr('id') || ''}`;
+  let weight = 0;
+  if (POSITIVE_PATTERN.test(label)) weight += 25;
+  if (NEGATIVE_PATTERN.test(label)) weight -= 25;
+  return weight;
+}
+
+/**
+ * 按段落打分选出正文容器：段落得分累加到父元素（全部）和祖父元素（一半），
+ * 再按链接密度折减；得分相近的兄弟元素一并纳入
+ */
+function scoreContent($: cheerio.CheerioAPI): Node | null {
+  const scores = new Map<unknown, { node: Node; score: number }>();
+  const addScore = (node: Node, score: number) => {
+    const element = node.get(0);
+    if (!element || node.is('html, body')) return;
+    const entry = scores.get(element) || { node, score: classWeight(node) + (node.is('article') ? 10 : 0) };
+    entry.score += score;
+    scores.set(element, entry);
+  };
+
+  $('p, pre, td, blockquote').each((_, element) => {
+    const node = $(element);
+    const text = normalize(node.text());
+    if (text.length < 25) return;
+
+    // 每个逗号（中英文）加 1 分，每 100 字加 1 分（最多 3 分）
+    const score = 1 + (text.match(/[,，、]/g) || []).length + Math.min(Math.floor(text.length / 100), 3);
+    addScore(node.parent(), score);
+    addScore(node.parent().parent(), score / 2);
+  });
+
+  let best: { node: Node; score: number } | null = null;
+  for (const entry of Array.from(scores.values())) {
+    const score = entry.score * (1 - linkDensity($, entry.node));
+    if (!best || score > best.score) best = { node: entry.node, score };
+  }
+  if (!best) return null;
+
+  // 正文常被拆成多个兄弟容器，得分达到最佳的 20% 或较长的低链接段落一并纳入
+  const threshold = Math.max(10, best.score * 0.2);
+  const parts = best.node
+    .parent()
+    .children()
+    .toArray()
+    .filter((element) => {
+      if (element === best?.node.get(0)) return true;
+      const node = $(element);
+      const entry = scores.get(element);
+      if (entry && entry.score * (1 - linkDensity($, node)) >= threshold) return true;
+      const text = normalize(node.text());
+      return node.is('p') && text.length > 80 && linkDensity($, node) < 0.25;
+    });
+
+  return parts.length > 1 ? $(parts) : best.node;
+}
+
+function nodeText($: cheerio.CheerioAPI, node: Node): string {
+  return node
+    .toArray()
+    .map((element) => htmlToText($.html(element)))
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function confidenceOf(
+  method: ExtractionMethod,
+  content: string,
+  density: number,
+  paywalled: boolean,
+  metadata: { title?: string; date?: string }
+): number {
+  let confidence = METHOD_CONFIDENCE[method];
+  if (content.length < 500) confidence *= 0.6;
+  else if (content.length > 2000) confidence += 0.1;
+  if (density > 0.3) confidence *= 0.7;
+  if (paywalled) confidence *= 0.5;
+  if (metadata.title) confidence += 0.05;
+  if (metadata.date) confidence += 0.05;
+  return Math.round(Math.min(Math.max(confidence, 0), 1) * 100) / 100;
+}
+
+/**
+ * 提取网页正文和元数据，无法提取足够长的正文时返回 null
+ */
+export function extractArticle(html: string, options: ExtractOptions = {}): ExtractedArticle | null {
+  const minLength = options.minLength ?? DEFAULT_MIN_LENGTH;
+  const $ = cheerio.load(html);
+
+  const jsonLd = readJsonLd($);
+  const metadata = readMetadata($, jsonLd);
+  const paywallMarkup = hasPaywallMarkup($, jsonLd);
+
+  removeBoilerplate($);
+  // 提示文字在去除模板内容后检查，避免页脚的订阅广告误判
+  const paywalled = paywallMarkup || PAYWALL_TEXT_PATTERN.test($('body').text());
+
+  let method: ExtractionMethod | null = null;
+  let content = '';
+  let density = 0;
+
+  for (const selector of [...(options.selectors || []), ...DEFAULT_SELECTORS]) {
+    const node = $(selector).first();
+    if (node.length === 0) continue;
+    const text = nodeText($, node);
+    if (text.length >= minLength) {
+      method = 'selector';
+      content = text;
+      density = linkDensity($, node);
+      break;
+    }
+  }
+
+  if (!method) {
+    const node = scoreContent($);
+    const text = node ? nodeText($, node) : '';
+    if (node && text.length >= minLength) {
+      method = 'scoring';
+      content = text;
+      density = linkDensity($, node);
+    }
+  }
+
+  // 页面正文被脚本渲染时，JSON-LD 中的 articleBody 往往更完整
+  const jsonLdBody = jsonLd?.articleBody?.trim();
+  if (jsonLdBody && jsonLdBody.length >= Math.max(minLength, content.length)) {
+    method = 'jsonld';
+    content = jsonLdBody;
+    density = 0;
+  }
+
+  if (!method) {
+    const paragraphs = $('p')
+      .map((_, element) => normalize($(element).text()))
+      .get()
+      .filter((text) => text.length > 50)
+      .join('\n\n');
+    if (paragraphs.length >= minLength) {
+      method = 'paragraphs';
+      content = paragraphs;
+    }
+  }
+
+  if (!method) return null;
+
+  return {
+    ...metadata,
+    content,
+    method,
+    paywalled,
+    confidence: confidenceOf(method, content, density, paywalled, metadata),
+  };
+}
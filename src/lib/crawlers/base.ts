@@ -1,15 +1,65 @@
-import { Celebrity, ContentItem, CrawlerConfig, DataSource, ICrawler } from '@/types';
+import {
+  Celebrity,
+  ContentItem,
+  CrawlCheckpoint,
+  CrawlerConfig,
+  CrawlerDefaults,
+  DataSource,
+  ICrawler,
+} from '@/types';
 
 export abstract class BaseCrawler implements ICrawler {
   abstract source: DataSource;
 
   abstract crawl(
     celebrity: Celebrity,
-    config?: CrawlerConfig
+    config?: CrawlerConfig,
+    signal?: AbortSignal
   ): AsyncGenerator<ContentItem>;
 
   abstract validateConfig(config: CrawlerConfig): boolean;
 
+  // 取消信号，子类在 crawl 开始时设置，并传给每个 HTTP 请求
+  protected signal?: AbortSignal;
+
+  // 当前检查点，子类在 yield 之前通过 saveCheckpoint 更新
+  protected checkpoint: CrawlCheckpoint = {};
+
+  // 内容条目未指定优先级和权重时使用的默认值，由注册表按插件声明设置
+  protected defaults: CrawlerDefaults = { priority: 4, weight: 0.5 };
+
+  getCheckpoint(): CrawlCheckpoint {
+    return this.checkpoint;
+  }
+
+  setDefaults(defaults: CrawlerDefaults): void {
+    this.defaults = defaults;
+  }
+
+  // 辅助方法：从配置中恢复检查点
+  protected restoreCheckpoint<T extends CrawlCheckpoint>(
+    config?: CrawlerConfig
+  ): Partial<T> {
+    this.checkpoint = { ...(config?.checkpoint || {}) };
+    return this.checkpoint as Partial<T>;
+  }
+
+  // 辅助方法：更新检查点
+  protected saveCheckpoint(patch: CrawlCheckpoint): void {
+    this.checkpoint = { ...this.checkpoint, ...patch };
+  }
+
+  // 辅助方法：判断发布日期是否在配置的时间范围内（日期未知或无法解析时不过滤）
+  protected isInDateRange(date: Date | string | undefined, config?: CrawlerConfig): boolean {
+    if (!date || (!config?.startDate && !config?.endDate)) return true;
+
+    const time = new Date(date).getTime();
+    if (isNaN(time)) return true;
+    if (config.startDate && time < config.startDate.getTime()) return false;
+    if (config.endDate && time > config.endDate.getTime()) return false;
+    return true;
+  }
+
   // 辅助方法：创建内容条目
   protected createContentItem(
     data: Partial<ContentItem> & { content: string }
@@ -17,16 +67,27 @@ export abstract class BaseCrawler implements ICrawler {
     return {
       source: this.source,
       type: 'other',
-      priority: 4,
-      weight: 0.5,
+      priority: this.defaults.priority,
+      weight: this.defaults.weight,
       language: 'en',
       ...data,
     };
   }
 
-  // 辅助方法：延迟（避免请求过快）
+  // 辅助方法：延迟（避免请求过快），任务取消时立即中断
   protected async delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    this.signal?.throwIfAborted();
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        this.signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      this.signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   // 辅助方法：重试机制
@@ -42,6 +103,8 @@ export abstract class BaseCrawler implements ICrawler {
         return await fn();
       } catch (error) {
         lastError = error as Error;
+        // 任务已取消，不再重试
+        if (this.signal?.aborted) break;
         if (i < maxRetries - 1) {
           await this.delay(delayMs * (i + 1));
         }
@@ -0,0 +1,381 @@
+import * as cheerio from 'cheerio';
+import { z } from 'zod';
+import { Celebrity, ContentItem, CrawlerConfig, DataSource } from '@/types';
+import { extractArticle, extractionMetadata } from './article-extractor';
+import { BaseCrawler } from './base';
+import { htmlToText, parseFeed } from './feed';
+import http from './http';
+
+// 数据源专属配置（options.blog.settings）
+export const blogSettingsSchema = z.object({
+  // 本人的博客 / 个人网站（Substack、Medium 主页、个人域名或订阅源地址）
+  sites: z.array(z.string().url()).max(20).default([]),
+  // 没有配置站点时，按名称猜测 Substack / Medium 地址（作者与本人一致才采用）
+  guessSites: z.boolean().default(true),
+  // 是否读取 sitemap.xml 补充订阅源中没有的旧文章
+  includeSitemap: z.boolean().default(true),
+  // 每个 sitemap 最多读取的链接数
+  maxSitemapUrls: z.number().int().min(1).max(5000).default(500),
+});
+
+export type BlogSettings = z.infer<typeof blogSettingsSchema>;
+
+type BlogPlatform = 'substack' | 'medium' | 'personal';
+
+interface BlogSite {
+  url: string;
+  platform: BlogPlatform;
+  // 用户配置的站点视为本人博客，猜测的站点需要作者与本人一致
+  verified: boolean;
+}
+
+interface BlogPost {
+  url: string;
+  title?: string;
+  date?: string;
+  author?: string;
+  contentHtml?: string;
+  discoveredVia: 'feed' | 'sitemap';
+}
+
+interface BlogArticle {
+  title?: string;
+  content: string;
+  date?: string;
+  author?: string;
+  language?: string;
+  // 从页面提取时的提取方式和可信度
+  extraction?: ReturnType<typeof extractionMetadata>;
+}
+
+// 断点续爬检查点
+interface BlogCheckpoint extends Record<string, unknown> {
+  sites: BlogSite[];
+  siteIndex: number;
+  processedUrls: string[];
+  totalFetched: number;
+}
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; CelebrityCrawler/1.0)';
+
+// 没有在首页声明订阅源时尝试的常见路径
+const FEED_PATHS = ['/feed', '/rss.xml', '/atom.xml', '/feed.xml', '/index.xml', '/rss'];
+
+// 不是文章的页面（标签、分类、分页、作者页等）
+const NON_POST_PATTERN =
+  /\/(tag|tags|category|categories|page|author|authors|archive|about|search|feed|rss)(\/|$)|\.(xml|json|jpg|jpeg|png|gif|webp|pdf|css|js)$/i;
+
+// 订阅源正文超过该长度（纯文本）时视为全文，不再抓取页面
+const FULL_CONTENT_MIN_LENGTH = 500;
+
+// 常见博客平台的正文容器（Substack、Medium、Ghost），其余由通用提取器处理
+const BLOG_CONTENT_SELECTORS = ['.available-content', '.body.markup', '.gh-content'];
+
+export class BlogCrawler extends BaseCrawler {
+  source: DataSource = 'blog';
+
+  validateConfig(config: CrawlerConfig): boolean {
+    return blogSettingsSchema.safeParse(config.settings ?? {}).success;
+  }
+
+  async *crawl(
+    celebrity: Celebrity,
+    config?: CrawlerConfig,
+    signal?: AbortSignal
+  ): AsyncGenerator<ContentItem> {
+    this.signal = signal;
+    const settings = blogSettingsSchema.parse(config?.settings ?? {});
+    const maxItems = config?.maxItems || 50;
+    const checkpoint = this.restoreCheckpoint<BlogCheckpoint>(config);
+    let totalFetched = checkpoint.totalFetched || 0;
+    const processedUrls = new Set<string>(checkpoint.processedUrls || []);
+
+    const sites = checkpoint.sites || this.resolveSites(celebrity, settings);
+    this.saveCheckpoint({ sites });
+    if (sites.length === 0) {
+      console.warn(`没有 ${celebrity.name} 的博客站点，请在 options.blog.settings.sites 或名人资料的官方网站中配置`);
+      return;
+    }
+
+    for (let siteIndex = checkpoint.siteIndex || 0; siteIndex < sites.length; siteIndex++) {
+      if (totalFetched >= maxItems) break;
+      const site = sites[siteIndex];
+
+      try {
+        const { posts, feedTitle, feedAuthor, feedLanguage } = await this.collectPosts(
+          site,
+          settings,
+          config
+        );
+
+        // 猜测的站点只有作者是本人时才采用
+        if (!site.verified && !this.isAuthor(feedAuthor, celebrity)) {
+          console.warn(`博客站点作者与 ${celebrity.name} 不一致，已跳过: ${site.url}`);
+          continue;
+        }
+
+        for (const post of posts) {
+          if (totalFetched >= maxItems) break;
+          if (processedUrls.has(post.url)) continue;
+          if (post.discoveredVia === 'feed' && !this.isInDateRange(post.date, config)) continue;
+
+          const article = await this.resolveArticle(post);
+          if (!article) continue;
+          const date = article.date || post.date;
+          if (!this.isInDateRange(date, config)) continue;
+
+          const author = post.author || article.author || feedAuthor;
+          // 平台上其他作者的文章（如 Medium 出版物的投稿）不算本人博客
+          const isOwnBlog = !author || this.isAuthor(author, celebrity);
+
+          processedUrls.add(post.url);
+          totalFetched++;
+          this.saveCheckpoint({
+            siteIndex,
+            processedUrls: Array.from(processedUrls),
+            totalFetched,
+          });
+
+          yield this.createContentItem({
+            type: 'blog_post',
+            priority: isOwnBlog ? 1 : 5,
+            weight: isOwnBlog ? 1.0 : 0.3,
+            title: article.title || post.title,
+            content: article.content,
+            sourceUrl: post.url,
+            date: date ? new Date(date) : undefined,
+            author: author || celebrity.name,
+            language: (article.language || feedLanguage)?.split('-')[0].toLowerCase() || 'en',
+            metadata: {
+              isOwnBlog,
+              site: site.url,
+              siteTitle: feedTitle,
+              platform: site.platform,
+              discoveredVia: post.discoveredVia,
+              extraction: article.extraction,
+            },
+          });
+
+          await this.delay(300);
+        }
+      } catch (error) {
+        console.error(`博客爬取失败 (${site.url}):`, error);
+      }
+
+      await this.delay(500);
+    }
+  }
+
+  private resolveSites(celebrity: Celebrity, settings: BlogSettings): BlogSite[] {
+    // 名人资料中已验证的官方网站也视为本人站点
+    const website = celebrity.identifiers?.website;
+    const urls = Array.from(new Set([...settings.sites, ...(website ? [website] : [])]));
+    const sites = urls.map((url) => ({
+      url,
+      platform: this.detectPlatform(url),
+      verified: true,
+    }));
+    if (sites.length > 0 || !settings.guessSites) return sites;
+
+    const slugs = new Set(
+      [celebrity.name, ...celebrity.aliases.slice(0, 2)]
+        .map((name) => name.toLowerCase().replace(/[^a-z0-9]/g, ''))
+        .filter((slug) => slug.length >= 3)
+    );
+    const guessed: BlogSite[] = [];
+    slugs.forEach((slug) => {
+      guessed.push({ url: `https://${slug}.substack.com`, platform: 'substack', verified: false });
+      guessed.push({ url: `https://medium.com/@${slug}`, platform: 'medium', verified: false });
+    });
+    return guessed;
+  }
+
+  private detectPlatform(url: string): BlogPlatform {
+    const host = new URL(url).hostname;
+    if (host.endsWith('substack.com')) return 'substack';
+    if (host === 'medium.com' || host.endsWith('.medium.com')) return 'medium';
+    return 'personal';
+  }
+
+  /**
+   * 收集站点的文章：先读订阅源，再用 sitemap.xml 补充订阅源中没有的文章
+   */
+  private async collectPosts(
+    site: BlogSite,
+    settings: BlogSettings,
+    config?: CrawlerConfig
+  ): Promise<{
+    posts: BlogPost[];
+    feedTitle?: string;
+    feedAuthor?: string;
+    feedLanguage?: string;
+  }> {
+    const posts = new Map<string, BlogPost>();
+    const feed = await this.fetchFeed(site);
+
+    for (const entry of feed?.entries || []) {
+      if (!entry.link) continue;
+      posts.set(entry.link, {
+        url: entry.link,
+        title: entry.title,
+        date: entry.date,
+        author: entry.author,
+        contentHtml: entry.contentHtml,
+        discoveredVia: 'feed',
+      });
+    }
+
+    // Medium 没有可用的 sitemap，订阅源只有最近 10 篇
+    if (settings.includeSitemap && site.platform !== 'medium') {
+      const origin = new URL(site.url).origin;
+      for (const entry of await this.fetchSitemap(`${origin}/sitemap.xml`, settings.maxSitemapUrls)) {
+        if (posts.has(entry.url) || !this.isPostUrl(entry.url, origin)) continue;
+        // lastmod 不早于发布时间，lastmod 早于开始日期的文章一定不在范围内
+        if (entry.lastmod && config?.startDate && new Date(entry.lastmod) < config.startDate) continue;
+        posts.set(entry.url, { url: entry.url, discoveredVia: 'sitemap' });
+      }
+    }
+
+    return {
+      posts: Array.from(posts.values()),
+      feedTitle: feed?.title,
+      feedAuthor: feed?.author || feed?.entries.find((entry) => entry.author)?.author,
+      feedLanguage: feed?.language,
+    };
+  }
+
+  // 查找站点的订阅源：地址本身、平台约定地址、首页声明的 alternate 链接、常见路径
+  private async fetchFeed(site: BlogSite) {
+    const url = new URL(site.url);
+    const candidates: string[] = [site.url];
+
+    if (site.platform === 'substack') {
+      candidates.push(`${url.origin}/feed`);
+    } else if (site.platform === 'medium') {
+      const handle = url.pathname.split('/').find((part) => part.startsWith('@'));
+      candidates.push(handle ? `${url.origin}/feed/${handle}` : `${url.origin}/feed`);
+    }
+
+    for (const candidate of candidates) {
+      const text = await this.fetchText(candidate);
+      if (!text) continue;
+      const feed = parseFeed(text);
+      if (feed) return feed;
+
+      // 首页 HTML：读取声明的订阅源
+      if (candidate === site.url) {
+        const $ = cheerio.load(text);
+        $('link[rel="alternate"]').each((_, element) => {
+          const type = $(element).attr('type') || '';
+          const href = $(element).attr('href');
+          if (href && /rss|atom/.test(type)) {
+            candidates.push(new URL(href, site.url).href);
+          }
+        });
+        if (candidates.length === 1) {
+          candidates.push(...FEED_PATHS.map((path) => `${url.origin}${path}`));
+        }
+      }
+    }
+    return null;
+  }
+
+  // 读取 sitemap（支持 sitemap 索引，只展开一层）
+  private async fetchSitemap(
+    sitemapUrl: string,
+    limit: number,
+    depth = 0
+  ): Promise<{ url: string; lastmod?: string }[]> {
+    const text = await this.fetchText(sitemapUrl);
+    if (!text) return [];
+
+    const $ = cheerio.load(text, { xmlMode: true });
+    const entries: { url: string; lastmod?: string }[] = [];
+
+    if (depth === 0) {
+      const children = $('sitemapindex > sitemap > loc')
+        .toArray()
+        .map((element) => $(element).text().trim())
+        // 优先读取文章相关的子 sitemap
+        .sort((a, b) => Number(/post|article|blog/.test(b)) - Number(/post|article|blog/.test(a)));
+      for (const child of children) {
+        if (entries.length >= limit) break;
+        entries.push(...(await this.fetchSitemap(child, limit - entries.length, depth + 1)));
+      }
+    }
+
+    $('urlset > url').each((_, element) => {
+      if (entries.length >= limit) return false;
+      const loc = $(element).children('loc').text().trim();
+      if (loc) {
+        entries.push({ url: loc, lastmod: $(element).children('lastmod').text().trim() || undefined });
+      }
+    });
+
+    return entries;
+  }
+
+  private isPostUrl(url: string, origin: string): boolean {
+    try {
+      const parsed = new URL(url);
+      return (
+        parsed.origin === origin &&
+        parsed.pathname.replace(/\/$/, '').length > 1 &&
+        !NON_POST_PATTERN.test(parsed.pathname)
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  // 订阅源中有全文时直接使用，否则抓取页面提取正文
+  private async resolveArticle(post: BlogPost): Promise<BlogArticle | null> {
+    if (post.contentHtml) {
+      const content = htmlToText(post.contentHtml);
+      if (content.length >= FULL_CONTENT_MIN_LENGTH) {
+        return { title: post.title, content, date: post.date };
+      }
+    }
+
+    const html = await this.fetchText(post.url);
+    const article = html ? extractArticle(html, { selectors: BLOG_CONTENT_SELECTORS }) : null;
+    if (article) {
+      return {
+        title: article.title,
+        content: article.content,
+        date: article.date,
+        author: article.byline,
+        language: article.language,
+        extraction: extractionMetadata(article),
+      };
+    }
+
+    // 页面无法提取时回退到订阅源中的摘要
+    if (post.contentHtml) {
+      return { title: post.title, content: htmlToText(post.contentHtml), date: post.date };
+    }
+    return null;
+  }
+
+  private async fetchText(url: string): Promise<string | null> {
+    try {
+      const response = await http.get(url, {
+        signal: this.signal,
+        responseType: 'text',
+        headers: { 'User-Agent': USER_AGENT },
+        timeout: 10000,
+      });
+      return typeof response.data === 'string' ? response.data : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private isAuthor(author: string | undefined, celebrity: Celebrity): boolean {
+    if (!author) return false;
+    const lower = author.toLowerCase();
+    return [celebrity.name, ...celebrity.aliases].some(
+      (name) => name.trim().length > 0 && lower.includes(name.toLowerCase())
+    );
+  }
+}
@@ -1,6 +1,7 @@
-import axios from 'axios';
 import { Celebrity, ContentItem, CrawlerConfig, DataSource } from '@/types';
 import { BaseCrawler } from './base';
+import http from './http';
+import { buildSearchTerms } from './options';
 
 interface BookInfo {
   id: string;
@@ -12,6 +13,17 @@ interface BookInfo {
   infoLink?: string;
   categories?: string[];
   pageCount?: number;
+  // Open Library 作者 key
+  authorKeys?: string[];
+}
+
+// 断点续爬检查点
+interface BookCheckpoint extends Record<string, unknown> {
+  // 已验证作者的作品是否已爬取
+  authorWorksDone: boolean;
+  termIndex: number;
+  processedIds: string[];
+  totalFetched: number;
 }
 
 export class BookCrawler extends BaseCrawler {
@@ -27,32 +39,80 @@ export class BookCrawler extends BaseCrawler {
 
   async *crawl(
     celebrity: Celebrity,
-    config?: CrawlerConfig
+    config?: CrawlerConfig,
+    signal?: AbortSignal
   ): AsyncGenerator<ContentItem> {
+    this.signal = signal;
     const maxItems = config?.maxItems || 20;
-    let totalFetched = 0;
-    const processedIds = new Set<string>();
+    const checkpoint = this.restoreCheckpoint<BookCheckpoint>(config);
+    let totalFetched = checkpoint.totalFetched || 0;
+    const processedIds = new Set<string>(checkpoint.processedIds || []);
 
     // 搜索关键词
-    const searchTerms = [
+    const searchTerms = buildSearchTerms(celebrity, config, [
       `${celebrity.name} biography`,
       `${celebrity.name} autobiography`,
       `"${celebrity.name}"`,
       `by ${celebrity.name}`,
-    ];
+    ]);
+
+    // 有已验证的 Open Library 作者 key 时，先爬取本人的全部作品
+    const authorKey = celebrity.identifiers?.openLibraryAuthorKey;
+    if (authorKey && !checkpoint.authorWorksDone) {
+      try {
+        for (const book of await this.getAuthorWorks(authorKey)) {
+          if (processedIds.has(book.id)) continue;
+          if (totalFetched >= maxItems) break;
+          if (!this.isInDateRange(book.publishedDate, config)) continue;
+
+          processedIds.add(book.id);
+          totalFetched++;
+          this.saveCheckpoint({ processedIds: Array.from(processedIds), totalFetched });
+
+          yield this.createContentItem({
+            type: 'autobiography',
+            priority: 2,
+            weight: 0.8,
+            title: book.title,
+            content: book.description || `书籍: ${book.title}`,
+            sourceUrl: book.infoLink,
+            date: book.publishedDate ? new Date(book.publishedDate) : undefined,
+            author: celebrity.name,
+            metadata: {
+              source: 'OpenLibrary',
+              bookId: book.id,
+              authorKey,
+              isSelfAuthored: true,
+              isBiography: false,
+            },
+          });
+        }
+      } catch (error) {
+        console.error(`Open Library 作者作品获取失败 (${authorKey}):`, error);
+      }
+      this.saveCheckpoint({ authorWorksDone: true });
+    }
 
-    for (const term of searchTerms) {
+    for (let termIndex = checkpoint.termIndex || 0; termIndex < searchTerms.length; termIndex++) {
+      const term = searchTerms[termIndex];
       if (totalFetched >= maxItems) break;
 
       try {
         // 使用 Google Books API
-        const books = await this.searchGoogleBooks(term);
+        const books = await this.searchGoogleBooks(term, config?.languages?.[0]);
 
         for (const book of books) {
           if (processedIds.has(book.id)) continue;
           if (totalFetched >= maxItems) break;
+          if (!this.isInDateRange(book.publishedDate, config)) continue;
 
           processedIds.add(book.id);
+          totalFetched++;
+          this.saveCheckpoint({
+            termIndex,
+            processedIds: Array.from(processedIds),
+            totalFetched,
+          });
 
           // 判断是否是名人本人写的书
           const isSelfAuthored = this.isSelfAuthored(book, celebrity);
@@ -96,8 +156,6 @@ export class BookCrawler extends BaseCrawler {
               isBiography,
             },
           });
-
-          totalFetched++;
         }
       } catch (error) {
         console.error(`书籍搜索失败 (${term}):`, error);
@@ -114,8 +172,15 @@ export class BookCrawler extends BaseCrawler {
         for (const book of olBooks) {
           if (processedIds.has(book.id)) continue;
           if (totalFetched >= maxItems) break;
+          if (!this.isInDateRange(book.publishedDate, config)) continue;
 
           processedIds.add(book.id);
+          totalFetched++;
+          this.saveCheckpoint({
+            termIndex: searchTerms.length,
+            processedIds: Array.from(processedIds),
+            totalFetched,
+          });
 
           yield this.createContentItem({
             type: 'biography',
@@ -131,8 +196,6 @@ export class BookCrawler extends BaseCrawler {
               authors: book.authors,
             },
           });
-
-          totalFetched++;
         }
       } catch (error) {
         console.error('Open Library 搜索失败:', error);
@@ -140,14 +203,15 @@ export class BookCrawler extends BaseCrawler {
     }
   }
 
-  private async searchGoogleBooks(query: string): Promise<BookInfo[]> {
+  private async searchGoogleBooks(query: string, language: string = 'en'): Promise<BookInfo[]> {
     try {
-      const response = await axios.get(this.googleBooksUrl, {
+      const response = await http.get(this.googleBooksUrl, {
+        signal: this.signal,
         params: {
           q: query,
           maxResults: 10,
           printType: 'books',
-          langRestrict: 'en',
+          langRestrict: language,
         },
       });
 
@@ -184,9 +248,10 @@ export class BookCrawler extends BaseCrawler {
 
   private async searchOpenLibrary(query: string): Promise<BookInfo[]> {
     try {
-      const response = await axios.get(
+      const response = await http.get(
         `${this.openLibraryUrl}/search.json`,
         {
+          signal: this.signal,
           params: {
             q: query,
             limit: 10,
@@ -201,10 +266,12 @@ export class BookCrawler extends BaseCrawler {
           author_name?: string[];
           first_sentence?: string[];
           first_publish_year?: number;
+          author_key?: string[];
         }) => ({
           id: doc.key,
           title: doc.title,
           authors: doc.author_name || [],
+          authorKeys: doc.author_key || [],
           description: doc.first_sentence?.[0],
           publishedDate: doc.first_publish_year?.toString(),
           infoLink: `${this.openLibraryUrl}${doc.key}`,
@@ -216,7 +283,40 @@ export class BookCrawler extends BaseCrawler {
     }
   }
 
+  /**
+   * 获取 Open Library 作者的作品列表
+   */
+  private async getAuthorWorks(authorKey: string): Promise<BookInfo[]> {
+    const response = await http.get(`${this.openLibraryUrl}/authors/${authorKey}/works.json`, {
+      signal: this.signal,
+      params: { limit: 50 },
+    });
+
+    return (response.data.entries || []).map(
+      (work: {
+        key: string;
+        title: string;
+        description?: string | { value: string };
+        first_publish_date?: string;
+      }) => ({
+        id: work.key,
+        title: work.title,
+        authors: [],
+        description: typeof work.description === 'string' ? work.description : work.description?.value,
+        publishedDate: work.first_publish_date,
+        infoLink: `${this.openLibraryUrl}${work.key}`,
+        authorKeys: [authorKey],
+      })
+    );
+  }
+
   private isSelfAuthored(book: BookInfo, celebrity: Celebrity): boolean {
+    // 有已验证的作者 key 时按 key 精确判断
+    const authorKey = celebrity.identifiers?.openLibraryAuthorKey;
+    if (authorKey && book.authorKeys && book.authorKeys.length > 0) {
+      return book.authorKeys.some((key) => key.endsWith(authorKey));
+    }
+
     if (!book.authors || book.authors.length === 0) return false;
 
     const celebrityNames = [
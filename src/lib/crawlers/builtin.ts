@@ -0,0 +1,117 @@
+/**
+ * 内置爬虫插件
+ */
+
+import { CrawlerPlugin } from './registry';
+import { WikipediaCrawler, wikipediaSettingsSchema } from './wikipedia';
+import { TwitterCrawler } from './twitter';
+import { TwitterPublicCrawler } from './twitter-public';
+import { YouTubeCrawler } from './youtube';
+import { YouTubePublicCrawler } from './youtube-public';
+import { NewsCrawler } from './news';
+import { BookCrawler } from './book';
+import { PodcastCrawler, podcastSettingsSchema } from './podcast';
+import { BlogCrawler, blogSettingsSchema } from './blog';
+
+export const builtinCrawlers: CrawlerPlugin[] = [
+  {
+    source: 'wikipedia',
+    name: 'Wikipedia',
+    description: '维基百科基本信息',
+    capabilities: {
+      needsKey: false,
+      supportsDateFilter: false,
+      supportsResume: true,
+      supportsLanguages: true,
+    },
+    settingsSchema: wikipediaSettingsSchema,
+    defaults: { priority: 4, weight: 0.5 },
+    create: () => new WikipediaCrawler(),
+  },
+  {
+    source: 'twitter',
+    name: 'X (Twitter)',
+    description: '社交媒体发言、转推和回复',
+    apiKeyName: 'TWITTER_BEARER_TOKEN',
+    capabilities: {
+      needsKey: false,
+      supportsDateFilter: true,
+      supportsResume: true,
+    },
+    defaults: { priority: 1, weight: 1.0 },
+    // 有 API Key 用 API 爬虫，否则用公开爬虫
+    create: ({ hasApiKey }) => (hasApiKey ? new TwitterCrawler() : new TwitterPublicCrawler()),
+  },
+  {
+    source: 'youtube',
+    name: 'YouTube',
+    description: '采访视频、演讲的字幕和文字稿',
+    apiKeyName: 'YOUTUBE_API_KEY',
+    capabilities: {
+      needsKey: false,
+      supportsDateFilter: true,
+      supportsResume: true,
+      supportsLanguages: true,
+      supportsQueryTemplates: true,
+    },
+    defaults: { priority: 1, weight: 1.0 },
+    create: ({ hasApiKey }) => (hasApiKey ? new YouTubeCrawler() : new YouTubePublicCrawler()),
+  },
+  {
+    source: 'news',
+    name: '新闻聚合',
+    description: '各大新闻媒体的报道文章',
+    apiKeyName: 'GOOGLE_SEARCH_API_KEY',
+    capabilities: {
+      needsKey: false,
+      supportsDateFilter: true,
+      supportsResume: true,
+      supportsQueryTemplates: true,
+    },
+    defaults: { priority: 3, weight: 0.6 },
+    // NewsCrawler 同时支持 API 和无 Key 模式
+    create: () => new NewsCrawler(),
+  },
+  {
+    source: 'book',
+    name: '书籍/传记',
+    description: '相关书籍和传记内容摘要',
+    capabilities: {
+      needsKey: false,
+      supportsDateFilter: true,
+      supportsResume: true,
+      supportsLanguages: true,
+      supportsQueryTemplates: true,
+    },
+    defaults: { priority: 3, weight: 0.6 },
+    create: () => new BookCrawler(),
+  },
+  {
+    source: 'podcast',
+    name: '播客',
+    description: '本人主持或作为嘉宾出镜的播客单集、节目简介和文字稿',
+    capabilities: {
+      needsKey: false,
+      supportsDateFilter: true,
+      supportsResume: true,
+      supportsLanguages: true,
+      supportsQueryTemplates: true,
+    },
+    settingsSchema: podcastSettingsSchema,
+    defaults: { priority: 1, weight: 1.0 },
+    create: () => new PodcastCrawler(),
+  },
+  {
+    source: 'blog',
+    name: '博客/个人网站',
+    description: '本人在 Substack、Medium 或个人网站发表的文章',
+    capabilities: {
+      needsKey: false,
+      supportsDateFilter: true,
+      supportsResume: true,
+    },
+    settingsSchema: blogSettingsSchema,
+    defaults: { priority: 1, weight: 1.0 },
+    create: () => new BlogCrawler(),
+  },
+];
@@ -0,0 +1,162 @@
+/**
+ * RSS / Atom 订阅源解析
+ * 播客和博客爬虫共用，extend 回调用于读取各自关心的扩展标签（如 podcast:transcript）
+ */
+
+import * as cheerio from 'cheerio';
+
+export type FeedNode = ReturnType<cheerio.CheerioAPI>;
+
+export interface FeedEntry {
+  guid: string;
+  title: string;
+  link?: string;
+  date?: string;
+  author?: string;
+  // 摘要（纯文本）
+  summary?: string;
+  // 正文 HTML（content:encoded 或 Atom content）
+  contentHtml?: string;
+  categories: string[];
+  enclosure?: { url: string; type?: string; length?: number };
+}
+
+export interface ParsedFeed<T = Record<string, never>> {
+  title: string;
+  link?: string;
+  description?: string;
+  author?: string;
+  language?: string;
+  entries: (FeedEntry & T)[];
+}
+
+// 命名空间标签需要转义冒号才能作为选择器
+function tag(name: string): string {
+  return name.replace(/:/g, '\\:');
+}
+
+function childText(node: FeedNode, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const text = node.children(tag(name)).first().text().trim();
+    if (text) return text;
+  }
+  return undefined;
+}
+
+// HTML 转为纯文本，保留段落换行
+export function htmlToText(html: string): string {
+  const $ = cheerio.load(html);
+  $('script, style').remove();
+  $('br').replaceWith('\n');
+  $('p, div, li, h1, h2, h3, h4, h5, h6, blockquote').each((_, element) => {
+    $(element).append('\n');
+  });
+  return $.root()
+    .text()
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n\n')
+    .trim();
+}
+
+/**
+ * 解析 RSS 2.0 或 Atom 订阅源，无法识别时返回 null
+ */
+export function parseFeed<T = Record<string, never>>(
+  xml: string,
+  extend?: (entry: FeedNode, $: cheerio.CheerioAPI) => T
+): ParsedFeed<T> | null {
+  const $ = cheerio.load(xml, { xmlMode: true });
+
+  const channel = $('rss > channel, rdf\\:RDF > channel').first();
+  if (channel.length > 0) {
+    const items = channel.children('item').length > 0 ? channel.children('item') : $('item');
+    return {
+      title: childText(channel, 'title') || '',
+      link: childText(channel, 'link'),
+      description: childText(channel, 'description', 'itunes:summary'),
+      author: childText(channel, 'itunes:author', 'managingEditor', 'dc:creator'),
+      language: childText(channel, 'language', 'dc:language'),
+      entries: items.toArray().map((element) => {
+        const item = $(element);
+        const link = childText(item, 'link');
+        const title = childText(item, 'title') || '';
+        const description = childText(item, 'description', 'itunes:summary');
+        const enclosure = item.children('enclosure').first();
+
+        return {
+          guid: childText(item, 'guid') || link || title,
+          title,
+          link,
+          date: childText(item, 'pubDate', 'dc:date'),
+          author: childText(item, 'itunes:author', 'dc:creator', 'author'),
+          summary: description ? htmlToText(description) : undefined,
+          contentHtml: childText(item, 'content:encoded') || description,
+          categories: item
+            .children('category')
+            .toArray()
+            .map((category) => $(category).text().trim())
+            .filter(Boolean),
+          enclosure: enclosure.attr('url')
+            ? {
+                url: enclosure.attr('url') as string,
+                type: enclosure.attr('type'),
+                length: Number(enclosure.attr('length')) || undefined,
+              }
+            : undefined,
+          ...(extend ? extend(item, $) : ({} as T)),
+        };
+      }),
+    };
+  }
+
+  const feed = $('feed').first();
+  if (feed.length > 0) {
+    // Atom 的 link 是属性，优先取 rel="alternate"
+    const linkOf = (node: FeedNode, rel = 'alternate') =>
+      node.children(`link[rel="${rel}"]`).first().attr('href') ||
+      (rel === 'alternate' ? node.children('link:not([rel])').first().attr('href') : undefined);
+
+    return {
+      title: childText(feed, 'title') || '',
+      link: linkOf(feed),
+      description: childText(feed, 'subtitle'),
+      author: feed.children('author').first().children('name').text().trim() || undefined,
+      language: feed.attr('xml:lang'),
+      entries: feed
+        .children('entry')
+        .toArray()
+        .map((element) => {
+          const entry = $(element);
+          const link = linkOf(entry);
+          const title = childText(entry, 'title') || '';
+          const summary = childText(entry, 'summary');
+          const enclosure = entry.children('link[rel="enclosure"]').first();
+
+          return {
+            guid: childText(entry, 'id') || link || title,
+            title,
+            link,
+            date: childText(entry, 'published', 'updated'),
+            author: entry.children('author').first().children('name').text().trim() || undefined,
+            summary: summary ? htmlToText(summary) : undefined,
+            contentHtml: childText(entry, 'content') || summary,
+            categories: entry
+              .children('category')
+              .toArray()
+              .map((category) => $(category).attr('term') || '')
+              .filter(Boolean),
+            enclosure: enclosure.attr('href')
+              ? {
+                  url: enclosure.attr('href') as string,
+                  type: enclosure.attr('type'),
+                  length: Number(enclosure.attr('length')) || undefined,
+                }
+              : undefined,
+            ...(extend ? extend(entry, $) : ({} as T)),
+          };
+        }),
+    };
+  }
+
+  return null;
+}
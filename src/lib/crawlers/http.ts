@@ -0,0 +1,41 @@
+/**
+ * 爬虫共享的 HTTP 客户端
+ * 所有请求经过按域名的并发限制，保证多数据源并行时不会压垮同一站点
+ */
+
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { hostLimiter } from '@/lib/utils/hostLimiter';
+
+declare module 'axios' {
+  interface InternalAxiosRequestConfig {
+    releaseHostSlot?: () => void;
+  }
+}
+
+const http = axios.create();
+
+http.interceptors.request.use(async (config: InternalAxiosRequestConfig) => {
+  let host: string;
+  try {
+    host = new URL(axios.getUri(config)).host;
+  } catch {
+    // 无法解析域名时不做限制
+    return config;
+  }
+  // 排队等待槽位时任务被取消，直接以取消原因失败
+  config.releaseHostSlot = await hostLimiter.acquire(host, config.signal as AbortSignal | undefined);
+  return config;
+});
+
+http.interceptors.response.use(
+  (response: AxiosResponse) => {
+    response.config.releaseHostSlot?.();
+    return response;
+  },
+  (error: AxiosError) => {
+    error.config?.releaseHostSlot?.();
+    return Promise.reject(error);
+  }
+);
+
+export default http;
@@ -6,26 +6,13 @@ import { YouTubeCrawler } from './youtube';
 import { YouTubePublicCrawler } from './youtube-public';
 import { NewsCrawler } from './news';
 import { BookCrawler } from './book';
+import { PodcastCrawler } from './podcast';
+import { BlogCrawler } from './blog';
+import { builtinCrawlers } from './builtin';
+import { getCrawlerPlugin, listCrawlerPlugins, registerCrawler } from './registry';
 
-// API 爬虫注册表（需要 API Key）
-const apiCrawlerRegistry: Record<DataSource, new () => ICrawler> = {
-  wikipedia: WikipediaCrawler,
-  twitter: TwitterCrawler,
-  youtube: YouTubeCrawler,
-  news: NewsCrawler,
-  book: BookCrawler,
-  podcast: NewsCrawler, // 暂时使用 NewsCrawler 作为占位
-  blog: NewsCrawler, // 暂时使用 NewsCrawler 作为占位
-};
-
-// 公开爬虫注册表（无需 API Key）
-const publicCrawlerRegistry: Partial<Record<DataSource, new () => ICrawler>> = {
-  wikipedia: WikipediaCrawler,
-  twitter: TwitterPublicCrawler,
-  youtube: YouTubePublicCrawler,
-  news: NewsCrawler, // NewsCrawler 已支持无 Key 模式
-  book: BookCrawler,
-};
+// 注册内置爬虫，插件爬虫由 ensureCrawlerPluginsLoaded 从插件目录加载
+builtinCrawlers.forEach(registerCrawler);
 
 /**
  * 获取爬虫实例
@@ -33,45 +20,63 @@ const publicCrawlerRegistry: Partial<Record<DataSource, new () => ICrawler>> = {
  * @param hasApiKey 是否有 API Key，决定使用 API 爬虫还是公开爬虫
  */
 export function getCrawler(source: DataSource, hasApiKey: boolean = false): ICrawler {
-  // 如果有 API Key，优先使用 API 爬虫
-  if (hasApiKey) {
-    const CrawlerClass = apiCrawlerRegistry[source];
-    if (CrawlerClass) {
-      return new CrawlerClass();
-    }
-  }
-
-  // 否则使用公开爬虫
-  const PublicCrawlerClass = publicCrawlerRegistry[source];
-  if (PublicCrawlerClass) {
-    return new PublicCrawlerClass();
+  const plugin = getCrawlerPlugin(source);
+  if (!plugin) {
+    throw new Error(`不支持的数据源: ${source}`);
   }
 
-  // 回退到 API 爬虫
-  const FallbackClass = apiCrawlerRegistry[source];
-  if (!FallbackClass) {
-    throw new Error(`不支持的数据源: ${source}`);
+  const crawler = plugin.create({ hasApiKey });
+  if (plugin.defaults) {
+    crawler.setDefaults?.(plugin.defaults);
   }
-  return new FallbackClass();
+  return crawler;
 }
 
 // 获取所有支持的数据源
 export function getSupportedSources(): DataSource[] {
-  return Object.keys(apiCrawlerRegistry) as DataSource[];
+  return listCrawlerPlugins().map((plugin) => plugin.source);
+}
+
+export function isSupportedSource(source: string): boolean {
+  return getCrawlerPlugin(source) !== undefined;
 }
 
 // 检查数据源是否支持公开爬取（无需 API Key）
 export function supportsPublicCrawling(source: DataSource): boolean {
-  return source in publicCrawlerRegistry;
+  const plugin = getCrawlerPlugin(source);
+  return !!plugin && !plugin.capabilities.needsKey;
+}
+
+/**
+ * 获取数据源对应的 API Key
+ * @param apiKeys 用户配置的 Key；定时任务等没有用户参与的场景传入 process.env
+ */
+export function getApiKeyForSource(
+  source: DataSource,
+  apiKeys: Record<string, string | undefined>
+): string | undefined {
+  const keyName = getCrawlerPlugin(source)?.apiKeyName;
+  return keyName ? apiKeys[keyName] : undefined;
 }
 
 // 检查数据源是否需要 API Key（现在大多数都不需要了）
 export function requiresApiKey(source: DataSource): boolean {
-  // 只有 podcast 目前还需要 API Key
-  const sourcesRequiringKey: DataSource[] = ['podcast'];
-  return sourcesRequiringKey.includes(source);
+  return getCrawlerPlugin(source)?.capabilities.needsKey ?? false;
 }
 
+export {
+  registerCrawler,
+  getCrawlerPlugin,
+  listCrawlerPlugins,
+  loadCrawlerPlugins,
+  ensureCrawlerPluginsLoaded,
+} from './registry';
+export type {
+  CrawlerPlugin,
+  CrawlerCapabilities,
+  CrawlerPluginContext,
+} from './registry';
+
 export {
   WikipediaCrawler,
   TwitterCrawler,
@@ -80,4 +85,6 @@ export {
   YouTubePublicCrawler,
   NewsCrawler,
   BookCrawler,
+  PodcastCrawler,
+  BlogCrawler,
 };
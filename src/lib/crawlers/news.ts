@@ -1,7 +1,9 @@
-import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { Celebrity, ContentItem, CrawlerConfig, DataSource } from '@/types';
+import { extractArticle, extractionMetadata, ExtractedArticle } from './article-extractor';
 import { BaseCrawler } from './base';
+import http from './http';
+import { buildSearchTerms } from './options';
 
 interface NewsArticle {
   title: string;
@@ -11,6 +13,13 @@ interface NewsArticle {
   date?: string;
 }
 
+// 断点续爬检查点
+interface NewsCheckpoint extends Record<string, unknown> {
+  termIndex: number;
+  processedUrls: string[];
+  totalFetched: number;
+}
+
 export class NewsCrawler extends BaseCrawler {
   source: DataSource = 'news';
 
@@ -25,20 +34,24 @@ export class NewsCrawler extends BaseCrawler {
 
   async *crawl(
     celebrity: Celebrity,
-    config?: CrawlerConfig
+    config?: CrawlerConfig,
+    signal?: AbortSignal
   ): AsyncGenerator<ContentItem> {
+    this.signal = signal;
     this.apiKey = config?.apiKey || '';
 
-    const searchTerms = [
+    const searchTerms = buildSearchTerms(celebrity, config, [
       celebrity.name,
       ...celebrity.aliases.slice(0, 2), // 只用前两个别名
-    ];
+    ]);
 
     const maxItems = config?.maxItems || 30;
-    let totalFetched = 0;
-    const processedUrls = new Set<string>();
+    const checkpoint = this.restoreCheckpoint<NewsCheckpoint>(config);
+    let totalFetched = checkpoint.totalFetched || 0;
+    const processedUrls = new Set<string>(checkpoint.processedUrls || []);
 
-    for (const searchTerm of searchTerms) {
+    for (let termIndex = checkpoint.termIndex || 0; termIndex < searchTerms.length; termIndex++) {
+      const searchTerm = searchTerms[termIndex];
       if (totalFetched >= maxItems) break;
 
       try {
@@ -46,7 +59,7 @@ export class NewsCrawler extends BaseCrawler {
 
         if (this.apiKey) {
           // 使用 Google Custom Search API
-          articles = await this.searchWithGoogleApi(searchTerm);
+          articles = await this.searchWithGoogleApi(searchTerm, config);
         } else {
           // 使用免费的新闻源
           articles = await this.searchFreeNews(searchTerm);
@@ -55,28 +68,38 @@ export class NewsCrawler extends BaseCrawler {
         for (const article of articles) {
           if (processedUrls.has(article.link)) continue;
           if (totalFetched >= maxItems) break;
+          if (!this.isInDateRange(article.date, config)) continue;
 
           processedUrls.add(article.link);
 
           // 尝试获取文章全文
-          const fullContent = await this.fetchArticleContent(article.link);
+          const fullArticle = await this.fetchArticleContent(article.link);
+          const date = article.date || fullArticle?.date;
+
+          totalFetched++;
+          this.saveCheckpoint({
+            termIndex,
+            processedUrls: Array.from(processedUrls),
+            totalFetched,
+          });
 
           yield this.createContentItem({
             type: 'news',
             priority: 3,
             weight: 0.6,
             title: article.title,
-            content: fullContent || article.snippet,
+            content: fullArticle?.content || article.snippet,
             sourceUrl: article.link,
-            date: article.date ? new Date(article.date) : undefined,
-            author: article.source,
+            date: date ? new Date(date) : undefined,
+            author: fullArticle?.byline || article.source,
+            language: fullArticle?.language,
             metadata: {
               source: article.source,
-              isFullContent: !!fullContent,
+              isFullContent: !!fullArticle,
+              extraction: fullArticle ? extractionMetadata(fullArticle) : undefined,
             },
           });
 
-          totalFetched++;
           await this.delay(300);
         }
       } catch (error) {
@@ -87,15 +110,21 @@ export class NewsCrawler extends BaseCrawler {
     }
   }
 
-  private async searchWithGoogleApi(query: string): Promise<NewsArticle[]> {
+  private async searchWithGoogleApi(query: string, config?: CrawlerConfig): Promise<NewsArticle[]> {
+    // 增量更新时只搜索上次爬取之后的新闻，否则最近5年
+    const dateRestrict = config?.startDate
+      ? `d${Math.max(1, Math.ceil((Date.now() - config.startDate.getTime()) / 86400000))}`
+      : 'y5';
+
     try {
-      const response = await axios.get(this.googleSearchUrl, {
+      const response = await http.get(this.googleSearchUrl, {
+        signal: this.signal,
         params: {
           key: this.apiKey,
           cx: this.searchEngineId,
           q: `${query} news`,
           num: 10,
-          dateRestrict: 'y5', // 最近5年
+          dateRestrict,
           sort: 'date',
         },
       });
@@ -151,7 +180,8 @@ export class NewsCrawler extends BaseCrawler {
       const bingUrl = `https://www.bing.com/news/search?q=${encodeURIComponent(
         query
       )}&format=rss`;
-      const response = await axios.get(bingUrl, {
+      const response = await http.get(bingUrl, {
+        signal: this.signal,
         headers: {
           'User-Agent':
             'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
@@ -194,7 +224,8 @@ export class NewsCrawler extends BaseCrawler {
         query
       )}&hl=en-US&gl=US&ceid=US:en`;
 
-      const response = await axios.get(googleNewsUrl, {
+      const response = await http.get(googleNewsUrl, {
+        signal: this.signal,
         headers: {
           'User-Agent':
             'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
@@ -238,7 +269,8 @@ export class NewsCrawler extends BaseCrawler {
         query + ' news'
       )}`;
 
-      const response = await axios.get(ddgUrl, {
+      const response = await http.get(ddgUrl, {
+        signal: this.signal,
         headers: {
           'User-Agent':
             'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
@@ -292,7 +324,8 @@ export class NewsCrawler extends BaseCrawler {
         query
       )}&sort=relevance&limit=10`;
 
-      const response = await axios.get(redditUrl, {
+      const response = await http.get(redditUrl, {
+        signal: this.signal,
         headers: {
           'User-Agent': 'CelebrityCrawler/1.0',
         },
@@ -332,9 +365,11 @@ export class NewsCrawler extends BaseCrawler {
     return html.replace(/<[^>]*>/g, '').trim();
   }
 
-  private async fetchArticleContent(url: string): Promise<string | null> {
+  private async fetchArticleContent(url: string): Promise<ExtractedArticle | null> {
     try {
-      const response = await axios.get(url, {
+      const response = await http.get(url, {
+        signal: this.signal,
+        responseType: 'text',
         headers: {
           'User-Agent':
             'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
@@ -342,43 +377,8 @@ export class NewsCrawler extends BaseCrawler {
         timeout: 10000,
       });
 
-      const $ = cheerio.load(response.data);
-
-      // 移除不需要的元素
-      $('script, style, nav, footer, header, aside, .ads, .advertisement').remove();
-
-      // 尝试获取文章正文
-      // 常见的文章容器选择器
-      const selectors = [
-        'article',
-        '[role="main"]',
-        '.article-content',
-        '.post-content',
-        '.entry-content',
-        '.story-body',
-        'main',
-      ];
-
-      for (const selector of selectors) {
-        const content = $(selector).text().trim();
-        if (content && content.length > 200) {
-          // 清理文本
-          return content
-            .replace(/\s+/g, ' ')
-            .replace(/\n+/g, '\n')
-            .substring(0, 5000); // 限制长度
-        }
-      }
-
-      // 回退到获取所有段落
-      const paragraphs = $('p')
-        .map((_, el) => $(el).text().trim())
-        .get()
-        .filter((p) => p.length > 50)
-        .join('\n\n');
-
-      if (paragraphs.length > 200) {
-        return paragraphs.substring(0, 5000);
+      if (typeof response.data === 'string') {
+        return extractArticle(response.data);
       }
     } catch (error) {
       console.error('文章内容获取失败:', error);
@@ -0,0 +1,57 @@
+/**
+ * 数据源爬取选项
+ * POST /api/crawl 按数据源传入，校验后持久化在 CrawlTask.config 中，由 runner 转换为 CrawlerConfig
+ */
+
+import { z } from 'zod';
+import { Celebrity, CrawlerConfig } from '@/types';
+
+// 未指定时每个数据源最多爬取的条目数
+export const DEFAULT_MAX_ITEMS = 100;
+
+// 数据源由注册表决定（包括插件爬虫），这里只校验格式，是否已注册由调用方检查
+export const dataSourceSchema = z.string().regex(/^[a-z][a-z0-9_-]*$/, { message: '无效的数据源' });
+
+const dateStringSchema = z
+  .string()
+  .refine((value) => !isNaN(Date.parse(value)), { message: '无效的日期' });
+
+export const crawlSourceOptionsSchema = z
+  .object({
+    maxItems: z.number().int().min(1).max(1000).optional(),
+    startDate: dateStringSchema.optional(),
+    endDate: dateStringSchema.optional(),
+    languages: z
+      .array(z.string().regex(/^[a-z]{2,3}(-[a-z]+)?$/i, { message: '无效的语言代码' }))
+      .max(10)
+      .optional(),
+    queryTemplates: z.array(z.string().trim().min(1).max(200)).max(20).optional(),
+    // 数据源专属配置，由爬虫插件的 settingsSchema 进一步校验
+    settings: z.record(z.unknown()).optional(),
+  })
+  .refine(
+    (options) =>
+      !options.startDate ||
+      !options.endDate ||
+      Date.parse(options.startDate) <= Date.parse(options.endDate),
+    { message: '开始日期不能晚于结束日期', path: ['endDate'] }
+  );
+
+/**
+ * 按配置的模板生成搜索词，模板中的 {name} 替换为名人名称，没有 {name} 的模板追加在名称之后
+ * 未配置模板时返回默认搜索词
+ */
+export function buildSearchTerms(
+  celebrity: Celebrity,
+  config: CrawlerConfig | undefined,
+  defaults: string[]
+): string[] {
+  const templates = config?.queryTemplates;
+  if (!templates || templates.length === 0) return defaults;
+
+  return templates.map((template) =>
+    template.includes('{name}')
+      ? template.split('{name}').join(celebrity.name)
+      : `${celebrity.name} ${template}`
+  );
+}
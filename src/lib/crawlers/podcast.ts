@@ -0,0 +1,428 @@
+import { z } from 'zod';
+import { Celebrity, ContentItem, CrawlerConfig, DataSource } from '@/types';
+import { BaseCrawler } from './base';
+import { FeedNode, ParsedFeed, htmlToText, parseFeed } from './feed';
+import http from './http';
+import { buildSearchTerms } from './options';
+
+const ITUNES_SEARCH_URL = 'https://itunes.apple.com/search';
+
+// 只允许 http(s) 地址，订阅源和文字稿地址都可能来自用户或第三方
+const HTTP_URL_PATTERN = /^https?:/i;
+
+const httpUrlSchema = z
+  .string()
+  .url()
+  .refine((url) => HTTP_URL_PATTERN.test(url), { message: '只支持 http(s) 地址' });
+
+// 数据源专属配置（options.podcast.settings）
+export const podcastSettingsSchema = z.object({
+  // 直接爬取的订阅源
+  feedUrls: z.array(httpUrlSchema).max(50).default([]),
+  // 只爬取 feedUrls，不通过搜索发现订阅源
+  skipSearch: z.boolean().default(false),
+  // iTunes Search API 兼容的搜索接口
+  searchUrl: httpUrlSchema.default(ITUNES_SEARCH_URL),
+  // 每个搜索词最多发现的订阅源数
+  maxFeeds: z.number().int().min(1).max(50).default(10),
+  // 是否下载 Podcasting 2.0 文字稿
+  includeTranscripts: z.boolean().default(true),
+});
+
+export type PodcastSettings = z.infer<typeof podcastSettingsSchema>;
+
+// 获取订阅源和文字稿文本，测试时可替换为读取本地样例的实现
+export type PodcastFetcher = (url: string, signal?: AbortSignal) => Promise<string>;
+
+const fetchOverHttp: PodcastFetcher = async (url, signal) => {
+  const response = await http.get(url, {
+    signal,
+    responseType: 'text',
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (compatible; CelebrityCrawler/1.0)',
+    },
+    timeout: 15000,
+  });
+  return typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+};
+
+// 名人在节目中的角色：host 表示本人主持的节目（全部单集都相关），guest 只保留提到本人的单集
+type PodcastRole = 'host' | 'guest';
+
+interface PodcastFeedRef {
+  url: string;
+  role: PodcastRole;
+}
+
+interface PodcastTranscriptRef {
+  url: string;
+  type: string;
+  language?: string;
+}
+
+interface PodcastPerson {
+  name: string;
+  role?: string;
+}
+
+// 单集的播客扩展字段
+export interface PodcastEntryExtras {
+  duration?: string;
+  episode?: number;
+  season?: number;
+  transcripts: PodcastTranscriptRef[];
+  persons: PodcastPerson[];
+}
+
+interface ITunesResult {
+  feedUrl?: string;
+  artistName?: string;
+  collectionName?: string;
+}
+
+// 断点续爬检查点
+interface PodcastCheckpoint extends Record<string, unknown> {
+  feeds: PodcastFeedRef[];
+  feedIndex: number;
+  processedGuids: string[];
+  totalFetched: number;
+}
+
+// 文字稿格式优先级：纯文本和 JSON 最干净，字幕格式需要去掉时间轴
+const TRANSCRIPT_TYPE_ORDER = [
+  'text/plain',
+  'application/json',
+  'text/vtt',
+  'application/x-subrip',
+  'application/srt',
+  'text/html',
+];
+
+/**
+ * 解析播客订阅源，额外读取 Podcasting 2.0 的 podcast:transcript / podcast:person 标签
+ */
+export function parsePodcastFeed(xml: string): ParsedFeed<PodcastEntryExtras> | null {
+  return parseFeed<PodcastEntryExtras>(xml, (entry: FeedNode, $) => ({
+    duration: entry.children('itunes\\:duration').first().text().trim() || undefined,
+    episode: Number(entry.children('itunes\\:episode, podcast\\:episode').first().text()) || undefined,
+    season: Number(entry.children('itunes\\:season, podcast\\:season').first().text()) || undefined,
+    transcripts: entry
+      .children('podcast\\:transcript')
+      .toArray()
+      .map((element) => ({
+        url: $(element).attr('url') || '',
+        type: ($(element).attr('type') || 'text/plain').toLowerCase(),
+        language: $(element).attr('language'),
+      }))
+      .filter((transcript) => transcript.url),
+    persons: entry
+      .children('podcast\\:person')
+      .toArray()
+      .map((element) => ({
+        name: $(element).text().trim(),
+        role: $(element).attr('role')?.toLowerCase(),
+      }))
+      .filter((person) => person.name),
+  }));
+}
+
+/**
+ * 解析 JSON 格式文字稿，同一说话人的连续片段合并为一段
+ * 指定 isSpeaker 时只保留匹配的说话人的片段（没有说话人标注的片段不保留）
+ */
+export function parseJsonTranscript(
+  body: string,
+  isSpeaker?: (speaker: string) => boolean
+): string {
+  try {
+    const data = JSON.parse(body) as { segments?: { speaker?: string; body?: string }[] };
+    const paragraphs: string[] = [];
+    let lastSpeaker: string | undefined;
+    for (const segment of data.segments || []) {
+      const text = segment.body?.trim();
+      if (!text) continue;
+      if (isSpeaker && !(segment.speaker && isSpeaker(segment.speaker))) {
+        // 被其他说话人打断后，本人的下一句另起一段
+        lastSpeaker = undefined;
+        continue;
+      }
+      if (paragraphs.length === 0 || (segment.speaker && segment.speaker !== lastSpeaker)) {
+        paragraphs.push(segment.speaker ? `${segment.speaker}: ${text}` : text);
+        lastSpeaker = segment.speaker;
+      } else {
+        paragraphs[paragraphs.length - 1] += ` ${text}`;
+      }
+    }
+    return paragraphs.join('\n');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * 文字稿转为纯文本：去掉 VTT/SRT 的序号和时间轴，JSON 格式按说话人合并片段
+ */
+export function parseTranscript(body: string, type: string): string {
+  if (type.includes('json')) {
+    return parseJsonTranscript(body);
+  }
+
+  if (type.includes('html')) {
+    return htmlToText(body);
+  }
+
+  if (type.includes('vtt') || type.includes('srt') || type.includes('subrip')) {
+    const lines: string[] = [];
+    for (const rawLine of body.split(/\r?\n/)) {
+      const line = rawLine.replace(/<[^>]+>/g, '').trim();
+      if (!line || line === 'WEBVTT' || /^\d+$/.test(line) || line.includes('-->')) continue;
+      if (/^(NOTE|STYLE|REGION)\b/.test(line)) continue;
+      // 字幕常把同一句拆在相邻两条中重复出现
+      if (lines[lines.length - 1] !== line) lines.push(line);
+    }
+    return lines.join(' ');
+  }
+
+  return body.trim();
+}
+
+export class PodcastCrawler extends BaseCrawler {
+  source: DataSource = 'podcast';
+
+  constructor(private fetcher: PodcastFetcher = fetchOverHttp) {
+    super();
+  }
+
+  validateConfig(config: CrawlerConfig): boolean {
+    return podcastSettingsSchema.safeParse(config.settings ?? {}).success;
+  }
+
+  async *crawl(
+    celebrity: Celebrity,
+    config?: CrawlerConfig,
+    signal?: AbortSignal
+  ): AsyncGenerator<ContentItem> {
+    this.signal = signal;
+    const settings = podcastSettingsSchema.parse(config?.settings ?? {});
+    const maxItems = config?.maxItems || 30;
+    const checkpoint = this.restoreCheckpoint<PodcastCheckpoint>(config);
+    let totalFetched = checkpoint.totalFetched || 0;
+    const processedGuids = new Set<string>(checkpoint.processedGuids || []);
+
+    // 订阅源列表保存在检查点中，续爬时不再重新搜索
+    const feeds = checkpoint.feeds || (await this.discoverFeeds(celebrity, config, settings));
+    this.saveCheckpoint({ feeds });
+
+    for (let feedIndex = checkpoint.feedIndex || 0; feedIndex < feeds.length; feedIndex++) {
+      if (totalFetched >= maxItems) break;
+      const feedRef = feeds[feedIndex];
+
+      try {
+        const feed = parsePodcastFeed(await this.fetchText(feedRef.url));
+        if (!feed) {
+          console.warn(`无法解析播客订阅源: ${feedRef.url}`);
+          continue;
+        }
+
+        // 订阅源作者是本人时视为本人主持的节目
+        const role: PodcastRole =
+          feedRef.role === 'host' || this.mentions(feed.author, celebrity) ? 'host' : 'guest';
+        const feedLanguage = feed.language?.split('-')[0].toLowerCase();
+
+        for (const entry of feed.entries) {
+          if (totalFetched >= maxItems) break;
+          const guid = `${feedRef.url}#${entry.guid}`;
+          if (processedGuids.has(guid)) continue;
+          if (!this.isInDateRange(entry.date, config)) continue;
+
+          const showNotes = entry.contentHtml ? htmlToText(entry.contentHtml) : entry.summary || '';
+          const isGuest =
+            entry.persons.some(
+              (person) => person.role === 'guest' && this.mentions(person.name, celebrity)
+            ) ||
+            this.mentions(entry.title, celebrity) ||
+            this.mentions(showNotes, celebrity);
+          if (role === 'guest' && !isGuest) continue;
+
+          const transcriptRef = settings.includeTranscripts
+            ? this.selectTranscript(entry.transcripts, config?.languages)
+            : undefined;
+          const { text: transcript, speakerOnly } = transcriptRef
+            ? await this.fetchTranscript(transcriptRef, role === 'guest' ? celebrity : undefined)
+            : { text: '', speakerOnly: false };
+          // 本人主持的节目或只保留了本人发言的文字稿是本人原话；
+          // 嘉宾出镜的完整文字稿大部分是主持人和其他嘉宾的话，降低优先级
+          const isOwnWords = !!transcript && (role === 'host' || speakerOnly);
+
+          processedGuids.add(guid);
+          totalFetched++;
+          this.saveCheckpoint({
+            feedIndex,
+            processedGuids: Array.from(processedGuids),
+            totalFetched,
+          });
+
+          // 只有节目简介时按第三方描述处理
+          yield this.createContentItem({
+            type: 'podcast_episode',
+            priority: isOwnWords ? 1 : transcript ? 2 : 3,
+            weight: isOwnWords ? 1.0 : transcript ? 0.8 : 0.6,
+            title: entry.title,
+            content: transcript || showNotes || entry.title,
+            sourceUrl: entry.link || entry.enclosure?.url,
+            date: entry.date ? new Date(entry.date) : undefined,
+            author: entry.author || feed.author,
+            language: transcriptRef?.language?.split('-')[0] || feedLanguage || 'en',
+            metadata: {
+              podcastTitle: feed.title,
+              podcastUrl: feed.link,
+              feedUrl: feedRef.url,
+              episodeGuid: entry.guid,
+              role,
+              hasTranscript: !!transcript,
+              transcriptUrl: transcriptRef?.url,
+              transcriptType: transcriptRef?.type,
+              speakerOnly: speakerOnly || undefined,
+              showNotes: transcript ? showNotes : undefined,
+              audioUrl: entry.enclosure?.url,
+              duration: entry.duration,
+              episode: entry.episode,
+              season: entry.season,
+              persons: entry.persons.length > 0 ? entry.persons : undefined,
+            },
+          });
+        }
+      } catch (error) {
+        console.error(`播客订阅源爬取失败 (${feedRef.url}):`, error);
+      }
+
+      await this.delay(500);
+    }
+  }
+
+  /**
+   * 发现订阅源：配置的 feedUrls + 按名称搜索节目（本人主持）和单集（嘉宾出镜）
+   */
+  private async discoverFeeds(
+    celebrity: Celebrity,
+    config: CrawlerConfig | undefined,
+    settings: PodcastSettings
+  ): Promise<PodcastFeedRef[]> {
+    const feeds = new Map<string, PodcastFeedRef>();
+    for (const url of settings.feedUrls) {
+      feeds.set(url, { url, role: 'guest' });
+    }
+    if (settings.skipSearch) return Array.from(feeds.values());
+
+    const searchTerms = buildSearchTerms(celebrity, config, [
+      celebrity.name,
+      ...celebrity.aliases.slice(0, 1),
+    ]);
+
+    for (const term of searchTerms) {
+      const [shows, episodes] = await Promise.all([
+        this.searchITunes(settings.searchUrl, term, 'podcast', settings.maxFeeds),
+        this.searchITunes(settings.searchUrl, term, 'podcastEpisode', settings.maxFeeds * 3),
+      ]);
+
+      for (const show of shows) {
+        if (!show.feedUrl) continue;
+        const isHost = this.mentions(show.artistName, celebrity);
+        // 节目名里有本人名字但作者不是本人的（如粉丝节目），按嘉宾处理
+        if (isHost || this.mentions(show.collectionName, celebrity)) {
+          const existing = feeds.get(show.feedUrl);
+          feeds.set(show.feedUrl, {
+            url: show.feedUrl,
+            role: isHost || existing?.role === 'host' ? 'host' : 'guest',
+          });
+        }
+      }
+
+      const episodeFeeds = new Set<string>();
+      for (const episode of episodes) {
+        if (episode.feedUrl && episodeFeeds.size < settings.maxFeeds) {
+          episodeFeeds.add(episode.feedUrl);
+        }
+      }
+      episodeFeeds.forEach((url) => {
+        if (!feeds.has(url)) feeds.set(url, { url, role: 'guest' });
+      });
+
+      await this.delay(300);
+    }
+
+    // 本人主持的节目优先
+    return Array.from(feeds.values()).sort(
+      (a, b) => Number(b.role === 'host') - Number(a.role === 'host')
+    );
+  }
+
+  private async searchITunes(
+    searchUrl: string,
+    term: string,
+    entity: 'podcast' | 'podcastEpisode',
+    limit: number
+  ): Promise<ITunesResult[]> {
+    try {
+      const response = await http.get(searchUrl, {
+        signal: this.signal,
+        params: { term, media: 'podcast', entity, limit },
+        timeout: 10000,
+      });
+      return response.data?.results || [];
+    } catch (error) {
+      console.error(`播客搜索失败 (${term}):`, error);
+      return [];
+    }
+  }
+
+  // 按格式优先级选择文字稿，有语言偏好时优先匹配语言
+  private selectTranscript(
+    transcripts: PodcastTranscriptRef[],
+    languages?: string[]
+  ): PodcastTranscriptRef | undefined {
+    const rank = (transcript: PodcastTranscriptRef) => {
+      const typeIndex = TRANSCRIPT_TYPE_ORDER.findIndex((type) => transcript.type.includes(type));
+      const language = transcript.language?.split('-')[0].toLowerCase();
+      const languageRank =
+        languages && language && !languages.includes(language) ? TRANSCRIPT_TYPE_ORDER.length : 0;
+      return (typeIndex === -1 ? TRANSCRIPT_TYPE_ORDER.length : typeIndex) + languageRank;
+    };
+    return [...transcripts].sort((a, b) => rank(a) - rank(b))[0];
+  }
+
+  // 指定 speaker 且 JSON 文字稿带说话人标注时，只保留本人的片段（speakerOnly）；
+  // 标注中找不到本人时退回完整文字稿
+  private async fetchTranscript(
+    transcript: PodcastTranscriptRef,
+    speaker?: Celebrity
+  ): Promise<{ text: string; speakerOnly: boolean }> {
+    try {
+      const body = await this.fetchText(transcript.url);
+      if (speaker && transcript.type.includes('json')) {
+        const own = parseJsonTranscript(body, (name) => this.mentions(name, speaker));
+        if (own) return { text: own, speakerOnly: true };
+      }
+      return { text: parseTranscript(body, transcript.type), speakerOnly: false };
+    } catch (error) {
+      console.error(`获取播客文字稿失败 (${transcript.url}):`, error);
+      return { text: '', speakerOnly: false };
+    }
+  }
+
+  // 订阅源里的文字稿地址由第三方提供，非 http(s) 地址一律拒绝
+  private async fetchText(url: string): Promise<string> {
+    if (!HTTP_URL_PATTERN.test(url)) {
+      throw new Error(`不支持的地址: ${url}`);
+    }
+    return this.fetcher(url, this.signal);
+  }
+
+  private mentions(text: string | undefined, celebrity: Celebrity): boolean {
+    if (!text) return false;
+    const lower = text.toLowerCase();
+    return [celebrity.name, ...celebrity.aliases].some(
+      (name) => name.trim().length > 0 && lower.includes(name.toLowerCase())
+    );
+  }
+}
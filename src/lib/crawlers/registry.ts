@@ -0,0 +1,152 @@
+/**
+ * 爬虫注册表
+ * 每个数据源以插件形式注册：声明数据源 ID、能力、配置项和默认优先级。
+ * 内置爬虫在 builtin.ts 中注册，团队自研的爬虫放在 CRAWLER_PLUGIN_DIR 目录下，启动时自动加载
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type { AxiosInstance } from 'axios';
+import { z, ZodTypeAny } from 'zod';
+import { CrawlerDefaults, ICrawler } from '@/types';
+import { BaseCrawler } from './base';
+import http from './http';
+
+// 插件目录（相对于项目根目录），可通过环境变量修改
+const DEFAULT_PLUGIN_DIR = 'crawler-plugins';
+
+// 数据源 ID 格式：小写字母开头，只包含小写字母、数字、下划线和短横线
+const SOURCE_ID_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+export interface CrawlerCapabilities {
+  // 必须配置 API Key 才能爬取（没有公开模式）
+  needsKey: boolean;
+  // 支持按发布时间过滤（startDate / endDate）
+  supportsDateFilter: boolean;
+  // 支持通过检查点续爬
+  supportsResume: boolean;
+  // 支持按语言爬取（languages）
+  supportsLanguages?: boolean;
+  // 支持自定义搜索词（queryTemplates）
+  supportsQueryTemplates?: boolean;
+}
+
+export interface CrawlerPlugin {
+  // 数据源 ID（同时作为 Content.source 保存）
+  source: string;
+  name: string;
+  description?: string;
+  capabilities: CrawlerCapabilities;
+  // API Key 名称（与环境变量同名），没有 API 模式时为空
+  apiKeyName?: string;
+  // 数据源专属配置项（CrawlSourceOptions.settings）的校验规则
+  settingsSchema?: ZodTypeAny;
+  defaults?: CrawlerDefaults;
+  // 创建爬虫实例，hasApiKey 表示用户是否配置了 API Key
+  create: (options: { hasApiKey: boolean }) => ICrawler;
+}
+
+// 插件模块可以导出插件（或插件数组），也可以导出接收宿主 SDK 的工厂函数，
+// 这样插件无需依赖本项目的源码路径即可继承 BaseCrawler、复用限流的 HTTP 客户端
+export interface CrawlerPluginContext {
+  BaseCrawler: typeof BaseCrawler;
+  http: AxiosInstance;
+  z: typeof z;
+}
+
+type PluginExport =
+  | CrawlerPlugin
+  | CrawlerPlugin[]
+  | ((context: CrawlerPluginContext) => CrawlerPlugin | CrawlerPlugin[] | Promise<CrawlerPlugin | CrawlerPlugin[]>);
+
+const globalForRegistry = globalThis as unknown as {
+  crawlerPlugins: Map<string, CrawlerPlugin> | undefined;
+  crawlerPluginsLoading: Promise<void> | undefined;
+};
+
+const plugins = globalForRegistry.crawlerPlugins ?? new Map<string, CrawlerPlugin>();
+globalForRegistry.crawlerPlugins = plugins;
+
+function assertValidPlugin(plugin: CrawlerPlugin): void {
+  if (!plugin || typeof plugin !== 'object') {
+    throw new Error('插件必须是对象');
+  }
+  if (typeof plugin.source !== 'string' || !SOURCE_ID_PATTERN.test(plugin.source)) {
+    throw new Error(`无效的数据源 ID: ${plugin.source}`);
+  }
+  if (!plugin.name || !plugin.capabilities || typeof plugin.create !== 'function') {
+    throw new Error(`插件 ${plugin.source} 缺少 name、capabilities 或 create`);
+  }
+}
+
+/**
+ * 注册爬虫插件，同一数据源重复注册时后注册的覆盖先注册的（可用于替换内置爬虫）
+ */
+export function registerCrawler(plugin: CrawlerPlugin): void {
+  assertValidPlugin(plugin);
+  if (plugins.has(plugin.source) && plugins.get(plugin.source) !== plugin) {
+    console.warn(`[Crawlers] 数据源 ${plugin.source} 已注册，将被覆盖`);
+  }
+  plugins.set(plugin.source, plugin);
+}
+
+export function getCrawlerPlugin(source: string): CrawlerPlugin | undefined {
+  return plugins.get(source);
+}
+
+export function listCrawlerPlugins(): CrawlerPlugin[] {
+  return Array.from(plugins.values());
+}
+
+/**
+ * 从目录加载插件（.js / .mjs / .cjs，按文件名顺序），单个插件加载失败不影响其他插件
+ * @returns 注册成功的数据源 ID
+ */
+export async function loadCrawlerPlugins(dir: string): Promise<string[]> {
+  const pluginDir = path.resolve(process.cwd(), dir);
+
+  let files: string[];
+  try {
+    files = await fs.readdir(pluginDir);
+  } catch {
+    // 目录不存在时视为没有插件
+    return [];
+  }
+
+  const context: CrawlerPluginContext = { BaseCrawler, http, z };
+  const loaded: string[] = [];
+
+  for (const file of files.filter((name) => /\.(c|m)?js$/.test(name)).sort()) {
+    try {
+      const moduleUrl = pathToFileURL(path.join(pluginDir, file)).href;
+      const mod = await import(/* webpackIgnore: true */ moduleUrl);
+      const exported: PluginExport = mod.default ?? mod.plugins ?? mod.plugin;
+      const result = typeof exported === 'function' ? await exported(context) : exported;
+
+      for (const plugin of Array.isArray(result) ? result : [result]) {
+        registerCrawler(plugin);
+        loaded.push(plugin.source);
+      }
+    } catch (error) {
+      console.error(`[Crawlers] 加载插件 ${file} 失败:`, error);
+    }
+  }
+
+  if (loaded.length > 0) {
+    console.log(`[Crawlers] 已加载插件数据源: ${loaded.join(', ')}`);
+  }
+  return loaded;
+}
+
+/**
+ * 加载 CRAWLER_PLUGIN_DIR 中的插件（每个进程只加载一次）
+ */
+export function ensureCrawlerPluginsLoaded(): Promise<void> {
+  if (!globalForRegistry.crawlerPluginsLoading) {
+    globalForRegistry.crawlerPluginsLoading = loadCrawlerPlugins(
+      process.env.CRAWLER_PLUGIN_DIR || DEFAULT_PLUGIN_DIR
+    ).then(() => undefined);
+  }
+  return globalForRegistry.crawlerPluginsLoading;
+}
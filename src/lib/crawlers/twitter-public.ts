@@ -3,10 +3,10 @@
  * 无需 API Key，通过公开网页和第三方服务获取推文
  */
 
-import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { Celebrity, ContentItem, CrawlerConfig, DataSource } from '@/types';
 import { BaseCrawler } from './base';
+import http from './http';
 
 interface PublicTweet {
   id: string;
@@ -18,6 +18,12 @@ interface PublicTweet {
   url: string;
 }
 
+// 断点续爬检查点（公开来源没有稳定的分页，恢复时重新抓取并跳过已处理的推文）
+interface TwitterPublicCheckpoint extends Record<string, unknown> {
+  processedTweetIds: string[];
+  totalFetched: number;
+}
+
 export class TwitterPublicCrawler extends BaseCrawler {
   source: DataSource = 'twitter';
 
@@ -27,10 +33,14 @@ export class TwitterPublicCrawler extends BaseCrawler {
 
   async *crawl(
     celebrity: Celebrity,
-    config?: CrawlerConfig
+    config?: CrawlerConfig,
+    signal?: AbortSignal
   ): AsyncGenerator<ContentItem> {
+    this.signal = signal;
     const maxItems = config?.maxItems || 100;
-    let totalFetched = 0;
+    const checkpoint = this.restoreCheckpoint<TwitterPublicCheckpoint>(config);
+    let totalFetched = checkpoint.totalFetched || 0;
+    const processedTweetIds = new Set<string>(checkpoint.processedTweetIds || []);
 
     // 尝试多种方式获取推文
     const tweets: PublicTweet[] = [];
@@ -57,6 +67,17 @@ export class TwitterPublicCrawler extends BaseCrawler {
     for (const tweet of uniqueTweets) {
       if (totalFetched >= maxItems) break;
 
+      const tweetKey = tweet.id || tweet.text.substring(0, 100);
+      if (processedTweetIds.has(tweetKey)) continue;
+      if (!this.isInDateRange(tweet.date, config)) continue;
+
+      processedTweetIds.add(tweetKey);
+      totalFetched++;
+      this.saveCheckpoint({
+        processedTweetIds: Array.from(processedTweetIds),
+        totalFetched,
+      });
+
       yield this.createContentItem({
         type: 'tweet',
         priority: 1,
@@ -72,8 +93,6 @@ export class TwitterPublicCrawler extends BaseCrawler {
           crawlMethod: 'public',
         },
       });
-
-      totalFetched++;
     }
   }
 
@@ -97,7 +116,8 @@ export class TwitterPublicCrawler extends BaseCrawler {
     for (const instance of nitterInstances) {
       for (const username of possibleUsernames) {
         try {
-          const response = await axios.get(`${instance}/${username}`, {
+          const response = await http.get(`${instance}/${username}`, {
+            signal: this.signal,
             headers: {
               'User-Agent':
                 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
@@ -154,15 +174,16 @@ export class TwitterPublicCrawler extends BaseCrawler {
   ): Promise<PublicTweet[]> {
     const tweets: PublicTweet[] = [];
 
-    const searchQueries = [
-      `site:twitter.com "${celebrity.name}"`,
-      `site:x.com "${celebrity.name}"`,
-    ];
+    const handle = celebrity.identifiers?.twitterHandle;
+    const searchQueries = handle
+      ? [`site:twitter.com/${handle}`, `site:x.com/${handle}`]
+      : [`site:twitter.com "${celebrity.name}"`, `site:x.com "${celebrity.name}"`];
 
     for (const query of searchQueries) {
       try {
         // 使用 DuckDuckGo HTML 搜索（不需要 API）
-        const response = await axios.get('https://html.duckduckgo.com/html/', {
+        const response = await http.get('https://html.duckduckgo.com/html/', {
+          signal: this.signal,
           params: { q: query },
           headers: {
             'User-Agent':
@@ -215,7 +236,8 @@ export class TwitterPublicCrawler extends BaseCrawler {
       try {
         // 查询 Wayback Machine CDX API
         const cdxUrl = `https://web.archive.org/cdx/search/cdx`;
-        const response = await axios.get(cdxUrl, {
+        const response = await http.get(cdxUrl, {
+          signal: this.signal,
           params: {
             url: `twitter.com/${username}`,
             matchType: 'prefix',
@@ -240,7 +262,8 @@ export class TwitterPublicCrawler extends BaseCrawler {
           // 获取存档页面
           try {
             const archiveUrl = `https://web.archive.org/web/${timestamp}/${originalUrl}`;
-            const pageResponse = await axios.get(archiveUrl, {
+            const pageResponse = await http.get(archiveUrl, {
+              signal: this.signal,
               headers: {
                 'User-Agent':
                   'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
@@ -283,6 +306,11 @@ export class TwitterPublicCrawler extends BaseCrawler {
    * 猜测可能的用户名
    */
   private guessUsernames(celebrity: Celebrity): string[] {
+    // 有已验证的账号时不再猜测，避免爬到同名的其他账号
+    if (celebrity.identifiers?.twitterHandle) {
+      return [celebrity.identifiers.twitterHandle];
+    }
+
     const usernames: string[] = [];
 
     // 从名字生成可能的用户名
@@ -1,6 +1,6 @@
-import axios from 'axios';
 import { Celebrity, ContentItem, CrawlerConfig, DataSource } from '@/types';
 import { BaseCrawler } from './base';
+import http from './http';
 
 interface Tweet {
   id: string;
@@ -30,6 +30,16 @@ interface TwitterUser {
   };
 }
 
+// 断点续爬检查点
+interface TwitterCheckpoint extends Record<string, unknown> {
+  user: TwitterUser;
+  // 当前页的分页 token（恢复时重新请求该页）
+  paginationToken?: string;
+  // 当前页中已处理的推文 ID
+  pageTweetIds: string[];
+  totalFetched: number;
+}
+
 export class TwitterCrawler extends BaseCrawler {
   source: DataSource = 'twitter';
 
@@ -42,33 +52,49 @@ export class TwitterCrawler extends BaseCrawler {
 
   async *crawl(
     celebrity: Celebrity,
-    config?: CrawlerConfig
+    config?: CrawlerConfig,
+    signal?: AbortSignal
   ): AsyncGenerator<ContentItem> {
+    this.signal = signal;
     if (!config?.apiKey) {
       throw new Error('Twitter API Bearer Token 未配置');
     }
 
     this.bearerToken = config.apiKey;
 
-    // 搜索用户
-    const user = await this.findUser(celebrity);
+    const checkpoint = this.restoreCheckpoint<TwitterCheckpoint>(config);
+
+    // 搜索用户（恢复时直接使用检查点中的用户）
+    const user = checkpoint.user || (await this.findUser(celebrity));
     if (!user) {
       console.warn('未找到 Twitter 用户:', celebrity.name);
       return;
     }
 
     // 获取用户推文
-    let paginationToken: string | undefined;
-    let totalFetched = 0;
+    let paginationToken: string | undefined = checkpoint.paginationToken;
+    let pageTweetIds = new Set<string>(checkpoint.pageTweetIds || []);
+    let totalFetched = checkpoint.totalFetched || 0;
     const maxItems = config.maxItems || 500;
 
     while (totalFetched < maxItems) {
-      const result = await this.getUserTweets(user.id, paginationToken);
+      const result = await this.getUserTweets(user.id, paginationToken, config);
 
       for (const tweet of result.tweets) {
+        if (pageTweetIds.has(tweet.id)) continue;
+
         const contentType = this.getTweetType(tweet);
         const priority = contentType === 'reply' ? 1 : 1;
 
+        pageTweetIds.add(tweet.id);
+        totalFetched++;
+        this.saveCheckpoint({
+          user,
+          paginationToken,
+          pageTweetIds: Array.from(pageTweetIds),
+          totalFetched,
+        });
+
         yield this.createContentItem({
           type: contentType,
           priority,
@@ -85,11 +111,11 @@ export class TwitterCrawler extends BaseCrawler {
           },
         });
 
-        totalFetched++;
         if (totalFetched >= maxItems) break;
       }
 
       paginationToken = result.nextToken;
+      pageTweetIds = new Set<string>();
       if (!paginationToken) break;
 
       // 避免请求过快
@@ -98,6 +124,14 @@ export class TwitterCrawler extends BaseCrawler {
   }
 
   private async findUser(celebrity: Celebrity): Promise<TwitterUser | null> {
+    // 已验证的账号优先，找不到时再按名称搜索
+    const handle = celebrity.identifiers?.twitterHandle;
+    if (handle) {
+      const verifiedUser = await this.searchByUsername(handle);
+      if (verifiedUser) return verifiedUser;
+      console.warn(`已验证的 Twitter 账号不可用: @${handle}`);
+    }
+
     const searchTerms = [celebrity.name, ...celebrity.aliases];
 
     for (const term of searchTerms) {
@@ -125,9 +159,10 @@ export class TwitterCrawler extends BaseCrawler {
     username: string
   ): Promise<TwitterUser | null> {
     try {
-      const response = await axios.get(
+      const response = await http.get(
         `${this.baseUrl}/users/by/username/${username}`,
         {
+          signal: this.signal,
           headers: {
             Authorization: `Bearer ${this.bearerToken}`,
           },
@@ -150,7 +185,8 @@ export class TwitterCrawler extends BaseCrawler {
   private async searchByName(name: string): Promise<TwitterUser | null> {
     try {
       // 使用搜索 API 查找用户
-      const response = await axios.get(`${this.baseUrl}/users/search`, {
+      const response = await http.get(`${this.baseUrl}/users/search`, {
+        signal: this.signal,
         headers: {
           Authorization: `Bearer ${this.bearerToken}`,
         },
@@ -189,17 +225,22 @@ export class TwitterCrawler extends BaseCrawler {
 
   private async getUserTweets(
     userId: string,
-    paginationToken?: string
+    paginationToken?: string,
+    config?: CrawlerConfig
   ): Promise<{ tweets: Tweet[]; nextToken?: string }> {
-    const response = await axios.get(
+    const response = await http.get(
       `${this.baseUrl}/users/${userId}/tweets`,
       {
+        signal: this.signal,
         headers: {
           Authorization: `Bearer ${this.bearerToken}`,
         },
         params: {
           max_results: 100,
           pagination_token: paginationToken,
+          // 按发布时间过滤（增量更新）
+          start_time: config?.startDate?.toISOString(),
+          end_time: config?.endDate?.toISOString(),
           'tweet.fields': 'created_at,public_metrics,referenced_tweets',
           exclude: 'replies', // 可以移除以包含回复
         },
@@ -0,0 +1,330 @@
+/**
+ * 维基百科页面结构化解析
+ * 从 action=parse 返回的 HTML 中提取信息框事实、章节正文、带日期的生平事件和引用来源，
+ * 每条事实、事件和章节都附带它引用的来源，便于追溯出处
+ */
+
+import * as cheerio from 'cheerio';
+
+export interface WikiCitation {
+  // 页面内的引用 ID（cite_note-…）
+  id: string;
+  // 引用编号（页面上显示的 [n]）
+  index: number;
+  text: string;
+  url?: string;
+  title?: string;
+  date?: string;
+  archiveUrl?: string;
+}
+
+export interface InfoboxFact {
+  label: string;
+  value: string;
+  citations: WikiCitation[];
+}
+
+export interface TimelineEvent {
+  // YYYY、YYYY-MM 或 YYYY-MM-DD
+  date: string;
+  text: string;
+  section: string;
+  citations: WikiCitation[];
+}
+
+export interface WikiSection {
+  title: string;
+  // 标题层级（2 = 一级章节）
+  level: number;
+  anchor: string;
+  content: string;
+  citations: WikiCitation[];
+}
+
+export interface ParsedWikiPage {
+  infobox: InfoboxFact[];
+  // 不含导言和参考文献等章节
+  sections: WikiSection[];
+  timeline: TimelineEvent[];
+  citations: WikiCitation[];
+}
+
+// 不作为正文的章节（参考文献、外部链接等）
+const SKIPPED_SECTIONS = new Set(
+  [
+    'references', 'notes', 'citations', 'footnotes', 'sources', 'external links', 'see also',
+    'further reading', 'notes and references',
+    '参考文献', '参考资料', '参考来源', '注释', '脚注', '外部链接', '参见', '延伸阅读', '相关条目',
+    '參考文獻', '參考資料', '參考來源', '註釋', '腳註', '外部連結', '參見', '延伸閱讀', '相關條目',
+  ].map((title) => title.toLowerCase())
+);
+
+const LEAD_SECTION = '导言';
+const MAX_TIMELINE_EVENTS = 200;
+const MAX_EVENT_LENGTH = 300;
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+const MONTH_PATTERN = `(${MONTHS.map((month) => month[0].toUpperCase() + month.slice(1)).join('|')})`;
+
+// 按精度从高到低匹配日期
+const DATE_PATTERNS: { pattern: RegExp; toDate: (match: RegExpMatchArray) => string }[] = [
+  // 2002年3月14日
+  {
+    pattern: /(\d{4})\s*年\s*(\d{1,2})\s*月\s*(\d{1,2})\s*日/,
+    toDate: (m) => `${m[1]}-${pad(m[2])}-${pad(m[3])}`,
+  },
+  // March 14, 2002
+  {
+    pattern: new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2}),?\\s+(\\d{4})\\b`),
+    toDate: (m) => `${m[3]}-${monthNumber(m[1])}-${pad(m[2])}`,
+  },
+  // 14 March 2002
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})\\s+${MONTH_PATTERN}\\s+(\\d{4})\\b`),
+    toDate: (m) => `${m[3]}-${monthNumber(m[2])}-${pad(m[1])}`,
+  },
+  // 2002年3月
+  {
+    pattern: /(\d{4})\s*年\s*(\d{1,2})\s*月/,
+    toDate: (m) => `${m[1]}-${pad(m[2])}`,
+  },
+  // March 2002
+  {
+    pattern: new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{4})\\b`),
+    toDate: (m) => `${m[2]}-${monthNumber(m[1])}`,
+  },
+  // 2002年
+  {
+    pattern: /(?<![\d,.])(1[0-9]{3}|20[0-9]{2})\s*年/,
+    toDate: (m) => m[1],
+  },
+  // in 2002、since 2002（单独的四位数可能是人数、票数等，需要有表示时间的介词）
+  {
+    pattern: /\b(?:in|since|from|until|till|by|during|circa|c\.)\s+(1[0-9]{3}|20[0-9]{2})(?![\d,]|\.\d)/i,
+    toDate: (m) => m[1],
+  },
+  // (2002)、(2002–2005)
+  {
+    pattern: /\((1[0-9]{3}|20[0-9]{2})(?:\s*[–—-]\s*(?:\d{2,4}|present))?\)/i,
+    toDate: (m) => m[1],
+  },
+];
+
+function pad(value: string): string {
+  return value.padStart(2, '0');
+}
+
+function monthNumber(name: string): string {
+  return pad(String(MONTHS.indexOf(name.toLowerCase()) + 1));
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 提取句子中最精确的日期，忽略晚于明年的年份
+ */
+export function extractDate(sentence: string): string | undefined {
+  const maxYear = new Date().getFullYear() + 1;
+  for (const { pattern, toDate } of DATE_PATTERNS) {
+    const match = sentence.match(pattern);
+    if (!match) continue;
+    const date = toDate(match);
+    if (Number(date.slice(0, 4)) <= maxYear) return date;
+  }
+  return undefined;
+}
+
+// 引用标记（私用区字符），在提取文本前替换脚注上标，分句后再还原为引用
+const MARKER = '\ue000';
+const MARKER_PATTERN = new RegExp(`${MARKER}([^${MARKER}]+)${MARKER}`, 'g');
+
+/**
+ * 分句，句末的引用标记归入该句（维基百科的脚注通常在句号之后）
+ */
+function splitSentences(text: string): { text: string; refs: string[] }[] {
+  const sentences: { text: string; refs: string[] }[] = [];
+  const pattern = new RegExp(
+    `[^.!?。！？]+(?:[.!?。！？]+|$)(?:\\s*${MARKER}[^${MARKER}]+${MARKER})*`,
+    'g'
+  );
+  for (const match of text.match(pattern) || []) {
+    const refs = Array.from(match.matchAll(MARKER_PATTERN), (ref) => ref[1]);
+    const sentence = normalizeText(match.replace(MARKER_PATTERN, ''));
+    if (sentence) sentences.push({ text: sentence, refs });
+  }
+  return sentences;
+}
+
+/**
+ * 解析 action=parse 返回的页面 HTML
+ */
+export function parseWikiPage(html: string): ParsedWikiPage {
+  const $ = cheerio.load(html);
+  $('style, script, .mw-editsection, sup.noprint, .noprint, .mw-empty-elt').remove();
+
+  const citations = parseCitations($);
+  const byId = new Map(citations.map((citation) => [citation.id, citation]));
+  const resolve = (ids: Iterable<string>) =>
+    Array.from(new Set(ids))
+      .map((id) => byId.get(id))
+      .filter((citation): citation is WikiCitation => !!citation);
+
+  // 脚注上标替换为引用标记，之后的文本中保留引用位置
+  $('sup.reference').each((_, element) => {
+    const href = $(element).find('a').attr('href') || '';
+    const id = href.startsWith('#') ? decodeURIComponent(href.slice(1)) : '';
+    $(element).replaceWith(id ? `${MARKER}${id}${MARKER}` : '');
+  });
+
+  const infobox = parseInfobox($, resolve);
+  $('.infobox, .navbox, .metadata, .hatnote, .reflist, ol.references, .mw-references-wrap, figure, .thumb, table').remove();
+
+  const root = $('.mw-parser-output').first();
+  const elements = (root.length > 0 ? root : $('body')).children().toArray();
+
+  const sections: WikiSection[] = [];
+  const timeline: TimelineEvent[] = [];
+  const seenEvents = new Set<string>();
+  let current = { title: LEAD_SECTION, level: 1, anchor: '', paragraphs: [] as string[] };
+
+  const flush = () => {
+    const skipped = SKIPPED_SECTIONS.has(current.title.toLowerCase());
+    if (skipped || current.paragraphs.length === 0) return;
+
+    const refs: string[] = [];
+    // 列表每项单独分句
+    for (const line of current.paragraphs.flatMap((paragraph) => paragraph.split('\n'))) {
+      for (const sentence of splitSentences(line)) {
+        refs.push(...sentence.refs);
+        const date = extractDate(sentence.text);
+        const key = `${date}|${sentence.text}`;
+        if (date && !seenEvents.has(key) && timeline.length < MAX_TIMELINE_EVENTS) {
+          seenEvents.add(key);
+          timeline.push({
+            date,
+            text: sentence.text.slice(0, MAX_EVENT_LENGTH),
+            section: current.title,
+            citations: resolve(sentence.refs),
+          });
+        }
+      }
+    }
+
+    if (current.level > 1) {
+      sections.push({
+        title: current.title,
+        level: current.level,
+        anchor: current.anchor,
+        content: current.paragraphs
+          .map((paragraph) =>
+            paragraph
+              .replace(MARKER_PATTERN, '')
+              .split('\n')
+              .map(normalizeText)
+              .join('\n')
+          )
+          .join('\n\n'),
+        citations: resolve(refs),
+      });
+    }
+  };
+
+  for (const element of elements) {
+    const node = $(element);
+    const heading = node.is('h2, h3, h4') ? node : node.is('.mw-heading') ? node.find('h2, h3, h4').first() : null;
+
+    if (heading && heading.length > 0) {
+      flush();
+      const headline = heading.find('.mw-headline').first();
+      current = {
+        title: normalizeText(heading.text()),
+        level: Number(heading.prop('tagName')?.slice(1)) || 2,
+        anchor: headline.attr('id') || heading.attr('id') || '',
+        paragraphs: [],
+      };
+      continue;
+    }
+
+    if (node.is('p, ul, ol, dl, blockquote')) {
+      const text = blockText($, node);
+      if (text) current.paragraphs.push(text);
+    }
+  }
+  flush();
+
+  timeline.sort((a, b) => a.date.localeCompare(b.date));
+  return { infobox, sections, timeline, citations };
+}
+
+// 列表项分行，其余按文本提取
+function blockText($: cheerio.CheerioAPI, node: ReturnType<cheerio.CheerioAPI>): string {
+  if (node.is('ul, ol, dl')) {
+    return node
+      .find('li, dd, dt')
+      .toArray()
+      .map((item) => normalizeText($(item).text()))
+      .filter(Boolean)
+      .join('\n');
+  }
+  return normalizeText(node.text());
+}
+
+function parseCitations($: cheerio.CheerioAPI): WikiCitation[] {
+  return $('ol.references > li[id]')
+    .toArray()
+    .map((element, index) => {
+      const item = $(element);
+      const body = item.find('.reference-text').first();
+      const text = normalizeText((body.length > 0 ? body : item).text());
+      const links = item.find('a.external').toArray().map((link) => $(link));
+      const archive = links.find((link) => /web\.archive\.org|archive\.(?:today|is|ph)/.test(link.attr('href') || ''));
+      const source = links.find((link) => link !== archive);
+      const title = item.find('cite q').first().text() || source?.text();
+
+      return {
+        id: item.attr('id') as string,
+        index: index + 1,
+        text,
+        url: source?.attr('href'),
+        title: title ? normalizeText(title).replace(/^"|"$/g, '') : undefined,
+        date: extractDate(text),
+        archiveUrl: archive?.attr('href'),
+      };
+    });
+}
+
+function parseInfobox(
+  $: cheerio.CheerioAPI,
+  resolve: (ids: Iterable<string>) => WikiCitation[]
+): InfoboxFact[] {
+  const facts: InfoboxFact[] = [];
+  $('table.infobox')
+    .first()
+    .find('tr')
+    .each((_, row) => {
+      const label = normalizeText($(row).children('th').first().text());
+      const cell = $(row).children('td').first();
+      if (!label || cell.length === 0) return;
+
+      cell.find('br').replaceWith('\n');
+      cell.find('li').each((_, item) => {
+        $(item).append('\n');
+      });
+      const raw = cell.text();
+      const refs = Array.from(raw.matchAll(MARKER_PATTERN), (ref) => ref[1]);
+      const value = raw
+        .replace(MARKER_PATTERN, '')
+        .split('\n')
+        .map(normalizeText)
+        .filter(Boolean)
+        .join('; ');
+
+      if (value) facts.push({ label, value, citations: resolve(refs) });
+    });
+  return facts;
+}
@@ -1,6 +1,20 @@
-import axios from 'axios';
-import { Celebrity, ContentItem, CrawlerConfig, DataSource } from '@/types';
+import type { Readable } from 'stream';
+import { z } from 'zod';
+import { Celebrity, ContentItem, ContentType, CrawlerConfig, DataSource } from '@/types';
+import { extractArticle, extractionMetadata, ExtractedArticle } from './article-extractor';
 import { BaseCrawler } from './base';
+import http from './http';
+import { parseWikiPage, ParsedWikiPage, WikiCitation } from './wiki-parser';
+
+// 数据源专属配置（options.wikipedia.settings）
+export const wikipediaSettingsSchema = z.object({
+  // 抓取引用来源的原文（采访、演讲、新闻报道），作为独立内容输出
+  followReferences: z.boolean().default(false),
+  // 每次爬取最多抓取的引用来源数
+  maxReferences: z.number().int().min(1).max(100).default(20),
+});
+
+export type WikipediaSettings = z.infer<typeof wikipediaSettingsSchema>;
 
 interface WikipediaSearchResult {
   pageid: number;
@@ -15,112 +29,360 @@ interface WikipediaPage {
   lang: string;
 }
 
-// 维基百科多语言支持
-const WIKI_ENDPOINTS = [
-  { lang: 'en', url: 'https://en.wikipedia.org/w/api.php', name: '英文维基' },
-  { lang: 'zh', url: 'https://zh.wikipedia.org/w/api.php', name: '中文维基' },
-];
+interface CitedSource {
+  citation: WikiCitation;
+  // 引用该来源的章节
+  sections: { title: string; url: string }[];
+}
+
+// 抓取到的引用来源，url 为实际抓取的链接（原链接或存档链接）
+interface CitedArticle extends ExtractedArticle {
+  url: string;
+}
+
+interface WikiEndpoint {
+  lang: string;
+  url: string;
+  name: string;
+}
+
+// 常用语言版本的显示名称
+const WIKI_NAMES: Record<string, string> = {
+  en: '英文维基',
+  zh: '中文维基',
+  ja: '日文维基',
+  ko: '韩文维基',
+  fr: '法文维基',
+  de: '德文维基',
+  es: '西班牙文维基',
+  ru: '俄文维基',
+};
+
+// 未配置语言时使用 WIKIPEDIA_LANGUAGES 环境变量（逗号分隔），默认中英文
+const DEFAULT_LANGUAGES = ['en', 'zh'];
+
+function getDefaultLanguages(): string[] {
+  const configured = process.env.WIKIPEDIA_LANGUAGES?.split(/[,\s]+/).filter(Boolean);
+  return configured && configured.length > 0 ? configured : DEFAULT_LANGUAGES;
+}
+
+// 按配置的语言选择维基百科版本，第一个语言用于按名称搜索
+function getWikiEndpoints(languages?: string[]): WikiEndpoint[] {
+  const codes = languages && languages.length > 0 ? languages : getDefaultLanguages();
+
+  return Array.from(new Set(codes.map((lang) => lang.toLowerCase()))).map((code) => ({
+    lang: code,
+    url: `https://${code}.wikipedia.org/w/api.php`,
+    name: WIKI_NAMES[code] || `${code} 维基`,
+  }));
+}
+
+// 断点续爬检查点
+interface WikipediaCheckpoint extends Record<string, unknown> {
+  // 已完成的语言版本
+  completedLangs: string[];
+  // 已输出条目的链接
+  emittedUrls: string[];
+  // 已解析的各语言页面标题（语言 → 标题）
+  pageTitles: Record<string, string>;
+  // 已抓取的引用来源数
+  referencesFetched: number;
+}
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; CelebrityCrawler/1.0)';
+
+// 引用链接来自维基页面的编辑者，只抓取 http(s) 地址
+const HTTP_URL_PATTERN = /^https?:/i;
+
+// 引用来源网页的大小上限，超过的多为文件下载或异常页面
+const MAX_REFERENCE_BYTES = 2 * 1024 * 1024;
+
+// 引用来源的类型判断（标题和链接）
+const INTERVIEW_PATTERN =
+  /\binterview(s|ed)?\b|\bq\s*&\s*a\b|in conversation|transcript|采访|专访|访谈|對話|对话|訪問|專訪/i;
+const SPEECH_PATTERN = /\bspeech\b|commencement|keynote|\bremarks\b|演讲|演講|致辞|致詞|讲话/i;
+// 问答格式的正文行（Q: / A: / 问： / 人名:）
+const DIALOGUE_LINE_PATTERN = /^(?:Q|A|问|答|[A-Z][A-Za-z.' -]{1,40})\s*[:：]\s/;
+
+// 不抓取的引用链接：维基自身、书籍和文件
+const SKIPPED_REFERENCE_PATTERN =
+  /wikipedia\.org|wikimedia\.org|wikidata\.org|books\.google\.|archive\.org\/details|doi\.org|\.(pdf|jpg|jpeg|png|gif|mp3|mp4)(\?|$)/i;
+
+// 章节链接（锚点优先使用维基百科生成的 ID）
+function sectionUrl(pageUrl: string, section: { title: string; anchor?: string }): string {
+  return `${pageUrl}#${section.anchor || encodeURIComponent(section.title)}`;
+}
+
+/**
+ * 汇总页面引用的可抓取来源，采访和演讲排在前面
+ */
+function collectCitedSources(parsed: ParsedWikiPage, pageUrl: string): CitedSource[] {
+  const sources = new Map<string, CitedSource>();
+  for (const section of parsed.sections) {
+    for (const citation of section.citations) {
+      if (!citation.url || SKIPPED_REFERENCE_PATTERN.test(citation.url)) continue;
+      const source = sources.get(citation.id) || { citation, sections: [] };
+      source.sections.push({ title: section.title, url: sectionUrl(pageUrl, section) });
+      sources.set(citation.id, source);
+    }
+  }
+
+  const rank = ({ citation }: CitedSource) => {
+    const label = `${citation.title || ''} ${citation.url}`;
+    if (INTERVIEW_PATTERN.test(label)) return 0;
+    if (SPEECH_PATTERN.test(label)) return 1;
+    return 2;
+  };
+  return Array.from(sources.values()).sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * 判断引用来源的类型：采访、演讲（本人发言，P1）、本人署名文章（P2）、新闻报道和其他文章（P3）
+ */
+function classifyCitedSource(
+  citation: WikiCitation,
+  article: CitedArticle,
+  celebrity: Celebrity
+): { type: ContentType; priority: number; weight: number; isSelfAuthored: boolean } {
+  const label = `${citation.title || ''} ${article.title || ''} ${citation.url}`;
+  const dialogueLines = article.content
+    .split('\n')
+    .filter((line) => DIALOGUE_LINE_PATTERN.test(line.trim())).length;
+  const author = article.byline?.toLowerCase();
+  const isSelfAuthored =
+    !!author && [celebrity.name, ...celebrity.aliases].some((name) => author.includes(name.toLowerCase()));
+
+  if (INTERVIEW_PATTERN.test(label) || dialogueLines >= 4) {
+    return { type: 'interview', priority: 1, weight: 1.0, isSelfAuthored };
+  }
+  if (SPEECH_PATTERN.test(label)) {
+    return { type: 'speech', priority: 1, weight: 1.0, isSelfAuthored };
+  }
+  if (isSelfAuthored) {
+    return { type: 'article', priority: 2, weight: 0.8, isSelfAuthored };
+  }
+  return { type: article.date || citation.date ? 'news' : 'article', priority: 3, weight: 0.6, isSelfAuthored };
+}
 
 export class WikipediaCrawler extends BaseCrawler {
   source: DataSource = 'wikipedia';
 
-  validateConfig(): boolean {
-    return true;
+  validateConfig(config: CrawlerConfig): boolean {
+    return wikipediaSettingsSchema.safeParse(config.settings ?? {}).success;
   }
 
   async *crawl(
     celebrity: Celebrity,
-    config?: CrawlerConfig
+    config?: CrawlerConfig,
+    signal?: AbortSignal
   ): AsyncGenerator<ContentItem> {
+    this.signal = signal;
     const searchTerms = [celebrity.name, ...celebrity.aliases];
-    let foundPages = 0;
+    const settings = wikipediaSettingsSchema.parse(config?.settings ?? {});
+    const checkpoint = this.restoreCheckpoint<WikipediaCheckpoint>(config);
+    let referencesFetched = checkpoint.referencesFetched || 0;
+    const completedLangs = new Set<string>(checkpoint.completedLangs || []);
+    const emittedUrls = new Set<string>(checkpoint.emittedUrls || []);
+    let foundPages = emittedUrls.size;
+    // 达到 maxItems 后停止输出（未配置时不限制）
+    const reachedLimit = () => !!config?.maxItems && foundPages >= config.maxItems;
+
+    // 记录已输出的链接，返回 false 表示该条目在之前的运行中已输出
+    const markEmitted = (url: string): boolean => {
+      if (emittedUrls.has(url)) return false;
+      emittedUrls.add(url);
+      this.saveCheckpoint({ emittedUrls: Array.from(emittedUrls) });
+      return true;
+    };
 
     console.log(`[Wikipedia] 开始搜索，关键词: ${searchTerms.join(', ')}`);
 
-    // 尝试每个维基百科版本
-    for (const wiki of WIKI_ENDPOINTS) {
-      console.log(`[Wikipedia] 尝试 ${wiki.name}...`);
+    const wikis = getWikiEndpoints(config?.languages);
+    const wikidataId = celebrity.identifiers?.wikidataId;
 
-      for (const term of searchTerms) {
-        try {
-          console.log(`[Wikipedia] 搜索: "${term}" 在 ${wiki.name}`);
-          const page = await this.searchAndGetPage(term, wiki.url);
+    // 只解析一次页面，再通过跨语言链接找到其他语言版本，避免各语言分别按名称搜索到不同的人
+    let pageTitles = checkpoint.pageTitles;
+    if (!pageTitles) {
+      pageTitles = await this.resolvePageTitles(searchTerms, wikis, wikidataId);
+      // 没有找到页面时不保存，续爬时重新解析
+      if (Object.keys(pageTitles).length > 0) this.saveCheckpoint({ pageTitles });
+    }
 
-          if (page) {
-            console.log(`[Wikipedia] 找到页面: ${page.title}`);
+    for (const wiki of wikis) {
+      if (reachedLimit()) break;
+      if (completedLangs.has(wiki.lang)) continue;
 
-            // 获取完整内容
-            const content = await this.getFullContent(page.pageid, wiki.url);
-            const fullContent = content || page.extract;
+      const pageTitle = pageTitles[wiki.lang];
+      if (!pageTitle) {
+        console.log(`[Wikipedia] 没有${wiki.name}页面，跳过`);
+        continue;
+      }
+
+      try {
+        console.log(`[Wikipedia] 获取 ${wiki.name}: ${pageTitle}`);
+        const page = await this.getPageInfo({ titles: pageTitle }, wiki.url);
+        if (!page) {
+          console.log(`[Wikipedia] 未找到: "${pageTitle}" 在 ${wiki.name}`);
+          continue;
+        }
 
-            if (fullContent && fullContent.length > 100) {
+        // 获取完整内容
+        const content = await this.getFullContent(page.pageid, wiki.url);
+        const fullContent = content || page.extract;
+
+        if (fullContent && fullContent.length > 100) {
+          if (!reachedLimit() && markEmitted(page.fullurl)) {
+            yield this.createContentItem({
+              type: 'wiki_article',
+              priority: 4,
+              weight: 0.5,
+              title: `[${wiki.name}] ${page.title}`,
+              content: fullContent,
+              sourceUrl: page.fullurl,
+              language: wiki.lang,
+              metadata: {
+                pageid: page.pageid,
+                wikidataId,
+                language: wiki.lang,
+                contentLength: fullContent.length,
+              },
+            });
+            foundPages++;
+          }
+
+          // 解析信息框、章节、生平时间线和引用来源
+          const parsed = await this.getParsedPage(page.pageid, wiki.url);
+          if (parsed) {
+            if (
+              parsed.infobox.length > 0 &&
+              !reachedLimit() &&
+              markEmitted(`${page.fullurl}#infobox`)
+            ) {
               yield this.createContentItem({
-                type: 'wiki_article',
+                type: 'wiki_infobox',
                 priority: 4,
                 weight: 0.5,
-                title: `[${wiki.name}] ${page.title}`,
-                content: fullContent,
-                sourceUrl: page.fullurl,
+                title: `[${wiki.name}] ${page.title} - 信息框`,
+                content: parsed.infobox.map((fact) => `${fact.label}: ${fact.value}`).join('\n'),
+                sourceUrl: `${page.fullurl}#infobox`,
+                language: wiki.lang,
                 metadata: {
-                  pageid: page.pageid,
-                  searchTerm: term,
-                  language: wiki.lang,
-                  contentLength: fullContent.length,
+                  parentPageId: page.pageid,
+                  wikidataId,
+                  facts: parsed.infobox,
                 },
               });
               foundPages++;
+            }
 
-              // 获取章节
-              const sections = await this.getSections(page.pageid, wiki.url);
-              for (const section of sections) {
-                if (section.content && section.content.length > 50) {
-                  yield this.createContentItem({
-                    type: 'wiki_section',
-                    priority: 4,
-                    weight: 0.4,
-                    title: `[${wiki.name}] ${page.title} - ${section.title}`,
-                    content: section.content,
-                    sourceUrl: `${page.fullurl}#${encodeURIComponent(section.title)}`,
-                    metadata: {
-                      section: section.title,
-                      parentPageId: page.pageid,
-                    },
-                  });
-                  foundPages++;
-                }
-              }
-
-              // 获取引用来源
-              const references = await this.getReferences(page.pageid, wiki.url);
-              for (const ref of references.slice(0, 10)) {
+            for (const section of parsed.sections) {
+              if (reachedLimit()) break;
+              const url = sectionUrl(page.fullurl, section);
+              if (section.content.length > 50 && markEmitted(url)) {
                 yield this.createContentItem({
-                  type: 'wiki_reference',
-                  priority: 5,
-                  weight: 0.3,
-                  title: `参考来源: ${ref.url}`,
-                  content: ref.content,
-                  sourceUrl: ref.url,
+                  type: 'wiki_section',
+                  priority: 4,
+                  weight: 0.4,
+                  title: `[${wiki.name}] ${page.title} - ${section.title}`,
+                  content: section.content.slice(0, 5000), // 限制长度
+                  sourceUrl: url,
+                  language: wiki.lang,
                   metadata: {
-                    type: 'reference',
+                    section: section.title,
+                    level: section.level,
                     parentPageId: page.pageid,
+                    citations: section.citations,
                   },
                 });
                 foundPages++;
               }
+            }
 
-              console.log(`[Wikipedia] ${wiki.name} 完成，获取 ${foundPages} 条数据`);
-              // 这个语言版本找到了，继续下一个语言
-              break;
+            if (
+              parsed.timeline.length > 0 &&
+              !reachedLimit() &&
+              markEmitted(`${page.fullurl}#timeline`)
+            ) {
+              yield this.createContentItem({
+                type: 'wiki_timeline',
+                priority: 4,
+                weight: 0.5,
+                title: `[${wiki.name}] ${page.title} - 生平时间线`,
+                content: parsed.timeline.map((event) => `${event.date}: ${event.text}`).join('\n'),
+                sourceUrl: `${page.fullurl}#timeline`,
+                language: wiki.lang,
+                metadata: {
+                  parentPageId: page.pageid,
+                  events: parsed.timeline,
+                },
+              });
+              foundPages++;
+            }
+
+            console.log(
+              `[Wikipedia] ${page.title}: 信息框 ${parsed.infobox.length} 项，章节 ${parsed.sections.length} 个，` +
+                `事件 ${parsed.timeline.length} 条，引用 ${parsed.citations.length} 条`
+            );
+
+            // 抓取引用来源原文，维基百科引用的采访和演讲通常是本人发言
+            if (settings.followReferences) {
+              for (const source of collectCitedSources(parsed, page.fullurl)) {
+                if (referencesFetched >= settings.maxReferences || reachedLimit()) break;
+                const url = source.citation.url as string;
+                if (!markEmitted(url)) continue;
+
+                referencesFetched++;
+                this.saveCheckpoint({ referencesFetched });
+                const article = await this.fetchCitedArticle(source.citation);
+                await this.delay(500);
+                if (!article) continue;
+
+                const { type, priority, weight, isSelfAuthored } = classifyCitedSource(
+                  source.citation,
+                  article,
+                  celebrity
+                );
+                console.log(`[Wikipedia] 引用来源 [${source.citation.index}] ${type}: ${url}`);
+                const date = article.date || source.citation.date;
+                yield this.createContentItem({
+                  type,
+                  priority,
+                  weight,
+                  title: article.title || source.citation.title || url,
+                  content: article.content,
+                  sourceUrl: url,
+                  date: date ? new Date(date) : undefined,
+                  author: article.byline,
+                  language: article.language || wiki.lang,
+                  metadata: {
+                    discoveredVia: 'wikipedia_reference',
+                    citation: source.citation,
+                    citedBy: {
+                      pageid: page.pageid,
+                      pageTitle: page.title,
+                      pageUrl: page.fullurl,
+                      language: wiki.lang,
+                      sections: source.sections,
+                    },
+                    fetchedFrom: article.url,
+                    isSelfAuthored,
+                    extraction: extractionMetadata(article),
+                  },
+                });
+                foundPages++;
+              }
             }
-          } else {
-            console.log(`[Wikipedia] 未找到: "${term}" 在 ${wiki.name}`);
           }
-        } catch (error) {
-          console.error(`[Wikipedia] 搜索失败 (${term}):`, error);
         }
 
-        await this.delay(300);
+        completedLangs.add(wiki.lang);
+        this.saveCheckpoint({ completedLangs: Array.from(completedLangs) });
+        console.log(`[Wikipedia] ${wiki.name} 完成，获取 ${foundPages} 条数据`);
+      } catch (error) {
+        console.error(`[Wikipedia] 获取${wiki.name}失败 (${pageTitle}):`, error);
       }
+
+      await this.delay(300);
     }
 
     // 如果什么都没找到，至少返回一个说明
@@ -132,7 +394,8 @@ export class WikipediaCrawler extends BaseCrawler {
         weight: 0.1,
         title: `Wikipedia 搜索结果`,
         content: `未能在维基百科找到关于 "${celebrity.name}" 的详细信息。尝试的搜索词: ${searchTerms.join(', ')}`,
-        sourceUrl: `https://en.wikipedia.org/wiki/Special:Search?search=${encodeURIComponent(celebrity.name)}`,
+        sourceUrl: `https://${wikis[0].lang}.wikipedia.org/wiki/Special:Search?search=${encodeURIComponent(celebrity.name)}`,
+        language: wikis[0].lang,
         metadata: {
           searchTerms,
           status: 'not_found',
@@ -141,12 +404,75 @@ export class WikipediaCrawler extends BaseCrawler {
     }
   }
 
+  /**
+   * 确定名人在各语言维基百科的页面标题
+   * 有 Wikidata QID 且实体有维基百科页面时直接读取 sitelinks；否则按配置的语言顺序用名称搜索，
+   * 找到第一个页面后读取它的跨语言链接（langlinks）
+   */
+  private async resolvePageTitles(
+    searchTerms: string[],
+    wikis: WikiEndpoint[],
+    wikidataId?: string
+  ): Promise<Record<string, string>> {
+    if (wikidataId) {
+      const sitelinks = await this.getSitelinks(wikidataId);
+      // 实体没有任何维基百科页面（或请求失败）时退回按名称搜索
+      if (sitelinks && Object.keys(sitelinks).length > 0) {
+        console.log(`[Wikipedia] ${wikidataId} 有 ${Object.keys(sitelinks).length} 个语言版本`);
+        return sitelinks;
+      }
+    }
+
+    for (const wiki of wikis) {
+      for (const term of searchTerms) {
+        console.log(`[Wikipedia] 搜索: "${term}" 在 ${wiki.name}`);
+        const page = await this.searchAndGetPage(term, wiki.url);
+        await this.delay(300);
+        if (!page) continue;
+
+        console.log(`[Wikipedia] 找到页面: ${page.title}`);
+        const langlinks = await this.getLanglinks(page.pageid, wiki.url);
+        return { ...langlinks, [wiki.lang]: page.title };
+      }
+    }
+
+    return {};
+  }
+
+  /**
+   * 读取页面的跨语言链接，返回语言 → 页面标题
+   */
+  private async getLanglinks(pageId: number, baseUrl: string): Promise<Record<string, string>> {
+    try {
+      const response = await http.get(baseUrl, {
+        signal: this.signal,
+        params: {
+          action: 'query',
+          pageids: pageId,
+          prop: 'langlinks',
+          lllimit: 'max',
+          format: 'json',
+          origin: '*',
+        },
+        timeout: 10000,
+      });
+
+      const langlinks: { lang: string; '*': string }[] =
+        response.data.query?.pages?.[pageId]?.langlinks || [];
+      return Object.fromEntries(langlinks.map((link) => [link.lang, link['*']]));
+    } catch (error) {
+      console.error('[Wikipedia] 获取跨语言链接失败:', error);
+      return {};
+    }
+  }
+
   private async searchAndGetPage(
     searchTerm: string,
     baseUrl: string
   ): Promise<WikipediaPage | null> {
     try {
-      const searchResponse = await axios.get(baseUrl, {
+      const searchResponse = await http.get(baseUrl, {
+        signal: this.signal,
         params: {
           action: 'query',
           list: 'search',
@@ -171,42 +497,121 @@ export class WikipediaCrawler extends BaseCrawler {
       const pageId = searchResults[0].pageid;
       console.log(`[Wikipedia] 获取页面详情: ${searchResults[0].title} (ID: ${pageId})`);
 
-      const pageResponse = await axios.get(baseUrl, {
+      return await this.getPageInfo({ pageids: pageId }, baseUrl);
+    } catch (error) {
+      console.error(`[Wikipedia] API 请求失败:`, error);
+      return null;
+    }
+  }
+
+  // 按页面 ID 或标题获取页面简介和链接
+  private async getPageInfo(
+    page: { pageids: number } | { titles: string },
+    baseUrl: string
+  ): Promise<WikipediaPage | null> {
+    const pageResponse = await http.get(baseUrl, {
+      signal: this.signal,
+      params: {
+        action: 'query',
+        ...page,
+        prop: 'extracts|info',
+        exintro: true,
+        explaintext: true,
+        inprop: 'url',
+        redirects: true,
+        format: 'json',
+        origin: '*',
+      },
+      timeout: 10000,
+    });
+
+    const pages = pageResponse.data.query?.pages;
+    const info = pages && Object.values(pages)[0] as
+      | { pageid?: number; title: string; extract?: string; fullurl?: string; missing?: string }
+      | undefined;
+    if (!info || info.missing !== undefined || !info.pageid) {
+      return null;
+    }
+
+    return {
+      pageid: info.pageid,
+      title: info.title,
+      extract: info.extract || '',
+      fullurl: info.fullurl || `${new URL(baseUrl).origin}/wiki/${encodeURIComponent(info.title)}`,
+      lang: new URL(baseUrl).hostname.split('.')[0],
+    };
+  }
+
+  /**
+   * 获取网页 HTML：先检查响应头，不是 HTML（PDF、视频等）或超过 MAX_REFERENCE_BYTES 时不读取正文
+   */
+  private async fetchHtml(url: string): Promise<string | null> {
+    const response = await http.get<Readable>(url, {
+      signal: this.signal,
+      responseType: 'stream',
+      headers: { 'User-Agent': USER_AGENT },
+      timeout: 10000,
+      maxContentLength: MAX_REFERENCE_BYTES,
+    });
+    const stream = response.data;
+
+    const contentType = String(response.headers['content-type'] || '');
+    const contentLength = Number(response.headers['content-length'] || 0);
+    if ((contentType && !contentType.includes('html')) || contentLength > MAX_REFERENCE_BYTES) {
+      stream.destroy();
+      return null;
+    }
+
+    // 未声明长度或声明不实时，边读边检查
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of stream) {
+      size += chunk.length;
+      if (size > MAX_REFERENCE_BYTES) {
+        stream.destroy();
+        return null;
+      }
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+  }
+
+  /**
+   * 读取 Wikidata 实体在各语言维基百科的页面标题（sitelinks），请求失败时返回 null
+   */
+  private async getSitelinks(wikidataId: string): Promise<Record<string, string> | null> {
+    try {
+      const response = await http.get('https://www.wikidata.org/w/api.php', {
+        signal: this.signal,
         params: {
-          action: 'query',
-          pageids: pageId,
-          prop: 'extracts|info',
-          exintro: true,
-          explaintext: true,
-          inprop: 'url',
+          action: 'wbgetentities',
+          ids: wikidataId,
+          props: 'sitelinks',
           format: 'json',
           origin: '*',
         },
         timeout: 10000,
       });
 
-      const pages = pageResponse.data.query?.pages;
-      if (!pages || !pages[pageId]) {
-        return null;
+      const sitelinks: Record<string, { site: string; title: string }> =
+        response.data.entities?.[wikidataId]?.sitelinks || {};
+      const titles: Record<string, string> = {};
+      for (const link of Object.values(sitelinks)) {
+        // 只保留维基百科（enwiki、zhwiki…），排除 enwikiquote 等姊妹项目
+        const match = link.site.match(/^([a-z_]+)wiki$/);
+        if (match) titles[match[1].replace(/_/g, '-')] = link.title;
       }
-
-      const page = pages[pageId];
-      return {
-        pageid: page.pageid,
-        title: page.title,
-        extract: page.extract || '',
-        fullurl: page.fullurl || `https://en.wikipedia.org/wiki/${encodeURIComponent(page.title)}`,
-        lang: baseUrl.includes('zh.') ? 'zh' : 'en',
-      };
+      return titles;
     } catch (error) {
-      console.error(`[Wikipedia] API 请求失败:`, error);
+      console.error(`[Wikipedia] Wikidata 请求失败 (${wikidataId}):`, error);
       return null;
     }
   }
 
   private async getFullContent(pageId: number, baseUrl: string): Promise<string | null> {
     try {
-      const response = await axios.get(baseUrl, {
+      const response = await http.get(baseUrl, {
+        signal: this.signal,
         params: {
           action: 'query',
           pageids: pageId,
@@ -232,95 +637,48 @@ export class WikipediaCrawler extends BaseCrawler {
     }
   }
 
-  private async getSections(pageId: number, baseUrl: string): Promise<{ title: string; content: string }[]> {
-    try {
-      const response = await axios.get(baseUrl, {
-        params: {
-          action: 'parse',
-          pageid: pageId,
-          prop: 'sections',
-          format: 'json',
-          origin: '*',
-        },
-        timeout: 10000,
-      });
-
-      const sections = response.data.parse?.sections || [];
-      const results: { title: string; content: string }[] = [];
-
-      // 只获取前5个主要章节
-      for (const section of sections.slice(0, 5)) {
-        if (section.line && section.index) {
-          try {
-            const sectionResponse = await axios.get(baseUrl, {
-              params: {
-                action: 'parse',
-                pageid: pageId,
-                section: section.index,
-                prop: 'text',
-                format: 'json',
-                origin: '*',
-              },
-              timeout: 10000,
-            });
-
-            const html = sectionResponse.data.parse?.text?.['*'] || '';
-            // 简单的 HTML 转文本
-            const text = html
-              .replace(/<[^>]+>/g, ' ')
-              .replace(/\s+/g, ' ')
-              .trim();
-
-            if (text.length > 50) {
-              results.push({
-                title: section.line,
-                content: text.slice(0, 5000), // 限制长度
-              });
-            }
-          } catch (e) {
-            console.error(`[Wikipedia] 获取章节失败: ${section.line}`);
-          }
-          await this.delay(200);
-        }
+  /**
+   * 抓取引用来源的正文，原链接失效时尝试存档链接
+   */
+  private async fetchCitedArticle(citation: WikiCitation): Promise<CitedArticle | null> {
+    for (const url of [citation.url, citation.archiveUrl]) {
+      if (!url || !HTTP_URL_PATTERN.test(url)) continue;
+      try {
+        const html = await this.fetchHtml(url);
+        const article = html ? extractArticle(html) : null;
+        if (article) return { url, ...article };
+      } catch (error) {
+        console.error(`[Wikipedia] 引用来源获取失败 (${url}):`, error instanceof Error ? error.message : error);
       }
-
-      return results;
-    } catch (error) {
-      console.error('[Wikipedia] 获取章节列表失败:', error);
-      return [];
     }
+    return null;
   }
 
-  private async getReferences(
-    pageId: number,
-    baseUrl: string
-  ): Promise<{ title?: string; content: string; url?: string }[]> {
+  /**
+   * 获取页面的渲染 HTML 并解析为结构化数据，请求失败时返回 null
+   */
+  private async getParsedPage(pageId: number, baseUrl: string): Promise<ParsedWikiPage | null> {
     try {
-      const response = await axios.get(baseUrl, {
+      const response = await http.get(baseUrl, {
+        signal: this.signal,
         params: {
-          action: 'query',
-          pageids: pageId,
-          prop: 'extlinks',
-          ellimit: 20,
+          action: 'parse',
+          pageid: pageId,
+          prop: 'text',
+          disableeditsection: true,
+          disabletoc: true,
+          formatversion: 2,
           format: 'json',
           origin: '*',
         },
-        timeout: 10000,
+        timeout: 20000,
       });
 
-      const pages = response.data.query?.pages;
-      if (!pages || !pages[pageId]) {
-        return [];
-      }
-
-      const extlinks = pages[pageId].extlinks || [];
-      return extlinks.map((link: { '*': string }) => ({
-        content: `外部链接: ${link['*']}`,
-        url: link['*'],
-      }));
+      const html: string | undefined = response.data.parse?.text;
+      return html ? parseWikiPage(html) : null;
     } catch (error) {
-      console.error('[Wikipedia] 获取引用失败:', error);
-      return [];
+      console.error('[Wikipedia] 解析页面失败:', error);
+      return null;
     }
   }
 }
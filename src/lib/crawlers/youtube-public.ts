@@ -3,22 +3,38 @@
  * 无需 API Key，通过公开网页获取视频信息和字幕
  */
 
-import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { Celebrity, ContentItem, CrawlerConfig, DataSource } from '@/types';
 import { BaseCrawler } from './base';
+import { parseFeed } from './feed';
+import http from './http';
+import { buildSearchTerms } from './options';
 
 interface PublicVideo {
   id: string;
   title: string;
   description: string;
   channelName: string;
+  channelId?: string;
   publishDate: string;
   viewCount?: number;
   duration?: string;
   transcript?: string;
 }
 
+// 搜索请求：有已验证的频道时先读取该频道的公开订阅源，再按关键词搜索
+interface VideoQuery {
+  term: string;
+  channelId?: string;
+}
+
+// 断点续爬检查点
+interface YouTubeCheckpoint extends Record<string, unknown> {
+  queryIndex: number;
+  processedVideoIds: string[];
+  totalFetched: number;
+}
+
 export class YouTubePublicCrawler extends BaseCrawler {
   source: DataSource = 'youtube';
 
@@ -28,35 +44,51 @@ export class YouTubePublicCrawler extends BaseCrawler {
 
   async *crawl(
     celebrity: Celebrity,
-    config?: CrawlerConfig
+    config?: CrawlerConfig,
+    signal?: AbortSignal
   ): AsyncGenerator<ContentItem> {
+    this.signal = signal;
     const maxItems = config?.maxItems || 30;
-    let totalFetched = 0;
+    const checkpoint = this.restoreCheckpoint<YouTubeCheckpoint>(config);
+    let totalFetched = checkpoint.totalFetched || 0;
 
-    const searchQueries = [
+    const searchQueries = buildSearchTerms(celebrity, config, [
       `${celebrity.name} interview`,
       `${celebrity.name} speech`,
       `${celebrity.name} talk`,
       `${celebrity.name} podcast`,
+    ]);
+
+    const channelId = celebrity.identifiers?.youtubeChannelId;
+    const queries: VideoQuery[] = [
+      ...(channelId ? [{ term: '', channelId }] : []),
+      ...searchQueries.map((term) => ({ term })),
     ];
 
-    const processedVideoIds = new Set<string>();
+    const processedVideoIds = new Set<string>(checkpoint.processedVideoIds || []);
 
-    for (const query of searchQueries) {
+    for (let queryIndex = checkpoint.queryIndex || 0; queryIndex < queries.length; queryIndex++) {
+      const { term: query, channelId: queryChannelId } = queries[queryIndex];
       if (totalFetched >= maxItems) break;
 
       try {
-        // 方法1: 通过 Invidious 实例搜索（YouTube 的开源前端）
-        let videos = await this.searchViaInvidious(query);
-
-        // 方法2: 如果 Invidious 失败，尝试直接解析 YouTube 页面
-        if (videos.length === 0) {
-          videos = await this.searchViaYouTubeHTML(query);
+        let videos: PublicVideo[];
+        if (queryChannelId) {
+          videos = await this.fetchChannelFeed(queryChannelId);
+        } else {
+          // 方法1: 通过 Invidious 实例搜索（YouTube 的开源前端）
+          videos = await this.searchViaInvidious(query);
+
+          // 方法2: 如果 Invidious 失败，尝试直接解析 YouTube 页面
+          if (videos.length === 0) {
+            videos = await this.searchViaYouTubeHTML(query);
+          }
         }
 
         for (const video of videos) {
           if (processedVideoIds.has(video.id)) continue;
           if (totalFetched >= maxItems) break;
+          if (!this.isInDateRange(video.publishDate, config)) continue;
 
           processedVideoIds.add(video.id);
 
@@ -69,6 +101,13 @@ export class YouTubePublicCrawler extends BaseCrawler {
           const contentType = this.getContentType(video.title);
           const priority = this.getPriority(video, celebrity);
 
+          totalFetched++;
+          this.saveCheckpoint({
+            queryIndex,
+            processedVideoIds: Array.from(processedVideoIds),
+            totalFetched,
+          });
+
           yield this.createContentItem({
             type: contentType,
             priority,
@@ -80,6 +119,7 @@ export class YouTubePublicCrawler extends BaseCrawler {
             metadata: {
               videoId: video.id,
               channelName: video.channelName,
+              isOfficialChannel: !!channelId && video.channelId === channelId,
               viewCount: video.viewCount,
               duration: video.duration,
               hasTranscript: !!video.transcript,
@@ -87,17 +127,49 @@ export class YouTubePublicCrawler extends BaseCrawler {
             },
           });
 
-          totalFetched++;
           await this.delay(500);
         }
       } catch (error) {
-        console.error(`YouTube 公开搜索失败 (${query}):`, error);
+        console.error(`YouTube 公开搜索失败 (${query || queryChannelId}):`, error);
       }
 
       await this.delay(1000);
     }
   }
 
+  /**
+   * 读取频道的公开订阅源（最近 15 个视频）
+   */
+  private async fetchChannelFeed(channelId: string): Promise<PublicVideo[]> {
+    try {
+      const response = await http.get('https://www.youtube.com/feeds/videos.xml', {
+        signal: this.signal,
+        params: { channel_id: channelId },
+        responseType: 'text',
+        timeout: 10000,
+      });
+
+      const feed = parseFeed(response.data, (entry) => ({
+        videoId: entry.children('yt\\:videoId').first().text().trim(),
+        mediaDescription: entry.find('media\\:description').first().text().trim(),
+      }));
+
+      return (feed?.entries || [])
+        .filter((entry) => entry.videoId)
+        .map((entry) => ({
+          id: entry.videoId,
+          title: entry.title,
+          description: entry.mediaDescription,
+          channelName: entry.author || feed?.title || '',
+          channelId,
+          publishDate: entry.date || '',
+        }));
+    } catch (error) {
+      console.warn(`YouTube 频道订阅源获取失败 (${channelId}):`, error);
+      return [];
+    }
+  }
+
   /**
    * 通过 Invidious 实例搜索
    */
@@ -114,7 +186,8 @@ export class YouTubePublicCrawler extends BaseCrawler {
 
     for (const instance of instances) {
       try {
-        const response = await axios.get(`${instance}/api/v1/search`, {
+        const response = await http.get(`${instance}/api/v1/search`, {
+          signal: this.signal,
           params: {
             q: query,
             type: 'video',
@@ -160,7 +233,8 @@ export class YouTubePublicCrawler extends BaseCrawler {
     try {
       const searchUrl = `https://www.youtube.com/results?search_query=${encodeURIComponent(query)}`;
 
-      const response = await axios.get(searchUrl, {
+      const response = await http.get(searchUrl, {
+        signal: this.signal,
         headers: {
           'User-Agent':
             'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
@@ -228,7 +302,8 @@ export class YouTubePublicCrawler extends BaseCrawler {
     try {
       // 使用 youtubetranscript.com 等服务
       const transcriptUrl = `https://youtubetranscript.com/?server_vid=${videoId}`;
-      const response = await axios.get(transcriptUrl, {
+      const response = await http.get(transcriptUrl, {
+        signal: this.signal,
         timeout: 10000,
         headers: {
           'User-Agent':
@@ -249,7 +324,8 @@ export class YouTubePublicCrawler extends BaseCrawler {
     // 方法2: 尝试直接从 YouTube 获取字幕
     try {
       const videoPageUrl = `https://www.youtube.com/watch?v=${videoId}`;
-      const response = await axios.get(videoPageUrl, {
+      const response = await http.get(videoPageUrl, {
+        signal: this.signal,
         headers: {
           'User-Agent':
             'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
@@ -270,7 +346,8 @@ export class YouTubePublicCrawler extends BaseCrawler {
           );
 
           if (englishCaption?.baseUrl) {
-            const captionResponse = await axios.get(englishCaption.baseUrl, {
+            const captionResponse = await http.get(englishCaption.baseUrl, {
+              signal: this.signal,
               timeout: 10000,
             });
 
@@ -350,6 +427,9 @@ export class YouTubePublicCrawler extends BaseCrawler {
     const celebrityName = celebrity.name.toLowerCase();
 
     // 如果是名人自己的频道
+    if (video.channelId && video.channelId === celebrity.identifiers?.youtubeChannelId) {
+      return 1;
+    }
     if (
       channel.includes(celebrityName) ||
       celebrity.aliases.some((a) => channel.includes(a.toLowerCase()))
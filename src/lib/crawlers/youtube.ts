@@ -1,6 +1,7 @@
-import axios from 'axios';
 import { Celebrity, ContentItem, CrawlerConfig, DataSource } from '@/types';
 import { BaseCrawler } from './base';
+import http from './http';
+import { buildSearchTerms } from './options';
 
 interface YouTubeVideo {
   id: string;
@@ -8,6 +9,7 @@ interface YouTubeVideo {
     title: string;
     description: string;
     publishedAt: string;
+    channelId: string;
     channelTitle: string;
     thumbnails: {
       default?: { url: string };
@@ -20,6 +22,19 @@ interface YouTubeCaption {
   text: string;
 }
 
+// 搜索请求：有已验证的频道时先按时间顺序爬取该频道，再按关键词搜索
+interface YouTubeQuery {
+  term: string;
+  channelId?: string;
+}
+
+// 断点续爬检查点
+interface YouTubeCheckpoint extends Record<string, unknown> {
+  queryIndex: number;
+  processedVideoIds: string[];
+  totalFetched: number;
+}
+
 export class YouTubeCrawler extends BaseCrawler {
   source: DataSource = 'youtube';
 
@@ -32,30 +47,39 @@ export class YouTubeCrawler extends BaseCrawler {
 
   async *crawl(
     celebrity: Celebrity,
-    config?: CrawlerConfig
+    config?: CrawlerConfig,
+    signal?: AbortSignal
   ): AsyncGenerator<ContentItem> {
+    this.signal = signal;
     if (!config?.apiKey) {
       throw new Error('YouTube API Key 未配置');
     }
 
     this.apiKey = config.apiKey;
 
-    const searchTerms = [
+    const searchTerms = buildSearchTerms(celebrity, config, [
       `${celebrity.name} interview`,
       `${celebrity.name} speech`,
       `${celebrity.name} talk`,
       `${celebrity.name} podcast`,
+    ]);
+    const channelId = celebrity.identifiers?.youtubeChannelId;
+    const queries: YouTubeQuery[] = [
+      ...(channelId ? [{ term: '', channelId }] : []),
+      ...searchTerms.map((term) => ({ term })),
     ];
 
     const maxItems = config.maxItems || 50;
-    let totalFetched = 0;
-    const processedVideoIds = new Set<string>();
+    const checkpoint = this.restoreCheckpoint<YouTubeCheckpoint>(config);
+    let totalFetched = checkpoint.totalFetched || 0;
+    const processedVideoIds = new Set<string>(checkpoint.processedVideoIds || []);
 
-    for (const searchTerm of searchTerms) {
+    for (let queryIndex = checkpoint.queryIndex || 0; queryIndex < queries.length; queryIndex++) {
+      const { term: searchTerm, channelId: queryChannelId } = queries[queryIndex];
       if (totalFetched >= maxItems) break;
 
       try {
-        const videos = await this.searchVideos(searchTerm);
+        const videos = await this.searchVideos(searchTerm, config, queryChannelId);
 
         for (const video of videos) {
           if (processedVideoIds.has(video.id)) continue;
@@ -74,6 +98,13 @@ export class YouTubeCrawler extends BaseCrawler {
           const contentType = this.getContentType(video.snippet.title);
           const priority = this.getPriority(video, celebrity);
 
+          totalFetched++;
+          this.saveCheckpoint({
+            queryIndex,
+            processedVideoIds: Array.from(processedVideoIds),
+            totalFetched,
+          });
+
           yield this.createContentItem({
             type: contentType,
             priority,
@@ -86,31 +117,42 @@ export class YouTubeCrawler extends BaseCrawler {
               videoId: video.id,
               channelTitle: video.snippet.channelTitle,
               hasCaption: !!caption,
-              searchTerm,
+              searchTerm: searchTerm || undefined,
+              isOfficialChannel: !!channelId && video.snippet.channelId === channelId,
             },
           });
 
-          totalFetched++;
           await this.delay(200);
         }
       } catch (error) {
-        console.error(`YouTube 搜索失败 (${searchTerm}):`, error);
+        console.error(`YouTube 搜索失败 (${searchTerm || queryChannelId}):`, error);
       }
 
       await this.delay(500);
     }
   }
 
-  private async searchVideos(query: string): Promise<YouTubeVideo[]> {
-    const searchResponse = await axios.get(`${this.baseUrl}/search`, {
+  private async searchVideos(
+    query: string,
+    config: CrawlerConfig,
+    channelId?: string
+  ): Promise<YouTubeVideo[]> {
+    const searchResponse = await http.get(`${this.baseUrl}/search`, {
+      signal: this.signal,
       params: {
         key: this.apiKey,
-        q: query,
+        q: query || undefined,
+        channelId,
         part: 'snippet',
         type: 'video',
         maxResults: 20,
-        order: 'relevance',
-        videoCaption: 'closedCaption', // 优先有字幕的视频
+        // 本人频道按时间顺序爬取全部视频，关键词搜索优先有字幕的视频
+        order: channelId ? 'date' : 'relevance',
+        videoCaption: channelId ? undefined : 'closedCaption',
+        // 按发布时间过滤（增量更新）
+        publishedAfter: config.startDate?.toISOString(),
+        publishedBefore: config.endDate?.toISOString(),
+        relevanceLanguage: config.languages?.[0],
       },
     });
 
@@ -122,7 +164,8 @@ export class YouTubeCrawler extends BaseCrawler {
     if (!videoIds) return [];
 
     // 获取视频详情
-    const videosResponse = await axios.get(`${this.baseUrl}/videos`, {
+    const videosResponse = await http.get(`${this.baseUrl}/videos`, {
+      signal: this.signal,
       params: {
         key: this.apiKey,
         id: videoIds,
@@ -136,7 +179,8 @@ export class YouTubeCrawler extends BaseCrawler {
   private async getCaption(videoId: string): Promise<YouTubeCaption | null> {
     try {
       // 获取字幕列表
-      const captionsResponse = await axios.get(`${this.baseUrl}/captions`, {
+      const captionsResponse = await http.get(`${this.baseUrl}/captions`, {
+        signal: this.signal,
         params: {
           key: this.apiKey,
           videoId,
@@ -202,6 +246,12 @@ export class YouTubeCrawler extends BaseCrawler {
     const celebrityName = celebrity.name.toLowerCase();
 
     // 如果是名人自己的频道，优先级最高
+    if (
+      celebrity.identifiers?.youtubeChannelId &&
+      video.snippet.channelId === celebrity.identifiers.youtubeChannelId
+    ) {
+      return 1;
+    }
     if (
       channel.includes(celebrityName) ||
       celebrity.aliases.some((a) => channel.includes(a.toLowerCase()))
@@ -0,0 +1,93 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OpenAIAdapter } from '../openai';
+
+interface ChatRequest {
+  response_format?: { type: string };
+}
+
+function readBody(request: IncomingMessage): Promise<ChatRequest> {
+  return new Promise((resolve) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => resolve(JSON.parse(body)));
+  });
+}
+
+function completion(content: string) {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 0,
+    model: 'local-model',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+  };
+}
+
+// 本地的 OpenAI 兼容服务，带 response_format 的请求返回 jsonModeError
+function startServer(jsonModeError: { message: string; param?: string }) {
+  const requests: ChatRequest[] = [];
+  const server = createServer(async (request, response) => {
+    const body = await readBody(request);
+    requests.push(body);
+    response.setHeader('Content-Type', 'application/json');
+    if (body.response_format) {
+      response.statusCode = 400;
+      response.end(JSON.stringify({ error: { type: 'invalid_request_error', ...jsonModeError } }));
+      return;
+    }
+    response.end(JSON.stringify(completion('{"ok":true}')));
+  });
+  return { server, requests };
+}
+
+async function listen(server: Server): Promise<string> {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+}
+
+const messages = [{ role: 'user' as const, content: 'Reply in JSON.' }];
+
+describe('OpenAIAdapter.chatJSON', () => {
+  let server: Server | undefined;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise((resolve) => server?.close(resolve));
+    server = undefined;
+  });
+
+  it('falls back to plain chat when the server rejects response_format', async () => {
+    const started = startServer({
+      message: "'response_format' of type 'json_object' is not supported with this model",
+      param: 'response_format',
+    });
+    server = started.server;
+    const adapter = new OpenAIAdapter('', 'local-model', { baseURL: await listen(server) });
+
+    expect(await adapter.chatJSON(messages)).toBe('{"ok":true}');
+    expect(await adapter.chatJSON(messages)).toBe('{"ok":true}');
+
+    // 只尝试一次 JSON 模式，之后直接用普通对话
+    expect(started.requests.map((request) => !!request.response_format)).toEqual([true, false, false]);
+  });
+
+  it('keeps JSON mode for unrelated bad requests', async () => {
+    const started = startServer({
+      message: "This model's maximum context length is 8192 tokens.",
+      param: 'messages',
+    });
+    server = started.server;
+    const adapter = new OpenAIAdapter('', 'local-model', { baseURL: await listen(server) });
+
+    await expect(adapter.chatJSON(messages)).rejects.toThrow('maximum context length');
+    await expect(adapter.chatJSON(messages)).rejects.toThrow('maximum context length');
+
+    expect(started.requests.map((request) => !!request.response_format)).toEqual([true, true]);
+  });
+});
@@ -1,12 +1,32 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { ChatMessage } from '@/types';
+import { ChatMessage, LLMUsage } from '@/types';
 import { ILLMAdapter } from './index';
 
+// Anthropic 只接受一个 system 参数：所有系统消息按顺序合并，其余作为对话消息
+function splitSystemMessages(messages: ChatMessage[]): {
+  system?: string;
+  conversationMessages: ChatMessage[];
+} {
+  const systemMessages = messages.filter((m) => m.role === 'system');
+  return {
+    system:
+      systemMessages.length > 0 ? systemMessages.map((m) => m.content).join('\n\n') : undefined,
+    conversationMessages: messages.filter((m) => m.role !== 'system'),
+  };
+}
+
 export class ClaudeAdapter implements ILLMAdapter {
   private client: Anthropic;
   private model: string;
+  private onUsage?: (usage: LLMUsage) => void;
 
-  constructor(apiKey: string, model?: string, baseURL?: string) {
+  constructor(
+    apiKey: string,
+    model?: string,
+    baseURL?: string,
+    // 每次调用完成后上报 token 用量
+    onUsage?: (usage: LLMUsage) => void
+  ) {
     // 支持自定义 API 代理
     // 优先使用环境变量中的 token，否则使用传入的 apiKey
     const token = process.env.ANTHROPIC_AUTH_TOKEN || apiKey;
@@ -28,35 +48,50 @@ export class ClaudeAdapter implements ILLMAdapter {
     this.client = new Anthropic(options);
     // 使用 Claude 4.5 Sonnet 作为默认模型
     this.model = model || 'claude-sonnet-4-20250514';
+    this.onUsage = onUsage;
+  }
+
+  private reportUsage(usage: Anthropic.Usage) {
+    this.onUsage?.({
+      provider: 'anthropic',
+      model: this.model,
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+    });
   }
 
   async chat(messages: ChatMessage[]): Promise<string> {
-    // 分离系统消息和对话消息
-    const systemMessage = messages.find((m) => m.role === 'system');
-    const conversationMessages = messages.filter((m) => m.role !== 'system');
+    const { system, conversationMessages } = splitSystemMessages(messages);
 
     const response = await this.client.messages.create({
       model: this.model,
       max_tokens: 4096,
-      system: systemMessage?.content,
+      system,
       messages: conversationMessages.map((m) => ({
         role: m.role as 'user' | 'assistant',
         content: m.content,
       })),
     });
 
+    this.reportUsage(response.usage);
     const textBlock = response.content.find((block) => block.type === 'text');
     return textBlock && 'text' in textBlock ? textBlock.text : '';
   }
 
+  async chatJSON(messages: ChatMessage[]): Promise<string> {
+    // 预填助手回复的开头 "{"，让模型直接输出 JSON 对象
+    const prefill = '{';
+    const response = await this.chat([...messages, { role: 'assistant', content: prefill }]);
+    return prefill + response;
+  }
+
   async *streamChat(messages: ChatMessage[]): AsyncGenerator<string> {
-    const systemMessage = messages.find((m) => m.role === 'system');
-    const conversationMessages = messages.filter((m) => m.role !== 'system');
+    const { system, conversationMessages } = splitSystemMessages(messages);
 
     const stream = this.client.messages.stream({
       model: this.model,
       max_tokens: 4096,
-      system: systemMessage?.content,
+      system,
       messages: conversationMessages.map((m) => ({
         role: m.role as 'user' | 'assistant',
         content: m.content,
@@ -71,5 +106,6 @@ export class ClaudeAdapter implements ILLMAdapter {
         yield event.delta.text;
       }
     }
+    this.reportUsage((await stream.finalMessage()).usage);
   }
 }
@@ -1,4 +1,4 @@
-import { ChatMessage, LLMConfig, LLMProvider } from '@/types';
+import { ChatMessage, LLMConfig, LLMProvider, LLMUsage } from '@/types';
 import { OpenAIAdapter } from './openai';
 import { ClaudeAdapter } from './claude';
 
@@ -6,15 +6,33 @@ import { ClaudeAdapter } from './claude';
 export interface ILLMAdapter {
   chat(messages: ChatMessage[]): Promise<string>;
   streamChat(messages: ChatMessage[]): AsyncGenerator<string>;
+  // 使用提供者的 JSON 模式对话，返回 JSON 文本（结构化输出见 generateStructured）
+  chatJSON(messages: ChatMessage[]): Promise<string>;
 }
 
-// 获取 LLM 适配器
-export function getLLMAdapter(config: LLMConfig): ILLMAdapter {
+export { generateStructured, extractJSON, StructuredOutputError } from './structured';
+export type { StructuredOutputOptions } from './structured';
+
+// 获取 LLM 适配器，onUsage 在每次调用完成后收到 token 用量（记录用量见 createTrackedLLMAdapter）
+export function getLLMAdapter(
+  config: LLMConfig,
+  onUsage?: (usage: LLMUsage) => void
+): ILLMAdapter {
   switch (config.provider) {
     case 'openai':
-      return new OpenAIAdapter(config.apiKey, config.model);
+      return new OpenAIAdapter(config.apiKey, config.model, { onUsage });
     case 'anthropic':
-      return new ClaudeAdapter(config.apiKey, config.model);
+      return new ClaudeAdapter(config.apiKey, config.model, undefined, onUsage);
+    case 'openai-compatible':
+      if (!config.baseUrl || !config.model) {
+        throw new Error('兼容 OpenAI 的服务需要配置接口地址和模型名称');
+      }
+      return new OpenAIAdapter(config.apiKey, config.model, {
+        baseURL: config.baseUrl,
+        authHeader: config.authHeader,
+        provider: 'openai-compatible',
+        onUsage,
+      });
     default:
       throw new Error(`不支持的 LLM 提供者: ${config.provider}`);
   }
@@ -39,22 +57,53 @@ export const CELEBRITY_IDENTIFICATION_PROMPT = `你是一个专业的名人信
 2. 提供该名人的基本信息确认身份
 3. 列出该名人可能用到的其他名字/别名
 
-请用JSON格式回复，格式如下：
+请先用自然语言直接回复用户（确认身份或询问更多信息，这部分会实时展示给用户），
+然后在回复的最后输出用 <confirmation></confirmation> 包裹的JSON（不要放在代码块中），格式如下：
+<confirmation>
 {
   "confirmed": true/false,
   "celebrity": {
     "name": "完整名字",
     "aliases": ["别名1", "别名2"],
     "description": "简短描述（职业、主要成就等）",
-    "disambiguation": "如果有同名情况，解释区分"
-  },
-  "message": "给用户的确认消息"
+    "disambiguation": "如果有同名情况，解释区分",
+    "identifiers": {
+      "twitterHandle": "Twitter/X 用户名（不含 @）",
+      "youtubeChannelId": "YouTube 频道 ID（UC 开头）",
+      "wikidataId": "Wikidata QID（如 Q317521）",
+      "isni": "ISNI（16 位）",
+      "openLibraryAuthorKey": "Open Library 作者 key（如 OL23919A）",
+      "website": "官方网站或个人博客地址"
+    }
+  }
 }
+</confirmation>
+
+identifiers 中只填写你确定属于该名人本人的官方标识，不确定的字段请省略，不要猜测。
+如果无法确定是哪位名人，请设置 confirmed 为 false，并在回复中询问更多信息。
+如果提供了 Wikidata 候选人物，请从候选中选择，并在 identifiers.wikidataId 中填写所选人物的 QID；
+多个候选都可能符合时，请设置 confirmed 为 false，在回复中列出候选（名字、出生年份、职业）请用户选择。`;
+
+// Wikidata 候选人物提示词，{candidates} 替换为候选列表
+export const WIKIDATA_CANDIDATES_PROMPT = `以下是 Wikidata 中与用户输入匹配的人物候选（按相关度排序）：
+{candidates}
+
+别名会以所选人物在 Wikidata 中的名称为准，aliases 可以省略。`;
 
-如果无法确定是哪位名人，请设置 confirmed 为 false，并在 message 中询问更多信息。`;
+// 引语核实系统提示词，{name} 替换为名人名称
+export const QUOTE_VERIFICATION_PROMPT = `你是一个新闻引语核实助手。下面是从一篇文章中提取的引语及其上下文，请判断每条引语是否确实是 {name} 本人说的或写的原话。
+
+以下情况不算本人原话：他人的话、对本人观点的转述或概括、文章标题、书名或作品名、引用的其他文章内容。
+
+请用JSON格式回复：
+{
+  "results": [
+    { "index": 1, "verified": true/false, "reason": "简短理由" }
+  ]
+}`;
 
 // 内容分类系统提示词
-export const CONTENT_CLASSIFICATION_PROMPT = `你是一个内容分类专家。请根据以下规则对内容进行分类：
+export const CONTENT_CLASSIFICATION_PROMPT = `你是一个内容分类专家。以下是关于 {name} 的若干条内容，请根据以下规则逐条分类：
 
 优先级规则：
 - P1 (权重1.0): 本人直接发言（社交媒体、采访、演讲）
@@ -63,11 +112,19 @@ export const CONTENT_CLASSIFICATION_PROMPT = `你是一个内容分类专家。
 - P4 (权重0.5): 综合信息（Wikipedia等）
 - P5 (权重0.3): 他人评价
 
-请分析内容并返回JSON格式：
+内容类型从以下取值中选择：{types}
+isSelfExpression 表示内容是否为 {name} 本人的表达（本人发言或本人作品）。
+
+请返回JSON格式，results 中每条对应一条内容（index 为内容编号）：
 {
-  "priority": 1-5,
-  "weight": 0.0-1.0,
-  "type": "内容类型",
-  "isSelfExpression": true/false,
-  "summary": "内容摘要（50字以内）"
+  "results": [
+    {
+      "index": 1,
+      "priority": 1-5,
+      "weight": 0.0-1.0,
+      "type": "内容类型",
+      "isSelfExpression": true/false,
+      "summary": "内容摘要（50字以内）"
+    }
+  ]
 }`;
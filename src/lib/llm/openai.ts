@@ -1,14 +1,58 @@
 import OpenAI from 'openai';
-import { ChatMessage } from '@/types';
+import { ChatMessage, LLMProvider, LLMUsage } from '@/types';
 import { ILLMAdapter } from './index';
 
+// 不支持 JSON 模式的兼容服务返回的 400 错误（其他 400 错误如上下文超长不应关闭 JSON 模式）
+const RESPONSE_FORMAT_ERROR_PATTERN = /response_format|json_object/i;
+
+export interface OpenAIAdapterOptions {
+  // 兼容 OpenAI 接口的服务地址
+  baseURL?: string;
+  // 鉴权请求头名称，不是 Authorization 时直接发送 apiKey
+  authHeader?: string;
+  // 用量记录中的提供者名称（默认 openai）
+  provider?: LLMProvider;
+  // 每次调用完成后上报 token 用量
+  onUsage?: (usage: LLMUsage) => void;
+}
+
 export class OpenAIAdapter implements ILLMAdapter {
   private client: OpenAI;
   private model: string;
+  private provider: LLMProvider;
+  private onUsage?: (usage: LLMUsage) => void;
+  // 官方接口支持在流式响应末尾返回用量，兼容服务不一定支持该参数
+  private streamUsage: boolean;
+  // 兼容服务不支持 response_format 时记下，之后的 JSON 请求改用普通对话
+  private jsonModeUnsupported = false;
+
+  constructor(apiKey: string, model?: string, options: OpenAIAdapterOptions = {}) {
+    const { baseURL, authHeader, provider = 'openai', onUsage } = options;
+    const customHeader = !!authHeader && authHeader.toLowerCase() !== 'authorization';
 
-  constructor(apiKey: string, model?: string) {
-    this.client = new OpenAI({ apiKey });
+    this.client = new OpenAI({
+      // SDK 要求 apiKey 非空，不需要鉴权的自建服务使用占位值并去掉 Authorization 头
+      apiKey: apiKey || 'none',
+      baseURL,
+      defaultHeaders: {
+        ...((!apiKey || customHeader) && { Authorization: null }),
+        ...(apiKey && customHeader && { [authHeader]: apiKey }),
+      },
+    });
     this.model = model || 'gpt-4-turbo-preview';
+    this.provider = provider;
+    this.onUsage = onUsage;
+    this.streamUsage = !baseURL;
+  }
+
+  private reportUsage(usage: OpenAI.CompletionUsage | null | undefined) {
+    if (!usage || !this.onUsage) return;
+    this.onUsage({
+      provider: this.provider,
+      model: this.model,
+      inputTokens: usage.prompt_tokens,
+      outputTokens: usage.completion_tokens,
+    });
   }
 
   async chat(messages: ChatMessage[]): Promise<string> {
@@ -21,9 +65,39 @@ export class OpenAIAdapter implements ILLMAdapter {
       temperature: 0.7,
     });
 
+    this.reportUsage(response.usage);
     return response.choices[0]?.message?.content || '';
   }
 
+  async chatJSON(messages: ChatMessage[]): Promise<string> {
+    if (!this.jsonModeUnsupported) {
+      try {
+        const response = await this.client.chat.completions.create({
+          model: this.model,
+          messages: messages.map((m) => ({
+            role: m.role as 'user' | 'assistant' | 'system',
+            content: m.content,
+          })),
+          temperature: 0.7,
+          // JSON 模式要求消息中包含 "JSON" 字样，结构化输出的提示词都已满足
+          response_format: { type: 'json_object' },
+        });
+        this.reportUsage(response.usage);
+        return response.choices[0]?.message?.content || '';
+      } catch (error) {
+        if (
+          !(error instanceof OpenAI.BadRequestError) ||
+          !(error.param === 'response_format' || RESPONSE_FORMAT_ERROR_PATTERN.test(error.message))
+        ) {
+          throw error;
+        }
+        console.warn('JSON 模式请求失败，改用普通对话:', error.message);
+        this.jsonModeUnsupported = true;
+      }
+    }
+    return this.chat(messages);
+  }
+
   async *streamChat(messages: ChatMessage[]): AsyncGenerator<string> {
     const stream = await this.client.chat.completions.create({
       model: this.model,
@@ -33,9 +107,12 @@ export class OpenAIAdapter implements ILLMAdapter {
       })),
       temperature: 0.7,
       stream: true,
+      ...(this.streamUsage && { stream_options: { include_usage: true } }),
     });
 
     for await (const chunk of stream) {
+      // 用量在最后一个 chunk 中（choices 为空）
+      this.reportUsage(chunk.usage);
       const content = chunk.choices[0]?.delta?.content;
       if (content) {
         yield content;
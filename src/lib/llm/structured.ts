@@ -0,0 +1,114 @@
+/**
+ * 结构化输出
+ * 使用提供者的 JSON 模式调用 LLM，按 zod schema 校验结果，校验失败时把错误告诉模型重新生成
+ */
+
+import { z } from 'zod';
+import { ChatMessage } from '@/types';
+import type { ILLMAdapter } from './index';
+
+// 默认的修正次数（不含首次调用）
+const DEFAULT_MAX_REPAIRS = 1;
+// 修正提示中最多列出的错误数
+const MAX_REPORTED_ISSUES = 10;
+
+export interface StructuredOutputOptions {
+  maxRepairs?: number;
+  // 已有的模型输出（如流式回复中的确认信息），提供时先校验它，不合法再请求修正
+  initialResponse?: string;
+}
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    // 最后一次输出的校验错误
+    readonly issues: string[],
+    // 最后一次输出的原文
+    readonly response: string
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * 从模型输出中取出 JSON：兼容代码块包裹和前后多余的文字
+ */
+export function extractJSON(response: string): unknown {
+  const text = response
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+  try {
+    return JSON.parse(text);
+  } catch {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start < 0 || end <= start) throw new Error('输出中没有 JSON 对象');
+    return JSON.parse(text.slice(start, end + 1));
+  }
+}
+
+function validate<T>(
+  response: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): { data: T } | { issues: string[] } {
+  let value: unknown;
+  try {
+    value = extractJSON(response);
+  } catch (error) {
+    return { issues: [`JSON 解析失败: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const parsed = schema.safeParse(value);
+  if (parsed.success) return { data: parsed.data };
+  return {
+    issues: parsed.error.issues.map(
+      (issue) => `${issue.path.join('.') || '(根)'} ${issue.message}`
+    ),
+  };
+}
+
+function repairPrompt(issues: string[]): string {
+  const listed = issues.slice(0, MAX_REPORTED_ISSUES).map((issue) => `- ${issue}`);
+  if (issues.length > MAX_REPORTED_ISSUES) {
+    listed.push(`- 另有 ${issues.length - MAX_REPORTED_ISSUES} 处错误`);
+  }
+  return `你上一次输出的 JSON 不符合要求：\n${listed.join('\n')}\n\n请按最初要求的格式重新输出完整的 JSON，只输出 JSON，不要包含其他文字。`;
+}
+
+/**
+ * 调用 LLM 生成符合 schema 的 JSON，校验失败时最多修正 maxRepairs 次
+ * 仍不合法或调用失败时抛出错误（校验失败为 StructuredOutputError）
+ */
+export async function generateStructured<T>(
+  adapter: ILLMAdapter,
+  messages: ChatMessage[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: StructuredOutputOptions = {}
+): Promise<T> {
+  const { maxRepairs = DEFAULT_MAX_REPAIRS, initialResponse } = options;
+  const conversation = [...messages];
+
+  let response = initialResponse ?? (await adapter.chatJSON(conversation));
+  let attempts = 0;
+  for (;;) {
+    const result = validate(response, schema);
+    if ('data' in result) return result.data;
+
+    if (attempts >= maxRepairs) {
+      throw new StructuredOutputError(
+        `LLM 输出不符合格式要求（已修正 ${attempts} 次）: ${result.issues.slice(0, 3).join('；')}`,
+        result.issues,
+        response
+      );
+    }
+
+    attempts++;
+    conversation.push(
+      { role: 'assistant', content: response },
+      { role: 'user', content: repairPrompt(result.issues) }
+    );
+    response = await adapter.chatJSON(conversation);
+  }
+}
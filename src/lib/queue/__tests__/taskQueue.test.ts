@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type Row = Record<string, unknown>;
+
+// 内存中的 CrawlTask 表，只实现队列用到的查询条件（等值、lt、in、OR）和 increment / decrement
+const db = vi.hoisted(() => {
+  const rows: Row[] = [];
+  let nextId = 1;
+
+  const matches = (row: Row, where: Row = {}): boolean =>
+    Object.entries(where).every(([key, condition]) => {
+      if (key === 'OR') return (condition as Row[]).some((branch) => matches(row, branch));
+      const value = row[key];
+      if (condition !== null && typeof condition === 'object' && !(condition instanceof Date)) {
+        const { lt, in: oneOf } = condition as { lt?: Date; in?: unknown[] };
+        if (lt !== undefined && !(value instanceof Date && value < lt)) return false;
+        if (oneOf !== undefined && !oneOf.includes(value)) return false;
+        return true;
+      }
+      return value === condition;
+    });
+
+  const apply = (row: Row, data: Row) => {
+    for (const [key, value] of Object.entries(data)) {
+      if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+        const { increment = 0, decrement = 0 } = value as { increment?: number; decrement?: number };
+        row[key] = (row[key] as number) + increment - decrement;
+      } else if (value !== undefined) {
+        row[key] = value;
+      }
+    }
+  };
+
+  const crawlTask = {
+    create: async ({ data }: { data: Row }) => {
+      const row: Row = {
+        id: `task-${nextId++}`,
+        progress: 0,
+        total: 0,
+        itemsCrawled: 0,
+        error: null,
+        checkpoint: null,
+        attempts: 0,
+        maxAttempts: 3,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        heartbeatAt: null,
+        startedAt: null,
+        completedAt: null,
+        createdAt: new Date(Date.now() + nextId),
+        updatedAt: new Date(),
+        ...data,
+      };
+      rows.push(row);
+      return { ...row };
+    },
+    findFirst: async ({ where }: { where?: Row }) => {
+      const found = rows
+        .filter((row) => matches(row, where))
+        .sort((a, b) => (a.createdAt as Date).getTime() - (b.createdAt as Date).getTime())[0];
+      return found ? { ...found } : null;
+    },
+    findUnique: async ({ where }: { where: Row }) => {
+      const found = rows.find((row) => row.id === where.id);
+      return found ? { ...found } : null;
+    },
+    findMany: async ({ where }: { where?: Row }) =>
+      rows.filter((row) => matches(row, where)).map((row) => ({ ...row })),
+    updateMany: async ({ where, data }: { where: Row; data: Row }) => {
+      const matched = rows.filter((row) => matches(row, where));
+      matched.forEach((row) => apply(row, data));
+      return { count: matched.length };
+    },
+  };
+
+  return {
+    rows,
+    crawlTask,
+    reset: () => {
+      rows.length = 0;
+      nextId = 1;
+    },
+  };
+});
+
+vi.mock('@/lib/db/prisma', () => ({ default: { crawlTask: db.crawlTask } }));
+
+import {
+  LEASE_DURATION_MS,
+  claimNextTask,
+  completeTask,
+  enqueueCrawlTasks,
+  parseTaskConfig,
+  releaseTask,
+  renewLease,
+  retryTask,
+} from '../taskQueue';
+import type { CrawlTaskRecord } from '../taskQueue';
+
+function row(id: string): Row {
+  return db.rows.find((item) => item.id === id)!;
+}
+
+describe('task queue', () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('claims pending tasks in creation order and leases them to the worker', async () => {
+    const [first, second] = await enqueueCrawlTasks('celebrity-1', ['wikipedia', 'news']);
+
+    const claimed = await claimNextTask('worker-a');
+
+    expect(claimed?.id).toBe(first.id);
+    expect(claimed?.status).toBe('running');
+    expect(claimed?.attempts).toBe(1);
+    expect(claimed?.leaseOwner).toBe('worker-a');
+    expect((claimed?.leaseExpiresAt as Date).getTime()).toBeGreaterThan(Date.now());
+    expect(row(second.id).status).toBe('pending');
+
+    // 租约有效期内不会被其他 worker 领取
+    const next = await claimNextTask('worker-b');
+    expect(next?.id).toBe(second.id);
+    expect(await claimNextTask('worker-c')).toBeNull();
+  });
+
+  it('reclaims running tasks whose lease has expired', async () => {
+    const [task] = await enqueueCrawlTasks('celebrity-1', ['wikipedia']);
+    await claimNextTask('worker-a');
+    row(task.id).leaseExpiresAt = new Date(Date.now() - 1000);
+
+    const reclaimed = await claimNextTask('worker-b');
+
+    expect(reclaimed?.id).toBe(task.id);
+    expect(reclaimed?.leaseOwner).toBe('worker-b');
+    expect(reclaimed?.attempts).toBe(2);
+    // 原 worker 的心跳发现租约已丢失
+    expect(await renewLease(task.id, 'worker-a')).toBe(false);
+    expect(await renewLease(task.id, 'worker-b')).toBe(true);
+  });
+
+  it('fails tasks that exceeded the maximum number of attempts', async () => {
+    const [task] = await enqueueCrawlTasks('celebrity-1', ['wikipedia']);
+    Object.assign(row(task.id), {
+      status: 'running',
+      attempts: 3,
+      leaseExpiresAt: new Date(Date.now() - LEASE_DURATION_MS),
+    });
+
+    expect(await claimNextTask('worker-a')).toBeNull();
+    expect(row(task.id).status).toBe('failed');
+    expect(row(task.id).error).toContain('超过最大尝试次数');
+  });
+
+  it('puts released tasks back without counting the attempt', async () => {
+    const [task] = await enqueueCrawlTasks('celebrity-1', ['wikipedia']);
+    await claimNextTask('worker-a');
+
+    // 不是租约持有者时不能释放
+    await releaseTask(task.id, 'worker-b');
+    expect(row(task.id).status).toBe('running');
+
+    await releaseTask(task.id, 'worker-a');
+    expect(row(task.id)).toMatchObject({
+      status: 'pending',
+      attempts: 0,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+    });
+
+    const reclaimed = await claimNextTask('worker-b');
+    expect(reclaimed?.attempts).toBe(1);
+  });
+
+  it('only retries failed tasks and keeps completed ones', async () => {
+    const [failed, completed] = await enqueueCrawlTasks('celebrity-1', ['wikipedia', 'news']);
+    await claimNextTask('worker-a');
+    await claimNextTask('worker-a');
+    Object.assign(row(failed.id), { status: 'failed', error: 'boom', leaseOwner: null });
+    await completeTask(completed.id, 'worker-a', 5);
+
+    expect(await retryTask(failed.id)).toBe(true);
+    expect(row(failed.id)).toMatchObject({ status: 'pending', attempts: 0, error: null });
+    expect(await retryTask(completed.id)).toBe(false);
+    expect(row(completed.id)).toMatchObject({ status: 'completed', itemsCrawled: 5 });
+  });
+
+  it('encrypts API keys in the persisted config', async () => {
+    vi.stubEnv('CONFIG_ENCRYPTION_KEY', 'test-secret');
+    const [task] = await enqueueCrawlTasks('celebrity-1', ['twitter'], {
+      twitter: { apiKey: 'twitter-key', llm: { provider: 'openai', apiKey: 'sk-llm' } },
+    });
+
+    const stored = row(task.id).config as string;
+    expect(stored).not.toContain('twitter-key');
+    expect(stored).not.toContain('sk-llm');
+
+    const config = parseTaskConfig(row(task.id) as unknown as CrawlTaskRecord);
+    expect(config.apiKey).toBe('twitter-key');
+    expect(config.llm?.apiKey).toBe('sk-llm');
+  });
+
+  it('does not persist API keys when no encryption key is configured', async () => {
+    vi.stubEnv('CONFIG_ENCRYPTION_KEY', '');
+    const [task] = await enqueueCrawlTasks('celebrity-1', ['twitter'], {
+      twitter: { apiKey: 'twitter-key', maxItems: 10 },
+    });
+
+    const config = parseTaskConfig(row(task.id) as unknown as CrawlTaskRecord);
+    expect(row(task.id).config).not.toContain('twitter-key');
+    expect(config.apiKey).toBeUndefined();
+    expect(config.maxItems).toBe(10);
+  });
+});
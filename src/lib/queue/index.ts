@@ -0,0 +1,19 @@
+export {
+  enqueueCrawlTasks,
+  claimNextTask,
+  renewLease,
+  completeTask,
+  failTask,
+  releaseTask,
+  retryTask,
+  cancelTasks,
+  getTaskStatus,
+  getLastCompletedAt,
+  LEASE_DURATION_MS,
+  HEARTBEAT_INTERVAL_MS,
+} from './taskQueue';
+export type { CrawlTaskConfig, CrawlTaskRecord } from './taskQueue';
+export { runCrawlTask } from './runner';
+export { drainQueue, kickWorker, startWorkerLoop, getWorkerId, abortLocalTask } from './worker';
+export { runDueSchedules, startScheduler, parseScheduleSources } from './scheduler';
+export type { CrawlScheduleRecord } from './scheduler';
@@ -0,0 +1,344 @@
+/**
+ * 单个爬取任务的执行逻辑
+ */
+
+import { Celebrity, CrawlerConfig, DataSource, LLMConfig } from '@/types';
+import {
+  ensureCrawlerPluginsLoaded,
+  getApiKeyForSource,
+  getCrawler,
+  getCrawlerPlugin,
+} from '@/lib/crawlers';
+import { DEFAULT_MAX_ITEMS } from '@/lib/crawlers/options';
+import prisma from '@/lib/db/prisma';
+import { createCrawlLogger } from '@/lib/utils/crawlLogger';
+import { createContentIngestor } from '@/lib/utils/contentIngestor';
+import { createQuoteExtractor, shouldExtractQuotes } from '@/lib/utils/quoteExtractor';
+import { classifyContents } from '@/lib/utils/contentClassification';
+import { createTrackedLLMAdapter, getLLMUsageTotals } from '@/lib/utils/llmUsage';
+import { parseCelebrityIdentifiers } from '@/lib/utils/identifiers';
+import {
+  CrawlTaskRecord,
+  completeTask,
+  failTask,
+  getLastCompletedAt,
+  getTaskStatus,
+  parseTaskCheckpoint,
+  parseTaskConfig,
+  releaseTask,
+  updateTaskProgress,
+} from './taskQueue';
+
+// 中断原因：deadline 表示 worker 到达截止时间，lease_lost 表示租约已被其他 worker 接管，
+// cancelled 表示任务被用户取消
+export type StopReason = 'deadline' | 'lease_lost' | 'cancelled';
+
+export interface TaskRunContext {
+  workerId: string;
+  // 任务取消或租约丢失时中止，传给爬虫以停止网络请求
+  signal: AbortSignal;
+  // 每处理完一条数据检查一次，返回非空表示需要中断
+  shouldStop: () => StopReason | null;
+}
+
+// 各 LLM 提供者在环境变量中的 API Key
+const LLM_API_KEY_ENV: Partial<Record<LLMConfig['provider'], string>> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+};
+
+function withEnvApiKey(llm: LLMConfig): LLMConfig {
+  if (llm.apiKey) return llm;
+  const envName = LLM_API_KEY_ENV[llm.provider];
+  return { ...llm, apiKey: (envName && process.env[envName]) || '' };
+}
+
+/**
+ * 执行一个已领取的爬取任务
+ */
+export async function runCrawlTask(
+  task: CrawlTaskRecord,
+  context: TaskRunContext
+): Promise<void> {
+  const { workerId, signal, shouldStop } = context;
+  const source = task.source as DataSource;
+  const logger = createCrawlLogger(task.id);
+  // 插件目录中的爬虫需要先加载，才能按数据源找到对应的爬虫
+  await ensureCrawlerPluginsLoaded();
+  const plugin = getCrawlerPlugin(source);
+  const sourceName = plugin?.name || source;
+  let itemsCrawled = 0;
+
+  // 处理中断，返回 true 表示任务已中断
+  const handleStop = async (reason: StopReason | null): Promise<boolean> => {
+    switch (reason) {
+      case 'cancelled':
+        await logger.warn(`⏹️ ${sourceName} 爬取已停止，共获取 ${itemsCrawled} 条数据`, { itemsCrawled });
+        return true;
+      case 'lease_lost':
+        await logger.warn(`⚠️ 租约已丢失，任务将由其他 worker 接管`);
+        return true;
+      case 'deadline':
+        await releaseTask(task.id, workerId);
+        await logger.warn(`⏸️ 已达到执行时限，任务放回队列等待继续`, { itemsCrawled });
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  try {
+    const dbCelebrity = await prisma.celebrity.findUnique({
+      where: { id: task.celebrityId },
+    });
+    if (!dbCelebrity) {
+      throw new Error('名人不存在');
+    }
+
+    const celebrity: Celebrity = {
+      id: dbCelebrity.id,
+      name: dbCelebrity.name,
+      aliases: JSON.parse(dbCelebrity.aliases),
+      description: dbCelebrity.description || undefined,
+      imageUrl: dbCelebrity.imageUrl || undefined,
+      identifiers: parseCelebrityIdentifiers(dbCelebrity.identifiers),
+    };
+
+    const {
+      apiKey: storedApiKey,
+      mode = 'full',
+      maxItems = DEFAULT_MAX_ITEMS,
+      startDate: optionStartDate,
+      endDate,
+      languages,
+      queryTemplates,
+      settings,
+      extractQuotes = true,
+      verifyQuotes = false,
+      classification = 'rule',
+      llm: storedLLM,
+      crawlId,
+      llmBudget,
+    } = parseTaskConfig(task);
+    // 任务配置中没有保存（或无法解密）的 Key 从环境变量读取
+    const apiKey = storedApiKey || getApiKeyForSource(source, process.env);
+    const llm = storedLLM && withEnvApiKey(storedLLM);
+    const hasApiKey = !!apiKey && apiKey.trim().length > 0;
+
+    if (plugin?.capabilities.needsKey && !hasApiKey) {
+      throw new Error(`${sourceName} 需要配置 API Key`);
+    }
+
+    // 根据是否有 API Key 选择爬虫（有 Key 用 API 爬虫，无 Key 用公开爬虫）
+    const crawler = getCrawler(source, hasApiKey);
+
+    // 如果有检查点，从上次中断处继续（不支持续爬的爬虫从头开始，已入库的内容会被去重）
+    const checkpoint = plugin?.capabilities.supportsResume ? parseTaskCheckpoint(task) : undefined;
+
+    // 增量更新：只爬取上次成功爬取之后发布的内容（与用户指定的开始日期取较晚者）
+    const lastCompletedAt =
+      mode === 'update' ? await getLastCompletedAt(task.celebrityId, source) : null;
+    const optionStart = optionStartDate ? new Date(optionStartDate) : undefined;
+    const startDate =
+      lastCompletedAt && (!optionStart || lastCompletedAt > optionStart) ? lastCompletedAt : optionStart;
+
+    // 构建爬虫配置
+    const config: CrawlerConfig = {
+      source,
+      apiKey: hasApiKey ? apiKey : undefined,
+      maxItems,
+      startDate,
+      endDate: endDate ? new Date(endDate) : undefined,
+      languages,
+      queryTemplates,
+      settings,
+      checkpoint,
+    };
+
+    // 验证配置
+    if (!crawler.validateConfig(config)) {
+      await logger.error(`${source} 配置无效`);
+      throw new Error(`${source} 配置无效`);
+    }
+
+    if (task.attempts > 1) {
+      await logger.warn(`🔁 第 ${task.attempts} 次尝试，任务已被重新领取`);
+    }
+    await logger.info(`🚀 开始爬取 ${sourceName}`, { mode: hasApiKey ? 'API模式' : '公开模式' });
+    await logger.info(`🔍 搜索关键词: ${celebrity.name}`, { aliases: celebrity.aliases });
+    if (lastCompletedAt && startDate === lastCompletedAt) {
+      await logger.info(`🆕 增量更新：只爬取 ${startDate.toISOString()} 之后的内容`);
+    } else if (mode === 'update' && !lastCompletedAt) {
+      await logger.info(`🆕 该数据源没有成功爬取的记录，执行全量爬取`);
+    }
+    if (config.startDate || config.endDate || languages || queryTemplates || settings) {
+      await logger.info(`⚙️ 爬取选项`, {
+        maxItems,
+        startDate: config.startDate?.toISOString(),
+        endDate: config.endDate?.toISOString(),
+        languages,
+        queryTemplates,
+        settings,
+      });
+    }
+    if ((config.startDate || config.endDate) && !plugin?.capabilities.supportsDateFilter) {
+      await logger.warn(`⚠️ ${sourceName} 不支持按发布时间过滤，将忽略时间范围`);
+    }
+
+    // 续爬时沿用已爬取的条目数
+    itemsCrawled = checkpoint ? task.itemsCrawled : 0;
+    if (checkpoint) {
+      await logger.info(`⏯️ 从检查点继续爬取，已有 ${itemsCrawled} 条数据`);
+    }
+
+    const ingestor = createContentIngestor(task.celebrityId, task.id);
+    // LLM 用量按阶段记录到本任务和爬取批次，超出批次预算后各阶段停止调用
+    const usageScope = { celebrityId: task.celebrityId, taskId: task.id, crawlId };
+    const quoteAdapter =
+      llm && verifyQuotes
+        ? createTrackedLLMAdapter(llm, 'quote_verification', usageScope, llmBudget)
+        : undefined;
+    const classificationAdapter = llm
+      ? createTrackedLLMAdapter(llm, 'classification', usageScope, llmBudget)
+      : undefined;
+    let budgetWarned = false;
+    const warnBudgetExceeded = async () => {
+      if (budgetWarned) return;
+      budgetWarned = true;
+      await logger.warn(`💸 LLM 预算已用尽，停止引语核实和 LLM 分类`, {
+        budget: llmBudget,
+        ...(crawlId && (await getLLMUsageTotals({ crawlId }))),
+      });
+    };
+    const quoteExtractor = extractQuotes
+      ? createQuoteExtractor(celebrity, { adapter: quoteAdapter })
+      : null;
+
+    // 执行爬取
+    for await (const item of crawler.crawl(celebrity, config, signal)) {
+      // 保存到数据库（已有相同内容时合并到已有记录）
+      const result = await ingestor.ingest(item);
+
+      itemsCrawled++;
+
+      // 记录每条数据 - 更详细的信息
+      const contentPreview = item.content.slice(0, 50).replace(/\n/g, ' ');
+      if (result.status === 'created') {
+        await logger.info(`📄 [${itemsCrawled}] ${item.title || item.type}`, {
+          type: item.type,
+          source: item.source,
+          url: item.sourceUrl,
+          preview: contentPreview,
+          priority: `P${item.priority}`,
+        });
+
+        // 从第三方文章中提取本人引语（引语不计入爬取条目数）
+        if (quoteExtractor && shouldExtractQuotes(item)) {
+          const quotes = await quoteExtractor.extract(item, result.contentId);
+          let created = 0;
+          for (const quote of quotes) {
+            if ((await ingestor.ingest(quote)).status === 'created') created++;
+          }
+          if (quotes.length > 0) {
+            await logger.info(`💬 提取到 ${quotes.length} 条引语`, {
+              created,
+              verified: quotes.filter((quote) => quote.metadata?.verified).length,
+            });
+          }
+          if (quoteAdapter?.budgetExceeded) await warnBudgetExceeded();
+        }
+      } else {
+        await logger.info(`🔁 [${itemsCrawled}] 重复内容，已合并: ${item.title || item.type}`, {
+          type: item.type,
+          url: item.sourceUrl,
+          matchType: result.matchType,
+          similarity: result.similarity,
+          updated: result.status === 'updated',
+        });
+      }
+
+      // 更新进度和检查点（同时续约）
+      const stillOwned = await updateTaskProgress(
+        task.id,
+        workerId,
+        itemsCrawled,
+        crawler.getCheckpoint?.()
+      );
+      const stopReason = stillOwned ? shouldStop() : await resolveLostReason(task.id);
+      if (await handleStop(stopReason)) return;
+    }
+
+    // 爬虫可能在请求被中止后提前结束，此时不能标记为完成
+    if (await handleStop(signal.aborted ? (signal.reason as StopReason) : null)) return;
+
+    // 分类阶段：本任务入库或合并的内容按分类模式分类（任务被放回队列后重新执行时跳过已分类的内容）
+    const sightings = await prisma.contentSighting.findMany({
+      where: { taskId: task.id },
+      select: { contentId: true },
+    });
+    if (classification !== 'rule') {
+      await logger.info(`🏷️ 开始内容分类（${classification === 'llm' ? 'LLM' : '规则 + LLM'}）`, {
+        total: sightings.length,
+      });
+    }
+    let stopReason: StopReason | null = null;
+    const stats = await classifyContents(
+      celebrity,
+      sightings.map((sighting) => sighting.contentId),
+      {
+        mode: classification,
+        adapter: classificationAdapter,
+        llm,
+        onBatch: async () => {
+          const stillOwned = await updateTaskProgress(
+            task.id,
+            workerId,
+            itemsCrawled,
+            crawler.getCheckpoint?.()
+          );
+          stopReason = stillOwned ? shouldStop() : await resolveLostReason(task.id);
+          return stopReason !== null;
+        },
+      }
+    );
+    if (await handleStop(stopReason)) return;
+    if (stats.llm > 0 || stats.failed > 0) {
+      await logger.info(`🏷️ 内容分类完成`, { ...stats });
+    }
+    if (stats.failed > 0) {
+      await logger.warn(`⚠️ ${stats.failed} 条内容 LLM 分类失败，保留规则分类结果`);
+    }
+    if (stats.budgetExceeded) await warnBudgetExceeded();
+    if (llm) {
+      const usage = await getLLMUsageTotals({ taskId: task.id });
+      if (usage.calls > 0) {
+        await logger.info(`🧮 LLM 用量：${usage.calls} 次调用，${usage.inputTokens + usage.outputTokens} token`, {
+          ...usage,
+        });
+      }
+    }
+
+    // 标记完成
+    await completeTask(task.id, workerId, itemsCrawled);
+
+    await logger.success(`🎉 ${sourceName} 爬取完成！共获取 ${itemsCrawled} 条数据`, { total: itemsCrawled });
+  } catch (error) {
+    // 请求因取消被中止而抛出的错误不算失败
+    if (signal.aborted && (await handleStop(signal.reason as StopReason))) return;
+
+    const errorMessage = error instanceof Error ? error.message : '未知错误';
+    await logger.error(`❌ 爬取失败: ${errorMessage}`);
+    await logger.warn(`💡 提示: 如果是网络问题，请检查网络连接或稍后重试`);
+    console.error(`爬取 ${source} 失败:`, error);
+
+    // 标记失败
+    await failTask(task.id, workerId, errorMessage);
+  }
+}
+
+/**
+ * 进度更新失败时，判断是任务被取消还是租约被接管
+ */
+async function resolveLostReason(taskId: string): Promise<StopReason> {
+  return (await getTaskStatus(taskId)) === 'cancelled' ? 'cancelled' : 'lease_lost';
+}
@@ -0,0 +1,116 @@
+/**
+ * 定时爬取调度器
+ * 定期检查到期的 CrawlSchedule，为其创建爬取任务并计算下一次执行时间
+ */
+
+import type { CrawlSchedule as CrawlScheduleRecord } from '@prisma/client';
+import prisma from '@/lib/db/prisma';
+import { getNextRun } from '@/lib/utils/cron';
+import { CrawlMode, DataSource } from '@/types';
+import { enqueueCrawlTasks } from './taskQueue';
+import { kickWorker } from './worker';
+
+// 检查到期计划的间隔
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+export type { CrawlScheduleRecord };
+
+const globalForScheduler = globalThis as unknown as {
+  crawlSchedulerTimer: ReturnType<typeof setInterval> | undefined;
+};
+
+/**
+ * 解析计划的数据源列表
+ */
+export function parseScheduleSources(schedule: CrawlScheduleRecord): DataSource[] {
+  try {
+    return JSON.parse(schedule.sources) as DataSource[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 执行一个到期的计划：先抢占（更新 nextRunAt），成功后再入队，
+ * 保证多个进程同时检查时同一次执行只入队一次
+ * @returns 创建的任务数，计划已被其他进程执行时返回 0
+ */
+async function runSchedule(schedule: CrawlScheduleRecord, now: Date): Promise<number> {
+  const { count } = await prisma.crawlSchedule.updateMany({
+    where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+    data: { lastRunAt: now, nextRunAt: getNextRun(schedule.cron, now) },
+  });
+  if (count === 0) return 0;
+
+  // 上一次的任务还没执行完的数据源本次跳过，避免任务堆积
+  const busy = await prisma.crawlTask.findMany({
+    where: {
+      celebrityId: schedule.celebrityId,
+      status: { in: ['pending', 'running'] },
+    },
+    select: { source: true },
+  });
+  const busySources = new Set(busy.map((task) => task.source));
+  const sources = parseScheduleSources(schedule).filter((source) => !busySources.has(source));
+  if (sources.length === 0) return 0;
+
+  // 定时任务没有用户参与，API Key 由 worker 执行时从环境变量读取
+  const tasks = await enqueueCrawlTasks(
+    schedule.celebrityId,
+    sources,
+    Object.fromEntries(
+      sources.map((source) => [
+        source,
+        {
+          mode: schedule.mode as CrawlMode,
+          maxItems: schedule.maxItems,
+        },
+      ])
+    )
+  );
+
+  console.log(`[Scheduler] 计划 ${schedule.id.slice(0, 8)} 已创建 ${tasks.length} 个爬取任务`);
+  return tasks.length;
+}
+
+/**
+ * 为所有到期的计划创建爬取任务
+ * @returns 创建的任务数
+ */
+export async function runDueSchedules(now: Date = new Date()): Promise<number> {
+  const schedules = await prisma.crawlSchedule.findMany({
+    where: { enabled: true, nextRunAt: { lte: now } },
+  });
+
+  let enqueued = 0;
+  for (const schedule of schedules) {
+    try {
+      enqueued += await runSchedule(schedule, now);
+    } catch (error) {
+      console.error(`[Scheduler] 执行计划 ${schedule.id} 失败:`, error);
+    }
+  }
+
+  return enqueued;
+}
+
+/**
+ * 启动进程内调度器（长驻进程中使用，如 next start）
+ */
+export function startScheduler(): void {
+  if (globalForScheduler.crawlSchedulerTimer) return;
+
+  const tick = async () => {
+    try {
+      if ((await runDueSchedules()) > 0) {
+        kickWorker();
+      }
+    } catch (error) {
+      console.error('[Scheduler] 检查定时计划出错:', error);
+    }
+  };
+
+  tick();
+  globalForScheduler.crawlSchedulerTimer = setInterval(tick, SCHEDULER_INTERVAL_MS);
+  console.log('[Scheduler] 定时爬取调度器已启动');
+}
@@ -0,0 +1,371 @@
+/**
+ * 爬取任务队列
+ * 以 CrawlTask 表作为持久化队列，通过租约 + 心跳保证任务在进程重启或超时后可被重新领取
+ */
+
+import type { CrawlTask as CrawlTaskRecord } from '@prisma/client';
+import prisma from '@/lib/db/prisma';
+import {
+  hasCrawlEventSubscribers,
+  publishCrawlEvent,
+  toCrawlTaskEvent,
+} from '@/lib/utils/crawlEvents';
+import { decryptSecret, encryptSecret } from '@/lib/utils/secrets';
+import {
+  ClassificationMode,
+  CrawlCheckpoint,
+  CrawlMode,
+  CrawlSourceOptions,
+  DataSource,
+  LLMBudget,
+  LLMConfig,
+} from '@/types';
+
+// 租约时长：超过该时间没有心跳，任务视为孤儿任务
+export const LEASE_DURATION_MS = 60 * 1000;
+
+// 心跳间隔
+export const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+// 任务配置（持久化在 CrawlTask.config 中，API Key 加密保存，见 sealTaskConfig）
+export interface CrawlTaskConfig extends CrawlSourceOptions {
+  apiKey?: string;
+  mode?: CrawlMode;
+  // 是否从第三方文章中提取引语（默认提取）
+  extractQuotes?: boolean;
+  // 是否用 LLM 核实提取的引语（默认不核实）
+  verifyQuotes?: boolean;
+  // 爬取后的内容分类模式（默认 rule）
+  classification?: ClassificationMode;
+  // 用于核实引语（verifyQuotes）和内容分类的 LLM
+  llm?: LLMConfig;
+  // 爬取批次 ID（同一次爬取请求的任务共用），LLM 用量按批次累计
+  crawlId?: string;
+  // 该批次的 LLM 预算
+  llmBudget?: LLMBudget;
+}
+
+export type { CrawlTaskRecord };
+
+/**
+ * 任务状态变化后推送最新状态（没有订阅者时不查询）
+ */
+async function notifyTaskChanged(taskIds: string[]): Promise<void> {
+  if (taskIds.length === 0 || !hasCrawlEventSubscribers('task')) return;
+  try {
+    const tasks = await prisma.crawlTask.findMany({ where: { id: { in: taskIds } } });
+    for (const task of tasks) {
+      publishCrawlEvent('task', toCrawlTaskEvent(task));
+    }
+  } catch (error) {
+    console.error('推送任务状态失败:', error);
+  }
+}
+
+/**
+ * 持久化前加密配置中的 API Key（数据源 Key 和 LLM Key），无法加密时不保存
+ */
+function sealTaskConfig(config: CrawlTaskConfig): CrawlTaskConfig {
+  const sealed: CrawlTaskConfig = { ...config, apiKey: undefined };
+  if (config.apiKey) sealed.apiKey = encryptSecret(config.apiKey);
+  if (config.llm) {
+    sealed.llm = {
+      ...config.llm,
+      apiKey: config.llm.apiKey ? encryptSecret(config.llm.apiKey) || '' : '',
+    };
+  }
+  return sealed;
+}
+
+/**
+ * 入队：为每个数据源创建一个 pending 任务
+ */
+export async function enqueueCrawlTasks(
+  celebrityId: string,
+  sources: DataSource[],
+  configs: Partial<Record<DataSource, CrawlTaskConfig>> = {}
+): Promise<CrawlTaskRecord[]> {
+  const tasks = await Promise.all(
+    sources.map((source) =>
+      prisma.crawlTask.create({
+        data: {
+          celebrityId,
+          source,
+          status: 'pending',
+          config: JSON.stringify(sealTaskConfig(configs[source] || {})),
+        },
+      })
+    )
+  );
+  for (const task of tasks) {
+    publishCrawlEvent('task', toCrawlTaskEvent(task));
+  }
+  return tasks;
+}
+
+/**
+ * 某个名人 + 数据源最近一次成功爬取的完成时间（增量更新的起点）
+ */
+export async function getLastCompletedAt(
+  celebrityId: string,
+  source: DataSource
+): Promise<Date | null> {
+  const task = await prisma.crawlTask.findFirst({
+    where: { celebrityId, source, status: 'completed', completedAt: { not: null } },
+    orderBy: { completedAt: 'desc' },
+    select: { completedAt: true },
+  });
+  return task?.completedAt ?? null;
+}
+
+/**
+ * 解析任务配置并解密 API Key；未保存或无法解密的 Key 为空，由 runner 从环境变量补充
+ */
+export function parseTaskConfig(task: CrawlTaskRecord): CrawlTaskConfig {
+  if (!task.config) return {};
+  let config: CrawlTaskConfig;
+  try {
+    config = JSON.parse(task.config) as CrawlTaskConfig;
+  } catch {
+    return {};
+  }
+  return {
+    ...config,
+    apiKey: config.apiKey ? decryptSecret(config.apiKey) : undefined,
+    llm: config.llm && {
+      ...config.llm,
+      apiKey: config.llm.apiKey ? decryptSecret(config.llm.apiKey) || '' : '',
+    },
+  };
+}
+
+/**
+ * 解析任务检查点
+ */
+export function parseTaskCheckpoint(task: CrawlTaskRecord): CrawlCheckpoint | undefined {
+  if (!task.checkpoint) return undefined;
+  try {
+    return JSON.parse(task.checkpoint) as CrawlCheckpoint;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 领取下一个可执行任务
+ * 可领取的任务：pending，或 running 但租约已过期（孤儿任务）
+ * 通过 attempts 做乐观锁，保证同一任务只会被一个 worker 领取
+ */
+export async function claimNextTask(workerId: string): Promise<CrawlTaskRecord | null> {
+  // 竞争失败时重试几次
+  for (let i = 0; i < 5; i++) {
+    const now = new Date();
+    const candidate = await prisma.crawlTask.findFirst({
+      where: {
+        OR: [
+          { status: 'pending' },
+          { status: 'running', leaseExpiresAt: { lt: now } },
+          { status: 'running', leaseExpiresAt: null },
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (!candidate) return null;
+
+    // 已达到最大尝试次数的任务直接标记失败
+    if (candidate.attempts >= candidate.maxAttempts) {
+      const { count } = await prisma.crawlTask.updateMany({
+        where: { id: candidate.id, attempts: candidate.attempts, status: candidate.status },
+        data: {
+          status: 'failed',
+          error: candidate.error || `超过最大尝试次数 (${candidate.maxAttempts})`,
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          completedAt: now,
+        },
+      });
+      if (count === 1) await notifyTaskChanged([candidate.id]);
+      continue;
+    }
+
+    const { count } = await prisma.crawlTask.updateMany({
+      where: { id: candidate.id, attempts: candidate.attempts, status: candidate.status },
+      data: {
+        status: 'running',
+        attempts: { increment: 1 },
+        leaseOwner: workerId,
+        leaseExpiresAt: new Date(now.getTime() + LEASE_DURATION_MS),
+        heartbeatAt: now,
+        startedAt: candidate.startedAt ?? now,
+      },
+    });
+
+    if (count === 1) {
+      const task = await prisma.crawlTask.findUnique({ where: { id: candidate.id } });
+      if (task) publishCrawlEvent('task', toCrawlTaskEvent(task));
+      return task;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 续约（心跳），返回 false 表示租约已丢失
+ */
+export async function renewLease(taskId: string, workerId: string): Promise<boolean> {
+  const now = new Date();
+  const { count } = await prisma.crawlTask.updateMany({
+    where: { id: taskId, leaseOwner: workerId, status: 'running' },
+    data: {
+      heartbeatAt: now,
+      leaseExpiresAt: new Date(now.getTime() + LEASE_DURATION_MS),
+    },
+  });
+  return count === 1;
+}
+
+/**
+ * 更新任务进度和检查点（同时续约）
+ */
+export async function updateTaskProgress(
+  taskId: string,
+  workerId: string,
+  itemsCrawled: number,
+  checkpoint?: CrawlCheckpoint
+): Promise<boolean> {
+  const now = new Date();
+  const { count } = await prisma.crawlTask.updateMany({
+    where: { id: taskId, leaseOwner: workerId, status: 'running' },
+    data: {
+      itemsCrawled,
+      progress: itemsCrawled,
+      ...(checkpoint && { checkpoint: JSON.stringify(checkpoint) }),
+      heartbeatAt: now,
+      leaseExpiresAt: new Date(now.getTime() + LEASE_DURATION_MS),
+    },
+  });
+  if (count === 1) await notifyTaskChanged([taskId]);
+  return count === 1;
+}
+
+/**
+ * 标记任务完成
+ */
+export async function completeTask(
+  taskId: string,
+  workerId: string,
+  itemsCrawled: number
+): Promise<void> {
+  await prisma.crawlTask.updateMany({
+    where: { id: taskId, leaseOwner: workerId },
+    data: {
+      status: 'completed',
+      completedAt: new Date(),
+      itemsCrawled,
+      progress: itemsCrawled,
+      total: itemsCrawled,
+      checkpoint: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+    },
+  });
+  await notifyTaskChanged([taskId]);
+}
+
+/**
+ * 标记任务失败
+ */
+export async function failTask(
+  taskId: string,
+  workerId: string,
+  error: string
+): Promise<void> {
+  await prisma.crawlTask.updateMany({
+    where: { id: taskId, leaseOwner: workerId },
+    data: {
+      status: 'failed',
+      error,
+      completedAt: new Date(),
+      leaseOwner: null,
+      leaseExpiresAt: null,
+    },
+  });
+  await notifyTaskChanged([taskId]);
+}
+
+/**
+ * 释放任务（放回队列），用于 worker 在截止时间前主动让出
+ * 主动让出不计入尝试次数
+ */
+export async function releaseTask(taskId: string, workerId: string): Promise<void> {
+  await prisma.crawlTask.updateMany({
+    where: { id: taskId, leaseOwner: workerId, status: 'running' },
+    data: {
+      status: 'pending',
+      attempts: { decrement: 1 },
+      leaseOwner: null,
+      leaseExpiresAt: null,
+    },
+  });
+  await notifyTaskChanged([taskId]);
+}
+
+/**
+ * 重试失败的任务：放回队列并保留检查点，从中断处继续
+ * @returns 是否成功重新入队
+ */
+export async function retryTask(taskId: string): Promise<boolean> {
+  const { count } = await prisma.crawlTask.updateMany({
+    where: { id: taskId, status: 'failed' },
+    data: {
+      status: 'pending',
+      attempts: 0,
+      error: null,
+      completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+    },
+  });
+  if (count === 1) await notifyTaskChanged([taskId]);
+  return count === 1;
+}
+
+/**
+ * 查询任务当前状态
+ */
+export async function getTaskStatus(taskId: string): Promise<string | null> {
+  const task = await prisma.crawlTask.findUnique({
+    where: { id: taskId },
+    select: { status: true },
+  });
+  return task?.status ?? null;
+}
+
+/**
+ * 取消任务：pending 和 running 的任务直接标记为 cancelled 并清除租约，
+ * 正在执行的 worker 会在下一次心跳或进度更新时发现并停止
+ * @returns 被取消的任务 ID
+ */
+export async function cancelTasks(taskIds: string[]): Promise<string[]> {
+  const cancelled: string[] = [];
+
+  for (const taskId of taskIds) {
+    const { count } = await prisma.crawlTask.updateMany({
+      where: { id: taskId, status: { in: ['pending', 'running'] } },
+      data: {
+        status: 'cancelled',
+        completedAt: new Date(),
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      },
+    });
+    if (count === 1) {
+      cancelled.push(taskId);
+    }
+  }
+
+  await notifyTaskChanged(cancelled);
+  return cancelled;
+}
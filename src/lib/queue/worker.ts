@@ -0,0 +1,158 @@
+/**
+ * 爬取任务 worker
+ * 循环领取队列中的 pending / 孤儿任务并执行
+ */
+
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  claimNextTask,
+  getTaskStatus,
+  renewLease,
+  HEARTBEAT_INTERVAL_MS,
+  CrawlTaskRecord,
+} from './taskQueue';
+import { runCrawlTask, StopReason } from './runner';
+
+// 队列轮询间隔
+const POLL_INTERVAL_MS = 10 * 1000;
+
+// 同时执行的任务数上限（全局并发）
+const WORKER_CONCURRENCY = Math.max(1, parseInt(process.env.CRAWL_CONCURRENCY || '3'));
+
+export interface DrainOptions {
+  // 截止时间（时间戳），到达后不再领取新任务，正在执行的任务放回队列
+  deadline?: number;
+  // 并发执行的任务数，默认 CRAWL_CONCURRENCY
+  concurrency?: number;
+}
+
+const globalForWorker = globalThis as unknown as {
+  crawlWorkerId: string | undefined;
+  crawlWorkerDraining: Promise<number> | null | undefined;
+  crawlWorkerRekick: boolean | undefined;
+  crawlWorkerTimer: ReturnType<typeof setInterval> | undefined;
+  crawlWorkerControllers: Map<string, AbortController> | undefined;
+};
+
+// 当前进程中正在执行的任务及其取消控制器
+const activeControllers =
+  globalForWorker.crawlWorkerControllers ?? new Map<string, AbortController>();
+globalForWorker.crawlWorkerControllers = activeControllers;
+
+/**
+ * 当前进程的 worker ID
+ */
+export function getWorkerId(): string {
+  if (!globalForWorker.crawlWorkerId) {
+    globalForWorker.crawlWorkerId = `${os.hostname()}-${process.pid}-${uuidv4().slice(0, 8)}`;
+  }
+  return globalForWorker.crawlWorkerId;
+}
+
+/**
+ * 中止当前进程中正在执行的任务（取消时调用），返回该任务是否在本进程中执行
+ */
+export function abortLocalTask(taskId: string, reason: StopReason = 'cancelled'): boolean {
+  const controller = activeControllers.get(taskId);
+  if (!controller) return false;
+  controller.abort(reason);
+  return true;
+}
+
+/**
+ * 执行单个任务，期间定时发送心跳
+ * 心跳失败时区分任务被取消还是租约被接管，并中止正在进行的网络请求
+ */
+async function processTask(task: CrawlTaskRecord, options: DrainOptions): Promise<void> {
+  const workerId = getWorkerId();
+  const controller = new AbortController();
+  activeControllers.set(task.id, controller);
+
+  const heartbeat = setInterval(async () => {
+    try {
+      if (!(await renewLease(task.id, workerId))) {
+        const status = await getTaskStatus(task.id);
+        controller.abort(status === 'cancelled' ? 'cancelled' : 'lease_lost');
+      }
+    } catch (error) {
+      console.error('任务心跳失败:', error);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    await runCrawlTask(task, {
+      workerId,
+      signal: controller.signal,
+      shouldStop: (): StopReason | null => {
+        if (controller.signal.aborted) return controller.signal.reason as StopReason;
+        if (options.deadline && Date.now() >= options.deadline) return 'deadline';
+        return null;
+      },
+    });
+  } finally {
+    clearInterval(heartbeat);
+    activeControllers.delete(task.id);
+  }
+}
+
+/**
+ * 清空队列：多个执行槽并行领取并执行任务，直到没有可执行任务或到达截止时间
+ * @returns 处理的任务数
+ */
+export async function drainQueue(options: DrainOptions = {}): Promise<number> {
+  const workerId = getWorkerId();
+  const concurrency = options.concurrency ?? WORKER_CONCURRENCY;
+  let processed = 0;
+
+  // 每个执行槽独立循环领取任务，各任务的状态和日志互不影响
+  const runSlot = async () => {
+    while (!options.deadline || Date.now() < options.deadline) {
+      const task = await claimNextTask(workerId);
+      if (!task) break;
+
+      await processTask(task, options);
+      processed++;
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, runSlot));
+
+  return processed;
+}
+
+/**
+ * 唤醒 worker（不阻塞）。同一进程内同时只有一个 drain 在运行，
+ * 运行期间的唤醒会在本轮结束后立即再执行一轮，保证新入队的任务不必等待轮询
+ */
+export function kickWorker(): void {
+  if (globalForWorker.crawlWorkerDraining) {
+    globalForWorker.crawlWorkerRekick = true;
+    return;
+  }
+
+  globalForWorker.crawlWorkerRekick = false;
+  globalForWorker.crawlWorkerDraining = drainQueue()
+    .catch((error) => {
+      console.error('任务队列处理出错:', error);
+      return 0;
+    })
+    .finally(() => {
+      globalForWorker.crawlWorkerDraining = null;
+      if (globalForWorker.crawlWorkerRekick) {
+        kickWorker();
+      }
+    });
+}
+
+/**
+ * 启动常驻 worker 循环（长驻进程中使用，如 next start）
+ * 启动时会立即接管重启前遗留的孤儿任务
+ */
+export function startWorkerLoop(): void {
+  if (globalForWorker.crawlWorkerTimer) return;
+
+  kickWorker();
+  globalForWorker.crawlWorkerTimer = setInterval(kickWorker, POLL_INTERVAL_MS);
+  console.log(`[Queue] worker 已启动: ${getWorkerId()}`);
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { getNextRun, isValidCron } from '../cron';
+
+// 按服务器本地时间构造日期
+function local(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  return new Date(year, month - 1, day, hour, minute);
+}
+
+describe('isValidCron', () => {
+  it('accepts standard expressions and aliases', () => {
+    expect(isValidCron('*/15 * * * *')).toBe(true);
+    expect(isValidCron('0 9 * * 1-5')).toBe(true);
+    expect(isValidCron('30 2 1,15 * *')).toBe(true);
+    expect(isValidCron('@daily')).toBe(true);
+    expect(isValidCron('0 0 * * 7')).toBe(true);
+  });
+
+  it('accepts schedules that only run on leap days', () => {
+    expect(isValidCron('0 0 29 2 *')).toBe(true);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(isValidCron('* * * *')).toBe(false);
+    expect(isValidCron('60 * * * *')).toBe(false);
+    expect(isValidCron('0 0 * 13 *')).toBe(false);
+    expect(isValidCron('*/0 * * * *')).toBe(false);
+    expect(isValidCron('5-1 * * * *')).toBe(false);
+    expect(isValidCron('@yearly')).toBe(false);
+  });
+
+  it('rejects dates that never exist', () => {
+    expect(isValidCron('0 0 30 2 *')).toBe(false);
+    expect(isValidCron('0 0 31 4,6,9,11 *')).toBe(false);
+  });
+});
+
+describe('getNextRun', () => {
+  it('returns the next matching minute after the given time', () => {
+    expect(getNextRun('*/15 * * * *', local(2024, 5, 10, 8, 7))).toEqual(local(2024, 5, 10, 8, 15));
+    // 正好命中时取下一次
+    expect(getNextRun('0 * * * *', local(2024, 5, 10, 8, 0))).toEqual(local(2024, 5, 10, 9, 0));
+  });
+
+  it('rolls over days, months and years', () => {
+    expect(getNextRun('@daily', local(2024, 12, 31, 23, 59))).toEqual(local(2025, 1, 1));
+    expect(getNextRun('0 6 1 * *', local(2024, 1, 15))).toEqual(local(2024, 2, 1, 6, 0));
+  });
+
+  it('matches either the day of month or the weekday when both are restricted', () => {
+    // 2024-05-10 是周五；下一个周一是 5 月 13 日，早于 5 月 15 日
+    expect(getNextRun('0 0 15 * 1', local(2024, 5, 10))).toEqual(local(2024, 5, 13));
+    expect(getNextRun('0 0 * * 0', local(2024, 5, 10))).toEqual(local(2024, 5, 12));
+  });
+
+  it('finds the next leap day, even across a skipped century leap year', () => {
+    expect(getNextRun('0 0 29 2 *', local(2024, 3, 1))).toEqual(local(2028, 2, 29));
+    expect(getNextRun('0 0 29 2 *', local(2096, 3, 1))).toEqual(local(2104, 2, 29));
+  });
+
+  it('returns null for expressions that never fire', () => {
+    expect(getNextRun('0 0 30 2 *', local(2024, 1, 1))).toBeNull();
+  });
+
+  it('throws on malformed expressions', () => {
+    expect(() => getNextRun('not a cron')).toThrow('cron 表达式需要 5 段');
+  });
+});
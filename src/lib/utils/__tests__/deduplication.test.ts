@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { isDuplicateContent } from '../deduplication';
+import type { ContentItem } from '@/types';
+import type { PaidResource } from '@/types/paid-sources';
+
+function paid(overrides: Partial<PaidResource>): PaidResource {
+  return {
+    id: 'paid-1',
+    title: '',
+    type: 'ebook',
+    relevanceScore: 1,
+    contentQuality: 1,
+    priority: 2,
+    weight: 0.8,
+    prices: [],
+    ...overrides,
+  };
+}
+
+function free(title: string, content = ''): ContentItem {
+  return { source: 'openlibrary', type: 'article', priority: 2, weight: 0.8, title, content };
+}
+
+describe('isDuplicateContent', () => {
+  it('matches titles by word set, ignoring punctuation and word order', () => {
+    const result = isDuplicateContent(paid({ title: 'Steve Jobs: A Biography' }), [
+      free('Biography - Steve Jobs'),
+    ]);
+
+    expect(result.isDuplicate).toBe(true);
+    expect(result.similarityScore).toBe(1);
+    expect(result.matchReason).toBe('标题相似度: 100%');
+  });
+
+  it('tolerates extra words up to the title threshold', () => {
+    // 3 个共同词 / 4 个词 = 0.75
+    expect(
+      isDuplicateContent(paid({ title: 'Steve Jobs Biography' }), [
+        free('Steve Jobs Biography Audiobook'),
+      ]).isDuplicate
+    ).toBe(true);
+    // 2 / 4 = 0.5
+    expect(
+      isDuplicateContent(paid({ title: 'Steve Jobs Biography' }), [free('Steve Jobs Interview')])
+        .isDuplicate
+    ).toBe(false);
+  });
+
+  it('compares the Chinese title and the preview', () => {
+    const byTitle = isDuplicateContent(paid({ title: 'Unrelated', titleZh: '史蒂夫 乔布斯 传' }), [
+      free('史蒂夫 乔布斯 传'),
+    ]);
+    expect(byTitle.isDuplicate).toBe(true);
+
+    const byPreview = isDuplicateContent(
+      paid({ title: 'Lectures', preview: 'stay hungry stay foolish commencement speech' }),
+      [free('Stanford 2005', 'Stay hungry, stay foolish. Commencement speech.')]
+    );
+    expect(byPreview.isDuplicate).toBe(true);
+    expect(byPreview.matchReason).toBe('内容相似度: 100%');
+  });
+
+  it('lowers the bar for similar works by the same author', () => {
+    const result = isDuplicateContent(
+      paid({ title: 'Steve Jobs Biography', author: 'Walter Isaacson' }),
+      [{ ...free('Steve Jobs Biography Interview Notes'), author: 'walter isaacson' }]
+    );
+
+    expect(result.isDuplicate).toBe(true);
+    expect(result.matchReason).toBe('同一作者的相似作品');
+  });
+
+  it('does not match unrelated resources', () => {
+    const result = isDuplicateContent(paid({ title: 'The Innovators' }), [free('Steve Jobs')]);
+
+    expect(result).toMatchObject({ isDuplicate: false, similarityScore: 0, matchReason: '' });
+  });
+});
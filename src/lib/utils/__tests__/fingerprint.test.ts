@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { hashContent, normalizeUrl } from '../fingerprint';
+
+describe('normalizeUrl', () => {
+  it('unifies protocol, www prefix and trailing slashes', () => {
+    expect(normalizeUrl('http://www.Example.com/news/story/')).toBe('example.com/news/story');
+    expect(normalizeUrl('https://example.com/news/story')).toBe('example.com/news/story');
+    expect(normalizeUrl('https://example.com/')).toBe('example.com/');
+  });
+
+  it('drops tracking parameters and sorts the rest', () => {
+    expect(
+      normalizeUrl('https://example.com/a?utm_source=x&b=2&fbclid=abc&a=1&ref=home')
+    ).toBe('example.com/a?a=1&b=2');
+  });
+
+  it('maps mobile Wikipedia hosts to the desktop host of the same language', () => {
+    expect(normalizeUrl('https://en.m.wikipedia.org/wiki/Ada_Lovelace')).toBe(
+      'en.wikipedia.org/wiki/Ada_Lovelace'
+    );
+    expect(normalizeUrl('https://zh.m.wikipedia.org/wiki/Ada#生平')).toBe(
+      normalizeUrl('https://zh.wikipedia.org/wiki/Ada#生平')
+    );
+    expect(normalizeUrl('https://zh-yue.m.wikipedia.org/wiki/Ada')).toBe(
+      'zh-yue.wikipedia.org/wiki/Ada'
+    );
+  });
+
+  it('keeps the section hash', () => {
+    expect(normalizeUrl('https://en.wikipedia.org/wiki/Ada#Early_life')).not.toBe(
+      normalizeUrl('https://en.wikipedia.org/wiki/Ada#Legacy')
+    );
+  });
+
+  it('maps site aliases to one host', () => {
+    expect(normalizeUrl('https://x.com/ada/status/1?s=20')).toBe('twitter.com/ada/status/1');
+    expect(normalizeUrl('https://youtu.be/abc123?si=share')).toBe('youtube.com/watch?v=abc123');
+    expect(normalizeUrl('https://m.youtube.com/watch?v=abc123&feature=share')).toBe(
+      'youtube.com/watch?v=abc123'
+    );
+  });
+
+  it('returns null for missing or invalid links', () => {
+    expect(normalizeUrl(undefined)).toBeNull();
+    expect(normalizeUrl('not a url')).toBeNull();
+  });
+});
+
+describe('hashContent', () => {
+  it('ignores case, punctuation and whitespace', () => {
+    expect(hashContent('Hello,  World!')).toBe(hashContent('hello world'));
+    expect(hashContent('hello world')).not.toBe(hashContent('hello there'));
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { LSH_BANDS, computeMinHash, estimateSimilarity, lshBuckets } from '../minhash';
+import { CLUSTER_THRESHOLD, NEAR_DUPLICATE_THRESHOLD } from '../nearDuplicateIndex';
+
+const ARTICLE = [
+  'Ada Lovelace is often regarded as the first computer programmer.',
+  'She wrote notes on the Analytical Engine designed by Charles Babbage,',
+  'including an algorithm to compute Bernoulli numbers with the machine.',
+  'Her notes also suggested that such an engine could manipulate symbols',
+  'and compose elaborate pieces of music, not only perform arithmetic.',
+  'Lovelace was the only legitimate child of the poet Lord Byron and',
+  'was educated in mathematics and logic by private tutors from an early age.',
+  'Today her contributions are celebrated every October on Ada Lovelace Day,',
+  'which honours the achievements of women in science and technology.',
+].join(' ');
+
+const UNRELATED = [
+  'The city council approved a new budget for road repairs on Tuesday evening.',
+  'Officials said the plan will resurface twelve streets before winter arrives',
+  'and add protected bike lanes along the river, pending a final review',
+  'by the transport committee and a public consultation next month.',
+].join(' ');
+
+function similarity(a: string, b: string): number {
+  return estimateSimilarity(computeMinHash(a)!, computeMinHash(b)!);
+}
+
+describe('MinHash near-duplicate detection', () => {
+  it('treats a republished copy with small edits as a near duplicate', () => {
+    const republished = `${ARTICLE.replace('Tuesday', 'Monday').replace('often', 'widely')} (Reuters)`;
+
+    expect(similarity(ARTICLE, ARTICLE)).toBe(1);
+    expect(similarity(ARTICLE, republished)).toBeGreaterThanOrEqual(NEAR_DUPLICATE_THRESHOLD);
+  });
+
+  it('clusters a partial excerpt but does not merge it', () => {
+    const excerpt = ARTICLE.split(' ').slice(0, 70).join(' ');
+    const score = similarity(ARTICLE, excerpt);
+
+    expect(score).toBeGreaterThanOrEqual(CLUSTER_THRESHOLD);
+    expect(score).toBeLessThan(NEAR_DUPLICATE_THRESHOLD);
+  });
+
+  it('scores unrelated texts far below the cluster threshold', () => {
+    expect(similarity(ARTICLE, UNRELATED)).toBeLessThan(0.1);
+  });
+
+  it('does not sign texts that are too short', () => {
+    expect(computeMinHash('Thank you all for the birthday wishes!')).toBeNull();
+  });
+
+  it('puts identical signatures in the same buckets', () => {
+    const buckets = lshBuckets(computeMinHash(ARTICLE)!);
+
+    expect(buckets).toHaveLength(LSH_BANDS);
+    expect(lshBuckets(computeMinHash(ARTICLE)!)).toEqual(buckets);
+  });
+});
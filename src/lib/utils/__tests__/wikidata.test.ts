@@ -0,0 +1,171 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createWikidataResolver,
+  describeWikidataCandidate,
+  WikidataCandidate,
+  WikidataHttpClient,
+} from '../wikidata';
+
+type Params = Record<string, string | number>;
+
+interface EntitiesResponse {
+  entities: Record<string, unknown>;
+}
+
+function fixture<T>(name: string): T {
+  return JSON.parse(readFileSync(path.join(__dirname, 'fixtures/wikidata', name), 'utf-8')) as T;
+}
+
+// 按 action / props 返回本地样例，wbgetentities 只返回请求的 ID
+function fixtureClient() {
+  const entities = fixture<EntitiesResponse>('entities.json').entities;
+  const occupations = fixture<EntitiesResponse>('occupations.json').entities;
+
+  const get = vi.fn(async (params: Params): Promise<unknown> => {
+    if (params.action === 'wbsearchentities') return fixture('search.json');
+    if (params.action === 'wbgetentities') {
+      const source = params.props === 'labels' ? occupations : entities;
+      const ids = String(params.ids).split('|');
+      return { entities: Object.fromEntries(ids.filter((id) => source[id]).map((id) => [id, source[id]])) };
+    }
+    throw new Error(`unexpected request: ${JSON.stringify(params)}`);
+  });
+
+  const client: WikidataHttpClient = {
+    get: <T>(params: Params) => get(params) as Promise<T>,
+  };
+  return { client, get };
+}
+
+describe('Wikidata resolver', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps only people, in search relevance order', async () => {
+    const { client, get } = fixtureClient();
+
+    const candidates = await createWikidataResolver(client).search('Ada Lovelace');
+
+    // Q99990001 是电影（P31 = Q11424），不是人物
+    expect(candidates.map((candidate) => candidate.qid)).toEqual(['Q7259', 'Q99990002', 'Q99990003']);
+    expect(get).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'wbsearchentities', search: 'Ada Lovelace', language: 'en', limit: 10 })
+    );
+    expect(await createWikidataResolver(client).search('Ada Lovelace', { limit: 1 })).toHaveLength(1);
+  });
+
+  it('reads labels, aliases, occupations and sitelinks', async () => {
+    const { client } = fixtureClient();
+
+    const [ada] = await createWikidataResolver(client).getCandidates(['Q7259']);
+
+    expect(ada.label).toBe('Ada Lovelace');
+    expect(ada.description).toBe('English mathematician and writer');
+    expect(ada.labels).toEqual({ en: 'Ada Lovelace', zh: '爱达·勒芙蕾丝', fr: 'Ada Lovelace' });
+    // 名称和中英文别名，不含 label 本身和其他语言的别名
+    expect(ada.aliases).toEqual(['爱达·勒芙蕾丝', 'Augusta Ada King', 'Countess of Lovelace', '艾达·洛夫莱斯']);
+    expect(ada.occupations).toEqual(['mathematician', 'writer']);
+    expect(ada.sitelinks.zhwiki).toEqual({
+      title: '愛達·勒芙蕾絲',
+      url: 'https://zh.wikipedia.org/wiki/愛達·勒芙蕾絲',
+    });
+  });
+
+  it('uses the label of the search language and falls back to other languages', async () => {
+    const { client } = fixtureClient();
+    const resolver = createWikidataResolver(client);
+
+    const [ada, engineer, unnamed] = await resolver.getCandidates(
+      ['Q7259', 'Q99990002', 'Q99990003'],
+      'zh'
+    );
+
+    expect(ada.label).toBe('爱达·勒芙蕾丝');
+    expect(ada.description).toBe('英国数学家');
+    expect(ada.aliases).toContain('Ada Lovelace');
+    expect(ada.occupations).toEqual(['数学家', '作家']);
+    // 没有中英文名称时取任一语言，完全没有名称时用 QID
+    expect(engineer.label).toBe('Ada Lovelace Müller');
+    expect(engineer.description).toBe('deutsche Ingenieurin');
+    expect(unnamed.label).toBe('Q99990003');
+    expect(unnamed.aliases).toEqual([]);
+  });
+
+  it('reads identifiers from claims, skipping deprecated values and Open Library work keys', async () => {
+    const { client } = fixtureClient();
+
+    const [ada, engineer] = await createWikidataResolver(client).getCandidates(['Q7259', 'Q99990002']);
+
+    expect(ada.identifiers).toEqual({
+      wikidataId: 'Q7259',
+      twitterHandle: 'AdaLovelace',
+      openLibraryAuthorKey: 'OL1234567A',
+      website: 'https://ada.example.org/',
+    });
+    expect(engineer.identifiers).toEqual({ wikidataId: 'Q99990002' });
+  });
+
+  it('truncates dates to the precision of the claim', async () => {
+    const { client } = fixtureClient();
+
+    const [ada, engineer, unnamed] = await createWikidataResolver(client).getCandidates([
+      'Q7259',
+      'Q99990002',
+      'Q99990003',
+    ]);
+
+    expect(ada).toMatchObject({ birthDate: '1815-12-10', deathDate: '1852-11-27' });
+    expect(engineer).toMatchObject({ birthDate: '1900', deathDate: '1980-05' });
+    // 精度低于年份（如年代）时只保留年份
+    expect(unnamed.birthDate).toBe('1950');
+    expect(unnamed.deathDate).toBeUndefined();
+    expect(describeWikidataCandidate(engineer)).toBe(
+      'Q99990002 Ada Lovelace Müller（1900 – 1980-05；deutsche Ingenieurin）'
+    );
+  });
+
+  describe('confirm', () => {
+    async function searchCandidates(): Promise<WikidataCandidate[]> {
+      return createWikidataResolver(fixtureClient().client).search('Ada Lovelace');
+    }
+
+    it('rejects a QID that is not among the candidates', async () => {
+      const candidates = await searchCandidates();
+      const { client, get } = fixtureClient();
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      // Q99990001 存在于 Wikidata，但不是本轮的候选
+      expect(await createWikidataResolver(client).confirm('Q99990001', candidates)).toBeUndefined();
+      expect(await createWikidataResolver(client).confirm(undefined, candidates)).toBeUndefined();
+      expect(get).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('re-fetches a confirmed candidate instead of trusting the client copy', async () => {
+      const candidates = await searchCandidates();
+      const tampered = candidates.map((candidate) =>
+        candidate.qid === 'Q7259'
+          ? { ...candidate, identifiers: { ...candidate.identifiers, twitterHandle: 'impostor' } }
+          : candidate
+      );
+      const { client } = fixtureClient();
+
+      const entity = await createWikidataResolver(client).confirm('Q7259', tampered);
+
+      expect(entity?.identifiers.twitterHandle).toBe('AdaLovelace');
+    });
+
+    it('falls back to the candidate when Wikidata is unavailable', async () => {
+      const candidates = await searchCandidates();
+      const client: WikidataHttpClient = {
+        get: () => Promise.reject(new Error('network down')),
+      };
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(await createWikidataResolver(client).confirm('Q7259', candidates)).toBe(candidates[0]);
+    });
+  });
+});
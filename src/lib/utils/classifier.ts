@@ -32,8 +32,14 @@ export class ContentClassifier {
         break;
 
       case 'wikipedia':
-        priority = 4;
-        weight = 0.5;
+        // 维基百科引用的原始来源（采访、报道等）按来源本身分类
+        if (metadata?.citation) {
+          priority = 3;
+          weight = 0.6;
+        } else {
+          priority = 4;
+          weight = 0.5;
+        }
         break;
 
       case 'news':
@@ -121,8 +127,14 @@ export class ContentClassifier {
 
       case 'news':
       case 'article':
-        priority = 3;
-        weight = 0.6;
+        // 本人署名的文章算本人作品
+        if (metadata?.isSelfAuthored) {
+          priority = 2;
+          weight = 0.8;
+        } else {
+          priority = 3;
+          weight = 0.6;
+        }
         break;
     }
 
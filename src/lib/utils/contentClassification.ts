@@ -0,0 +1,257 @@
+/**
+ * 爬取后的内容分类阶段
+ * 爬虫入库时已按静态规则分配优先级，本阶段按分类模式把内容分批交给 LLM 重新判断
+ * 优先级、权重、类型、是否本人表达和摘要，并记录做出判断的分类器版本
+ */
+
+import { z } from 'zod';
+import prisma from '@/lib/db/prisma';
+import { CONTENT_CLASSIFICATION_PROMPT, generateStructured, ILLMAdapter } from '@/lib/llm';
+import { Celebrity, ClassificationMode, ContentType, LLMConfig } from '@/types';
+import { LLMBudgetExceededError } from './llmUsage';
+
+// 分类逻辑或提示词变化时递增，便于区分旧版本的分类结果
+export const CLASSIFIER_VERSION = 1;
+
+const BATCH_SIZE = 10;
+// 每条内容交给 LLM 的最大字符数
+const MAX_CONTENT_LENGTH = 1500;
+
+// LLM 可以指定的内容类型（维基百科结构化条目等由爬虫决定的类型不在其中）
+const LLM_CONTENT_TYPES: ContentType[] = [
+  'tweet', 'retweet', 'reply', 'interview', 'speech', 'podcast_episode', 'biography',
+  'autobiography', 'article', 'news', 'wiki', 'blog_post', 'quote', 'other',
+];
+
+// hybrid 模式下规则结果可以直接采用的类型（本人发言、本人作品）
+const RULE_CONFIDENT_TYPES: ContentType[] = [
+  'tweet', 'retweet', 'reply', 'interview', 'speech', 'podcast_episode', 'autobiography',
+];
+
+// LLM 可以改写的类型（爬虫只能粗略判断的类型）；其余类型由爬虫按页面结构确定，如 wiki_section
+const RETYPABLE_TYPES: ContentType[] = ['other', 'article', 'news'];
+
+// 不参与 LLM 分类的类型（结构化条目和占位条目）
+const STRUCTURAL_TYPES: ContentType[] = ['wiki_infobox', 'wiki_timeline', 'wiki_not_found'];
+
+const llmResultSchema = z.object({
+  index: z.number().int(),
+  priority: z.number().int().min(1).max(5),
+  weight: z.number().min(0).max(1),
+  type: z.string().optional(),
+  isSelfExpression: z.boolean(),
+  summary: z.string().optional(),
+});
+
+const llmResponseSchema = z.object({
+  results: z.array(llmResultSchema),
+});
+
+type LLMResult = z.infer<typeof llmResultSchema>;
+
+export interface ClassificationOptions {
+  mode: ClassificationMode;
+  // llm 和 hybrid 模式需要
+  adapter?: ILLMAdapter;
+  llm?: LLMConfig;
+  // 每批 LLM 分类完成后调用（调用方可借此续约），返回 true 时停止
+  onBatch?: () => Promise<boolean>;
+}
+
+export interface ClassificationStats {
+  rule: number;
+  llm: number;
+  // LLM 调用或解析失败、保留规则结果的条数
+  failed: number;
+  stopped: boolean;
+  // LLM 预算用尽，剩余内容保留规则结果
+  budgetExceeded: boolean;
+}
+
+// 分类器标识，如 rule@1、llm:openai/gpt-4o-mini@1
+export function classifierLabel(llm?: LLMConfig): string {
+  return llm
+    ? `llm:${llm.provider}/${llm.model || 'default'}@${CLASSIFIER_VERSION}`
+    : `rule@${CLASSIFIER_VERSION}`;
+}
+
+type ContentRow = {
+  id: string;
+  source: string;
+  type: string;
+  priority: number;
+  title: string | null;
+  content: string;
+  author: string | null;
+  sourceUrl: string | null;
+};
+
+function needsLLM(mode: ClassificationMode, row: ContentRow): boolean {
+  const type = row.type as ContentType;
+  if (mode === 'rule' || STRUCTURAL_TYPES.includes(type)) return false;
+  if (mode === 'llm') return true;
+  return !(RULE_CONFIDENT_TYPES.includes(type) && row.priority <= 2);
+}
+
+/**
+ * 一批内容交给 LLM 分类（同时生成摘要），返回按内容编号（从 1 开始）索引的结果；调用失败或修正后仍不合法时返回 null
+ * 预算用尽的错误继续抛出，由调用方停止分类
+ */
+async function classifyBatchWithLLM(
+  adapter: ILLMAdapter,
+  celebrity: Celebrity,
+  rows: ContentRow[]
+): Promise<Map<number, LLMResult> | null> {
+  const list = rows
+    .map((row, index) =>
+      [
+        `### 内容 ${index + 1}`,
+        `来源: ${row.source}；当前类型: ${row.type}${row.author ? `；作者: ${row.author}` : ''}`,
+        row.sourceUrl ? `链接: ${row.sourceUrl}` : '',
+        row.title ? `标题: ${row.title}` : '',
+        row.content.slice(0, MAX_CONTENT_LENGTH),
+      ]
+        .filter(Boolean)
+        .join('\n')
+    )
+    .join('\n\n');
+
+  try {
+    const { results } = await generateStructured(
+      adapter,
+      [
+        {
+          role: 'system',
+          content: CONTENT_CLASSIFICATION_PROMPT.replace(/\{name\}/g, celebrity.name).replace(
+            '{types}',
+            LLM_CONTENT_TYPES.join(', ')
+          ),
+        },
+        { role: 'user', content: list },
+      ],
+      llmResponseSchema
+    );
+    const parsed = new Map<number, LLMResult>();
+    for (const result of results) parsed.set(result.index, result);
+    return parsed;
+  } catch (error) {
+    if (error instanceof LLMBudgetExceededError) throw error;
+    console.error('LLM 内容分类失败:', error);
+    return null;
+  }
+}
+
+/**
+ * 对指定内容执行分类，已由当前分类器（同一模型和版本）分类过的内容会被跳过
+ */
+export async function classifyContents(
+  celebrity: Celebrity,
+  contentIds: string[],
+  options: ClassificationOptions
+): Promise<ClassificationStats> {
+  const { mode, adapter, llm, onBatch } = options;
+  if (mode !== 'rule' && !adapter) {
+    throw new Error(`${mode} 分类模式需要配置 LLM`);
+  }
+
+  const ruleLabel = classifierLabel();
+  const llmLabel = classifierLabel(llm);
+  const stats: ClassificationStats = {
+    rule: 0,
+    llm: 0,
+    failed: 0,
+    stopped: false,
+    budgetExceeded: false,
+  };
+
+  const rows: ContentRow[] = await prisma.content.findMany({
+    where: {
+      id: { in: contentIds },
+      // rule 模式只处理未分类的内容，不覆盖已有的 LLM 结果；
+      // 规则结果（包括 LLM 失败时保留的规则结果）在 llm / hybrid 模式下会重新交给 LLM
+      ...(mode === 'rule'
+        ? { classifier: null }
+        : { OR: [{ classifier: null }, { classifier: { not: llmLabel } }] }),
+    },
+    select: {
+      id: true,
+      source: true,
+      type: true,
+      priority: true,
+      title: true,
+      content: true,
+      author: true,
+      sourceUrl: true,
+    },
+  });
+
+  // 规则结果：沿用爬虫入库时分配的优先级
+  const applyRule = (row: ContentRow) =>
+    prisma.content.update({
+      where: { id: row.id },
+      data: {
+        isSelfExpression: row.priority <= 2,
+        classifier: ruleLabel,
+        classifiedAt: new Date(),
+      },
+    });
+
+  for (const row of rows.filter((row) => !needsLLM(mode, row))) {
+    await applyRule(row);
+    stats.rule++;
+  }
+
+  const pending = rows.filter((row) => needsLLM(mode, row));
+  for (let start = 0; start < pending.length; start += BATCH_SIZE) {
+    const batch = pending.slice(start, start + BATCH_SIZE);
+    let results: Map<number, LLMResult> | null;
+    try {
+      results = await classifyBatchWithLLM(adapter as ILLMAdapter, celebrity, batch);
+    } catch (error) {
+      if (!(error instanceof LLMBudgetExceededError)) throw error;
+      // 预算用尽：剩余内容都保留规则结果
+      for (const row of pending.slice(start)) {
+        await applyRule(row);
+        stats.rule++;
+      }
+      stats.budgetExceeded = true;
+      break;
+    }
+
+    for (let index = 0; index < batch.length; index++) {
+      const row = batch[index];
+      const result = results?.get(index + 1);
+      if (!result) {
+        await applyRule(row);
+        stats.failed++;
+        continue;
+      }
+
+      const type =
+        RETYPABLE_TYPES.includes(row.type as ContentType) &&
+        LLM_CONTENT_TYPES.includes(result.type as ContentType)
+          ? result.type
+          : row.type;
+      await prisma.content.update({
+        where: { id: row.id },
+        data: {
+          priority: result.priority,
+          weight: result.weight,
+          type,
+          isSelfExpression: result.isSelfExpression,
+          summary: result.summary?.trim() || undefined,
+          classifier: llmLabel,
+          classifiedAt: new Date(),
+        },
+      });
+      stats.llm++;
+    }
+
+    if (start + BATCH_SIZE < pending.length && (await onBatch?.())) {
+      stats.stopped = true;
+      break;
+    }
+  }
+
+  return stats;
+}
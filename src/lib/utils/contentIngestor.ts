@@ -0,0 +1,181 @@
+/**
+ * 内容入库（去重）
+ * 按 标准化链接 → 正文哈希 → 近似重复（MinHash/LSH）的顺序查找已有内容，
+ * 命中时更新已有记录而不是重复插入，并记录每次爬取任务看到该内容；
+ * 相似但不完全相同的内容单独保存，归入同一个近似重复簇
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/db/prisma';
+import { ContentItem } from '@/types';
+import { hashContent, normalizeText, normalizeUrl } from './fingerprint';
+import { computeMinHash } from './minhash';
+import {
+  NEAR_DUPLICATE_THRESHOLD,
+  NearDuplicateMatch,
+  findNearDuplicates,
+  indexContent,
+} from './nearDuplicateIndex';
+
+// 不同链接的内容按正文（哈希或近似重复）判为重复所需的最短正文长度（标准化后的字符数）
+const MIN_CROSS_URL_CONTENT_LENGTH = 280;
+
+export type IngestMatchType = 'new' | 'url' | 'hash' | 'near_duplicate';
+
+export interface IngestResult {
+  // created: 新内容；updated: 已有内容被更完整的正文替换；duplicate: 重复内容
+  status: 'created' | 'updated' | 'duplicate';
+  contentId: string;
+  matchType: IngestMatchType;
+  similarity?: number;
+}
+
+export interface ContentIngestor {
+  ingest: (item: ContentItem) => Promise<IngestResult>;
+}
+
+export function createContentIngestor(celebrityId: string, taskId: string): ContentIngestor {
+  // 记录本任务看到了该内容，返回是否为本任务第一次看到
+  const recordSighting = async (
+    contentId: string,
+    matchType: IngestMatchType,
+    similarity?: number
+  ): Promise<boolean> => {
+    const existing = await prisma.contentSighting.findUnique({
+      where: { contentId_taskId: { contentId, taskId } },
+    });
+    if (existing) {
+      await prisma.contentSighting.update({
+        where: { id: existing.id },
+        data: { seenAt: new Date() },
+      });
+      return false;
+    }
+
+    await prisma.contentSighting.create({
+      data: { contentId, taskId, matchType, similarity },
+    });
+    return true;
+  };
+
+  const ingest = async (item: ContentItem, retried = false): Promise<IngestResult> => {
+    const urlKey = normalizeUrl(item.sourceUrl);
+    const contentHash = hashContent(item.content);
+    const signature = computeMinHash(item.content);
+
+    // 1. 按链接、正文哈希精确匹配
+    let matchType: IngestMatchType = 'url';
+    let similarity: number | undefined;
+    let existing = urlKey
+      ? await prisma.content.findUnique({
+          where: { celebrityId_urlKey: { celebrityId, urlKey } },
+        })
+      : null;
+
+    // 不同链接的短正文（如同一句推文、模板化的节目简介）相同很常见，不按正文合并，只归入同一个簇
+    const matchesByContent =
+      !urlKey || normalizeText(item.content).length >= MIN_CROSS_URL_CONTENT_LENGTH;
+    if (!existing && matchesByContent) {
+      matchType = 'hash';
+      existing = await prisma.content.findFirst({
+        where: { celebrityId, contentHash },
+      });
+    }
+
+    // 2. 近似重复（如转载的新闻、不同来源的同一段文字稿）
+    let closest: NearDuplicateMatch | undefined;
+    if (!existing && signature) {
+      closest = (await findNearDuplicates(celebrityId, signature))[0];
+      if (matchesByContent && closest && closest.similarity >= NEAR_DUPLICATE_THRESHOLD) {
+        matchType = 'near_duplicate';
+        similarity = closest.similarity;
+        existing = await prisma.content.findUnique({ where: { id: closest.contentId } });
+      }
+    }
+
+    if (existing) {
+      const isNewSighting = await recordSighting(existing.id, matchType, similarity);
+
+      // 同一链接拿到了更完整的正文（如摘要 → 全文）时替换正文
+      const isRicher =
+        matchType === 'url' && item.content.length > existing.content.length;
+
+      await prisma.content.update({
+        where: { id: existing.id },
+        data: {
+          lastSeenAt: new Date(),
+          ...(isNewSighting && { seenCount: { increment: 1 } }),
+          ...(isRicher && {
+            content: item.content,
+            contentHash,
+            title: item.title ?? existing.title,
+            summary: item.summary ?? existing.summary,
+          }),
+          ...(!existing.metadata && item.metadata && {
+            metadata: JSON.stringify(item.metadata),
+          }),
+        },
+      });
+      if (isRicher) {
+        await indexContent(celebrityId, existing.id, signature);
+      }
+
+      return {
+        status: isRicher ? 'updated' : 'duplicate',
+        contentId: existing.id,
+        matchType,
+        similarity,
+      };
+    }
+
+    // 3. 新内容，与最相似的已有内容归入同一个簇
+    const clusterId = closest ? closest.clusterId ?? closest.contentId : null;
+    try {
+      const created = await prisma.content.create({
+        data: {
+          celebrityId,
+          source: item.source,
+          sourceUrl: item.sourceUrl,
+          type: item.type,
+          priority: item.priority,
+          weight: item.weight,
+          title: item.title,
+          content: item.content,
+          summary: item.summary,
+          date: item.date,
+          author: item.author,
+          language: item.language || 'en',
+          metadata: item.metadata ? JSON.stringify(item.metadata) : null,
+          urlKey,
+          contentHash,
+          clusterId,
+        },
+      });
+
+      await recordSighting(created.id, 'new');
+      await indexContent(celebrityId, created.id, signature);
+      if (closest && !closest.clusterId) {
+        await prisma.content.update({
+          where: { id: closest.contentId },
+          data: { clusterId },
+        });
+      }
+
+      return { status: 'created', contentId: created.id, matchType: 'new' };
+    } catch (error) {
+      // 并行任务同时插入同一链接时，唯一约束冲突，重新按已有内容处理
+      if (
+        !retried &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return ingest(item, true);
+      }
+      throw error;
+    }
+  };
+
+  return {
+    ingest: (item) => ingest(item),
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * 爬取事件总线（进程内）
+ * 日志写入和任务状态变化时发布事件，/api/crawl/events 订阅后通过 SSE 推送给前端
+ * 只能收到本进程内发布的事件；跨进程（如 Serverless）时由客户端重连后从数据库补发日志
+ */
+
+import { EventEmitter } from 'events';
+import type { CrawlTask as CrawlTaskRecord } from '@prisma/client';
+import { CrawlLogEntry, CrawlTask, DataSource, TaskStatus } from '@/types';
+
+export type CrawlLogEvent = CrawlLogEntry;
+
+// 推送给前端的任务状态（不含配置、检查点和租约信息）
+export type CrawlTaskEvent = CrawlTask;
+
+type CrawlEventMap = {
+  log: CrawlLogEvent;
+  task: CrawlTaskEvent;
+};
+
+const globalForEvents = globalThis as unknown as {
+  crawlEvents: EventEmitter | undefined;
+};
+
+const bus = globalForEvents.crawlEvents ?? new EventEmitter();
+// 每个 SSE 连接一个监听器，不限制数量
+bus.setMaxListeners(0);
+globalForEvents.crawlEvents = bus;
+
+export function publishCrawlEvent<K extends keyof CrawlEventMap>(
+  type: K,
+  event: CrawlEventMap[K]
+): void {
+  bus.emit(type, event);
+}
+
+/**
+ * 订阅事件，返回取消订阅的函数
+ */
+export function subscribeCrawlEvents<K extends keyof CrawlEventMap>(
+  type: K,
+  listener: (event: CrawlEventMap[K]) => void
+): () => void {
+  bus.on(type, listener);
+  return () => {
+    bus.off(type, listener);
+  };
+}
+
+/**
+ * 是否有订阅者（没有时发布方可以省去查询）
+ */
+export function hasCrawlEventSubscribers(type: keyof CrawlEventMap): boolean {
+  return bus.listenerCount(type) > 0;
+}
+
+export function toCrawlTaskEvent(task: CrawlTaskRecord): CrawlTaskEvent {
+  return {
+    id: task.id,
+    celebrityId: task.celebrityId,
+    source: task.source as DataSource,
+    status: task.status as TaskStatus,
+    progress: task.progress,
+    total: task.total,
+    itemsCrawled: task.itemsCrawled,
+    error: task.error || undefined,
+    startedAt: task.startedAt || undefined,
+    completedAt: task.completedAt || undefined,
+  };
+}
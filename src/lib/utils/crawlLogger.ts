@@ -1,4 +1,5 @@
 import prisma from '@/lib/db/prisma';
+import { publishCrawlEvent } from './crawlEvents';
 
 export type LogLevel = 'info' | 'warn' | 'error' | 'success';
 
@@ -12,7 +13,7 @@ export interface CrawlLogger {
 export function createCrawlLogger(taskId: string): CrawlLogger {
   const log = async (level: LogLevel, message: string, details?: Record<string, unknown>) => {
     try {
-      await prisma.crawlLog.create({
+      const record = await prisma.crawlLog.create({
         data: {
           taskId,
           level,
@@ -20,6 +21,15 @@ export function createCrawlLogger(taskId: string): CrawlLogger {
           details: details ? JSON.stringify(details) : null,
         },
       });
+      // 推送给订阅了实时日志的连接
+      publishCrawlEvent('log', {
+        id: record.id,
+        taskId,
+        level,
+        message,
+        details: details ?? null,
+        createdAt: record.createdAt.toISOString(),
+      });
       // 同时输出到控制台
       console.log(`[${level.toUpperCase()}] [${taskId.slice(0, 8)}] ${message}`);
     } catch (err) {
@@ -0,0 +1,160 @@
+/**
+ * cron 表达式解析
+ * 支持标准 5 段格式（分 时 日 月 周），每段支持 *、列表（1,2）、范围（1-5）、步长（0-59/15、1-10/2），
+ * 以及 @hourly / @daily / @weekly / @monthly 简写。按服务器本地时间计算
+ */
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // 日、周是否被限制（两者都限制时满足其一即可，与标准 cron 一致）
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+// 各段的取值范围
+const FIELD_RANGES: [number, number][] = [
+  [0, 59], // 分
+  [0, 23], // 时
+  [1, 31], // 日
+  [1, 12], // 月
+  [0, 7], // 周（0 和 7 都表示周日）
+];
+
+// 最多向后查找的时间（超过则认为表达式永远不会触发，如 2 月 30 日）
+// 2 月 29 日最长 8 年才出现一次（如 2096 → 2104，2100 年不是闰年）
+const MAX_LOOKAHEAD_MS = 8 * 366 * 24 * 60 * 60 * 1000;
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`无效的 cron 步长: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      [start, end] = rangePart.split('-').map(Number);
+    } else {
+      start = Number(rangePart);
+      // 形如 5/10 表示从 5 开始每 10 个单位
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`无效的 cron 字段: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * 解析 cron 表达式，格式错误时抛出异常
+ */
+function parseCron(expression: string): CronFields {
+  const normalized = ALIASES[expression.trim()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('cron 表达式需要 5 段：分 时 日 月 周');
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i])
+  );
+
+  // 7 也表示周日
+  if (weekdays.has(7)) {
+    weekdays.delete(7);
+    weekdays.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    daysRestricted: !fields[2].startsWith('*'),
+    weekdaysRestricted: !fields[4].startsWith('*'),
+  };
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+  const dayMatch = fields.days.has(date.getDate());
+  const weekdayMatch = fields.weekdays.has(date.getDay());
+
+  if (fields.daysRestricted && fields.weekdaysRestricted) {
+    return dayMatch || weekdayMatch;
+  }
+  return dayMatch && weekdayMatch;
+}
+
+/**
+ * 检查 cron 表达式是否有效
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    return getNextRun(expression) !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 计算 after 之后（不含）下一次触发的时间，永远不会触发时返回 null
+ */
+export function getNextRun(expression: string, after: Date = new Date()): Date | null {
+  const fields = parseCron(expression);
+
+  const next = new Date(after);
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+
+  // 逐级跳过不匹配的月 / 日 / 时 / 分
+  while (next.getTime() <= limit) {
+    if (!fields.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(fields, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0);
+      continue;
+    }
+    if (!fields.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0);
+      continue;
+    }
+    if (!fields.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1);
+      continue;
+    }
+    return next;
+  }
+
+  return null;
+}
@@ -12,6 +12,8 @@ const CONTENT_SIMILARITY_THRESHOLD = 0.6;
 
 /**
  * 计算两个字符串的相似度 (Jaccard 相似度)
+ * 付费资源只有标题和简短预览，按词集合比较；入库去重比较的是完整正文，使用 minhash.ts 的 shingle 签名，
+ * 两者的阈值不可互换
  */
 function calculateSimilarity(str1: string, str2: string): number {
   if (!str1 || !str2) return 0;
@@ -1,5 +1,6 @@
 import { Celebrity, ContentItem, DataSource, ExportOptions, ExportResult } from '@/types';
 import { format } from 'date-fns';
+import { IDENTIFIER_LABELS } from './identifiers';
 
 // 数据导出器
 export class DataExporter {
@@ -29,6 +30,55 @@ export class DataExporter {
     };
   }
 
+  // 折叠近似重复簇：每个簇只保留一条代表内容（优先级最高、权重最大、正文最长），
+  // 其余条目的来源记录在代表内容的 metadata.duplicates 中
+  static collapseClusters(contents: ContentItem[]): ContentItem[] {
+    const clusters = new Map<string, ContentItem[]>();
+    contents.forEach((item) => {
+      if (!item.clusterId) return;
+      const members = clusters.get(item.clusterId) || [];
+      members.push(item);
+      clusters.set(item.clusterId, members);
+    });
+
+    const canonicalByCluster = new Map<string, ContentItem>();
+    clusters.forEach((members, clusterId) => {
+      const [canonical, ...duplicates] = [...members].sort(
+        (a, b) =>
+          a.priority - b.priority ||
+          b.weight - a.weight ||
+          b.content.length - a.content.length
+      );
+      canonicalByCluster.set(clusterId, {
+        ...canonical,
+        metadata: {
+          ...canonical.metadata,
+          duplicates: duplicates.map((item) => ({
+            id: item.id,
+            source: item.source,
+            url: item.sourceUrl,
+            title: item.title,
+          })),
+        },
+      });
+    });
+
+    // 保持原有顺序，代表内容出现在簇内第一条的位置
+    const result: ContentItem[] = [];
+    contents.forEach((item) => {
+      if (!item.clusterId) {
+        result.push(item);
+        return;
+      }
+      const canonical = canonicalByCluster.get(item.clusterId);
+      if (canonical) {
+        result.push(canonical);
+        canonicalByCluster.delete(item.clusterId);
+      }
+    });
+    return result;
+  }
+
   // 导出为 JSON
   static exportToJson(result: ExportResult, options?: ExportOptions): string {
     const exportData = {
@@ -60,6 +110,9 @@ export class DataExporter {
     lines.push(`- **导出日期**: ${result.metadata.exportDate}`);
     lines.push(`- **数据总量**: ${result.metadata.totalItems} 条`);
     lines.push(`- **数据来源**: ${result.metadata.sources.join(', ')}`);
+    if (result.metadata.collapsedItems) {
+      lines.push(`- **已折叠近似重复**: ${result.metadata.collapsedItems} 条`);
+    }
     lines.push('');
 
     // 别名
@@ -74,6 +127,15 @@ export class DataExporter {
       lines.push('');
     }
 
+    // 外部标识
+    const identifiers = Object.entries(result.celebrity.identifiers || {}).filter(([, value]) => value);
+    if (identifiers.length > 0) {
+      for (const [key, value] of identifiers) {
+        lines.push(`- **${IDENTIFIER_LABELS[key as keyof typeof IDENTIFIER_LABELS] || key}**: ${value}`);
+      }
+      lines.push('');
+    }
+
     // 优先级分布
     lines.push('## 优先级分布');
     lines.push('');
@@ -184,6 +246,11 @@ export class DataExporter {
         lines.push(`> 作者: ${item.author}`);
       }
 
+      const duplicates = item.metadata?.duplicates as { url?: string }[] | undefined;
+      if (duplicates && duplicates.length > 0) {
+        lines.push(`> 相似内容: ${duplicates.length} 条已折叠`);
+      }
+
       lines.push('');
 
       // 内容
@@ -0,0 +1,81 @@
+/**
+ * 内容指纹
+ * 用于入库时识别同一条内容：标准化链接 + 标准化正文哈希
+ */
+
+import { createHash } from 'crypto';
+
+// 追踪参数，不影响内容本身
+const TRACKING_PARAMS = [
+  /^utm_/,
+  /^fbclid$/,
+  /^gclid$/,
+  /^mc_(cid|eid)$/,
+  /^ref(_src|_url)?$/,
+  /^s$/, // twitter 分享参数
+  /^si$/, // youtube 分享参数
+  /^feature$/,
+  /^ocid$/,
+];
+
+// 同一站点的不同域名
+const HOST_ALIASES: Record<string, string> = {
+  'x.com': 'twitter.com',
+  'mobile.twitter.com': 'twitter.com',
+  'm.youtube.com': 'youtube.com',
+  'youtu.be': 'youtube.com',
+};
+
+// 维基百科移动版：en.m.wikipedia.org → en.wikipedia.org（保留语言）
+const MOBILE_WIKIPEDIA_PATTERN = /^([a-z][a-z0-9-]*)\.m\.(wikipedia\.org)$/;
+
+/**
+ * 标准化链接：统一协议和域名、去掉追踪参数、排序查询参数、去掉末尾斜杠
+ * 保留 hash（维基百科章节通过 hash 区分）
+ */
+export function normalizeUrl(url?: string): string | null {
+  if (!url) return null;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+
+  let host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  host = HOST_ALIASES[host] || host.replace(MOBILE_WIKIPEDIA_PATTERN, '$1.$2');
+
+  // youtu.be/<id> → youtube.com/watch?v=<id>
+  if (parsed.hostname === 'youtu.be') {
+    const videoId = parsed.pathname.slice(1);
+    parsed = new URL(`https://youtube.com/watch?v=${videoId}`);
+  }
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAMS.some((pattern) => pattern.test(key)))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const path = parsed.pathname.replace(/\/+$/, '') || '/';
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  return `${host}${path}${query}${parsed.hash}`;
+}
+
+/**
+ * 标准化正文：小写、去除标点、合并空白
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s\u4e00-\u9fff]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * 正文哈希
+ */
+export function hashContent(text: string): string {
+  return createHash('sha256').update(normalizeText(text)).digest('hex');
+}
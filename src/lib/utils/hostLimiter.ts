@@ -0,0 +1,93 @@
+/**
+ * 按域名限制并发请求数
+ * 多个数据源并行爬取时，避免对同一站点（如 DuckDuckGo、Wayback Machine）同时发起过多请求
+ */
+
+// 默认每个域名的最大并发请求数
+const DEFAULT_HOST_CONCURRENCY = parseInt(process.env.CRAWL_HOST_CONCURRENCY || '2');
+
+// 个别站点的并发上限（对频率限制较严格的站点单独设置），*. 开头的按域名后缀匹配
+const HOST_CONCURRENCY_OVERRIDES: Record<string, number> = {
+  'html.duckduckgo.com': 1,
+  'web.archive.org': 1,
+  'www.reddit.com': 1,
+  '*.wikipedia.org': 4,
+  '*.wikidata.org': 4,
+};
+
+export class HostLimiter {
+  private active = new Map<string, number>();
+  private waiting = new Map<string, (() => void)[]>();
+
+  constructor(
+    private defaultLimit: number = DEFAULT_HOST_CONCURRENCY,
+    private overrides: Record<string, number> = HOST_CONCURRENCY_OVERRIDES
+  ) {}
+
+  // 获取某个域名的并发上限：精确匹配优先，其次按后缀匹配
+  getLimit(host: string): number {
+    if (host in this.overrides) return this.overrides[host];
+    for (const [pattern, limit] of Object.entries(this.overrides)) {
+      if (pattern.startsWith('*.') && host.endsWith(pattern.slice(1))) return limit;
+    }
+    return this.defaultLimit;
+  }
+
+  // 申请一个请求槽位，返回释放函数（重复调用无副作用）
+  // 排队期间 signal 中止时移出等待队列并以中止原因拒绝
+  async acquire(host: string, signal?: AbortSignal): Promise<() => void> {
+    signal?.throwIfAborted();
+    if ((this.active.get(host) || 0) >= this.getLimit(host)) {
+      await new Promise<void>((resolve, reject) => {
+        const queue = this.waiting.get(host) || [];
+        const onAbort = () => {
+          const index = queue.indexOf(next);
+          if (index !== -1) queue.splice(index, 1);
+          reject(signal?.reason);
+        };
+        const next = () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        queue.push(next);
+        this.waiting.set(host, queue);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    } else {
+      this.active.set(host, (this.active.get(host) || 0) + 1);
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.release(host);
+    };
+  }
+
+  private release(host: string): void {
+    const queue = this.waiting.get(host);
+    const next = queue?.shift();
+    if (next) {
+      // 槽位直接转交给下一个等待者
+      next();
+      return;
+    }
+
+    const count = (this.active.get(host) || 1) - 1;
+    if (count <= 0) {
+      this.active.delete(host);
+      this.waiting.delete(host);
+    } else {
+      this.active.set(host, count);
+    }
+  }
+}
+
+const globalForLimiter = globalThis as unknown as {
+  hostLimiter: HostLimiter | undefined;
+};
+
+// 进程内共享的限流器
+export const hostLimiter = globalForLimiter.hostLimiter ?? new HostLimiter();
+globalForLimiter.hostLimiter = hostLimiter;
@@ -0,0 +1,100 @@
+/**
+ * 名人的外部标识（Twitter 账号、YouTube 频道、Wikidata QID 等）
+ * 保存在 Celebrity.identifiers（JSON），爬虫优先使用这些已验证的标识，而不是按名称猜测
+ */
+
+import { z } from 'zod';
+import { CelebrityIdentifiers } from '@/types';
+
+// 去掉首尾空白，空字符串和 null 视为未设置
+function clean(value: unknown): unknown {
+  if (value === null) return undefined;
+  if (typeof value !== 'string') return value;
+  const trimmed = value.trim();
+  return trimmed === '' ? undefined : trimmed;
+}
+
+// 从链接中提取标识：pattern 的第一个捕获组
+function fromUrl(pattern: RegExp) {
+  return (value: unknown) => {
+    const cleaned = clean(value);
+    if (typeof cleaned !== 'string') return cleaned;
+    return cleaned.match(pattern)?.[1] ?? cleaned;
+  };
+}
+
+export const celebrityIdentifiersSchema = z.object({
+  // 支持 @handle 和 https://x.com/handle
+  twitterHandle: z.preprocess(
+    (value) => {
+      const handle = fromUrl(/(?:twitter|x)\.com\/@?([A-Za-z0-9_]+)/)(value);
+      return typeof handle === 'string' ? handle.replace(/^@/, '') : handle;
+    },
+    z.string().regex(/^[A-Za-z0-9_]{1,15}$/, { message: '无效的 Twitter 用户名' }).optional()
+  ),
+  // 支持 https://www.youtube.com/channel/UC...
+  youtubeChannelId: z.preprocess(
+    fromUrl(/youtube\.com\/channel\/(UC[A-Za-z0-9_-]{22})/),
+    z.string().regex(/^UC[A-Za-z0-9_-]{22}$/, { message: '无效的 YouTube 频道 ID' }).optional()
+  ),
+  // 支持 https://www.wikidata.org/wiki/Q317521
+  wikidataId: z.preprocess(
+    (value) => {
+      const id = fromUrl(/wikidata\.org\/(?:wiki|entity)\/(Q\d+)/i)(value);
+      return typeof id === 'string' ? id.toUpperCase() : id;
+    },
+    z.string().regex(/^Q\d+$/, { message: '无效的 Wikidata QID' }).optional()
+  ),
+  // 16 位，允许带空格或 isni.org 链接
+  isni: z.preprocess(
+    (value) => {
+      const isni = fromUrl(/isni\.org\/isni\/([\dXx ]+)/)(value);
+      return typeof isni === 'string' ? isni.replace(/\s+/g, '').toUpperCase() : isni;
+    },
+    z.string().regex(/^\d{15}[\dX]$/, { message: '无效的 ISNI' }).optional()
+  ),
+  // 支持 https://openlibrary.org/authors/OL23919A
+  openLibraryAuthorKey: z.preprocess(
+    fromUrl(/openlibrary\.org\/authors\/(OL\d+A)/),
+    z.string().regex(/^OL\d+A$/, { message: '无效的 Open Library 作者 key' }).optional()
+  ),
+  website: z.preprocess(clean, z.string().url({ message: '无效的网址' }).optional()),
+});
+
+// 标识字段的显示名称
+export const IDENTIFIER_LABELS: Record<keyof CelebrityIdentifiers, string> = {
+  twitterHandle: 'Twitter 用户名',
+  youtubeChannelId: 'YouTube 频道 ID',
+  wikidataId: 'Wikidata QID',
+  isni: 'ISNI',
+  openLibraryAuthorKey: 'Open Library 作者 key',
+  website: '官方网站',
+};
+
+/**
+ * 解析数据库中保存的标识，无效的字段会被忽略
+ */
+export function parseCelebrityIdentifiers(json: string | null | undefined): CelebrityIdentifiers {
+  if (!json) return {};
+  try {
+    const raw = JSON.parse(json) as Record<string, unknown>;
+    const identifiers: CelebrityIdentifiers = {};
+    for (const key of Object.keys(celebrityIdentifiersSchema.shape) as (keyof CelebrityIdentifiers)[]) {
+      const parsed = celebrityIdentifiersSchema.shape[key].safeParse(raw[key]);
+      if (parsed.success && parsed.data) {
+        identifiers[key] = parsed.data;
+      }
+    }
+    return identifiers;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 校验 LLM 建议的标识，只保留格式正确的字段
+ */
+export function sanitizeProposedIdentifiers(proposed: unknown): CelebrityIdentifiers {
+  if (!proposed || typeof proposed !== 'object') return {};
+  return parseCelebrityIdentifiers(JSON.stringify(proposed));
+}
@@ -0,0 +1,192 @@
+/**
+ * LLM 用量记录与预算
+ * 每次调用的 token 用量和估算费用写入 LlmUsage 表（关联名人、任务和爬取批次），
+ * 配置了预算的爬取在用量超出后拒绝后续调用，由各 LLM 阶段停止并保留规则结果
+ */
+
+import prisma from '@/lib/db/prisma';
+import { getLLMAdapter, ILLMAdapter } from '@/lib/llm';
+import { ChatMessage, LLMBudget, LLMConfig, LLMStage, LLMUsage } from '@/types';
+
+// 内置定价（美元 / 百万 token：[输入, 输出]），按模型名前缀匹配，长的前缀优先
+const MODEL_PRICING: Record<string, [number, number]> = {
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4.1-nano': [0.1, 0.4],
+  'gpt-4.1-mini': [0.4, 1.6],
+  'gpt-4.1': [2, 8],
+  'gpt-4-turbo': [10, 30],
+  'gpt-3.5-turbo': [0.5, 1.5],
+  'claude-opus-4': [15, 75],
+  'claude-sonnet-4': [3, 15],
+  'claude-3-7-sonnet': [3, 15],
+  'claude-3-5-sonnet': [3, 15],
+  'claude-3-5-haiku': [0.8, 4],
+  'claude-3-haiku': [0.25, 1.25],
+};
+
+export class LLMBudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMBudgetExceededError';
+  }
+}
+
+export interface LLMUsageScope {
+  celebrityId?: string;
+  taskId?: string;
+  crawlId?: string;
+}
+
+// 查询用量的条件，since 为开始时间
+export interface LLMUsageFilter extends LLMUsageScope {
+  since?: Date;
+}
+
+export interface LLMUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  // 没有定价、未计入费用的调用数
+  unpricedCalls: number;
+}
+
+export interface TrackedLLMAdapter extends ILLMAdapter {
+  // 预算是否已用尽（调用被拒绝过一次后为 true）
+  readonly budgetExceeded: boolean;
+}
+
+/**
+ * 模型定价：环境变量 LLM_PRICING（JSON，如 {"qwen2.5": [0, 0]}）优先于内置定价
+ */
+function getPricing(model: string): [number, number] | null {
+  let pricing = MODEL_PRICING;
+  if (process.env.LLM_PRICING) {
+    try {
+      pricing = { ...MODEL_PRICING, ...JSON.parse(process.env.LLM_PRICING) };
+    } catch {
+      console.warn('LLM_PRICING 格式无效，使用内置定价');
+    }
+  }
+  const prefix = Object.keys(pricing)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? pricing[prefix] : null;
+}
+
+/**
+ * 估算一次调用的费用（美元），没有定价的模型返回 null
+ */
+export function estimateCost(usage: LLMUsage): number | null {
+  const pricing = getPricing(usage.model);
+  if (!pricing) return null;
+  return (usage.inputTokens * pricing[0] + usage.outputTokens * pricing[1]) / 1e6;
+}
+
+export function usageWhere(filter: LLMUsageFilter) {
+  return {
+    ...(filter.celebrityId && { celebrityId: filter.celebrityId }),
+    ...(filter.taskId && { taskId: filter.taskId }),
+    ...(filter.crawlId && { crawlId: filter.crawlId }),
+    ...(filter.since && { createdAt: { gte: filter.since } }),
+  };
+}
+
+/**
+ * 汇总用量
+ */
+export async function getLLMUsageTotals(filter: LLMUsageFilter): Promise<LLMUsageTotals> {
+  const where = usageWhere(filter);
+  const [sum, unpricedCalls] = await Promise.all([
+    prisma.llmUsage.aggregate({
+      where,
+      _count: true,
+      _sum: { inputTokens: true, outputTokens: true, cost: true },
+    }),
+    prisma.llmUsage.count({ where: { ...where, cost: null } }),
+  ]);
+  return {
+    calls: sum._count,
+    inputTokens: sum._sum.inputTokens || 0,
+    outputTokens: sum._sum.outputTokens || 0,
+    cost: sum._sum.cost || 0,
+    unpricedCalls,
+  };
+}
+
+/**
+ * 检查爬取批次的用量是否超出预算，超出时返回原因
+ */
+async function checkBudget(crawlId: string, budget: LLMBudget): Promise<string | null> {
+  const totals = await getLLMUsageTotals({ crawlId });
+  const tokens = totals.inputTokens + totals.outputTokens;
+  if (budget.maxTokens !== undefined && tokens >= budget.maxTokens) {
+    return `已使用 ${tokens} token，超出预算 ${budget.maxTokens}`;
+  }
+  if (budget.maxCost !== undefined && totals.cost >= budget.maxCost) {
+    return `已花费约 $${totals.cost.toFixed(4)}，超出预算 $${budget.maxCost}`;
+  }
+  return null;
+}
+
+/**
+ * 创建记录用量的 LLM 适配器
+ * 提供 budget 和 scope.crawlId 时，每次调用前检查该批次的累计用量，超出预算时抛出 LLMBudgetExceededError
+ */
+export function createTrackedLLMAdapter(
+  config: LLMConfig,
+  stage: LLMStage,
+  scope: LLMUsageScope = {},
+  budget?: LLMBudget
+): TrackedLLMAdapter {
+  // 用量异步写入，检查预算前等待写入完成
+  let pending: Promise<unknown> = Promise.resolve();
+  let exceeded: string | null = null;
+
+  const record = (usage: LLMUsage) => {
+    pending = pending
+      .then(() =>
+        prisma.llmUsage.create({
+          data: {
+            ...scope,
+            stage,
+            provider: usage.provider,
+            model: usage.model,
+            inputTokens: usage.inputTokens,
+            outputTokens: usage.outputTokens,
+            cost: estimateCost(usage),
+          },
+        })
+      )
+      .catch((error) => console.error('记录 LLM 用量失败:', error));
+  };
+
+  const adapter = getLLMAdapter(config, record);
+  const enforced = !!scope.crawlId && (budget?.maxCost !== undefined || budget?.maxTokens !== undefined);
+
+  const ensureBudget = async () => {
+    if (!enforced) return;
+    await pending;
+    exceeded = exceeded || (await checkBudget(scope.crawlId as string, budget as LLMBudget));
+    if (exceeded) throw new LLMBudgetExceededError(`LLM 预算已用尽: ${exceeded}`);
+  };
+
+  return {
+    get budgetExceeded() {
+      return exceeded !== null;
+    },
+    async chat(messages: ChatMessage[]) {
+      await ensureBudget();
+      return adapter.chat(messages);
+    },
+    async chatJSON(messages: ChatMessage[]) {
+      await ensureBudget();
+      return adapter.chatJSON(messages);
+    },
+    async *streamChat(messages: ChatMessage[]) {
+      await ensureBudget();
+      yield* adapter.streamChat(messages);
+    },
+  };
+}
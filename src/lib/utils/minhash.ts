@@ -0,0 +1,106 @@
+/**
+ * MinHash 签名与 LSH 分桶
+ * 用固定长度的签名估计两段文本的 Jaccard 相似度，
+ * 再把签名切成若干 band 分桶，只需比较落入同一桶的候选，避免两两比较
+ */
+
+import { normalizeText } from './fingerprint';
+
+// 签名长度 = BANDS × ROWS_PER_BAND
+export const MINHASH_SIZE = 128;
+export const LSH_BANDS = 32;
+const ROWS_PER_BAND = MINHASH_SIZE / LSH_BANDS;
+
+// 每个 shingle 包含的词数
+const SHINGLE_SIZE = 3;
+
+// shingle 数过少时签名不可靠，不参与近似重复判断
+export const MIN_SHINGLES = 8;
+
+// 各哈希函数的种子（固定值，保证签名在不同进程、不同时间计算结果一致）
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => fmix32(0x9e3779b9 + i * 0x85ebca6b));
+
+// FNV-1a 32 位哈希
+function fnv1a(str: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// MurmurHash3 的 finalizer，用于从同一个基础哈希派生出多个独立哈希
+function fmix32(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * 分词：英文按空白切分，中文按单字切分
+ */
+function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .replace(/([\u4e00-\u9fff])/g, ' $1 ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * 生成 shingle（连续 SHINGLE_SIZE 个词）的哈希集合
+ */
+function shingleHashes(text: string): Set<number> {
+  const tokens = tokenize(text);
+  const hashes = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    hashes.add(fnv1a(tokens.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+  return hashes;
+}
+
+/**
+ * 计算 MinHash 签名，文本过短时返回 null
+ */
+export function computeMinHash(text: string): number[] | null {
+  const shingles = shingleHashes(text);
+  if (shingles.size < MIN_SHINGLES) return null;
+
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  shingles.forEach((shingle) => {
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const value = fmix32(shingle ^ SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  });
+  return signature;
+}
+
+/**
+ * 由两个签名估计 Jaccard 相似度
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+/**
+ * 计算签名在各 band 中的桶编号
+ * 返回值下标即 band 序号
+ */
+export function lshBuckets(signature: number[]): string[] {
+  const buckets: string[] = [];
+  for (let band = 0; band < LSH_BANDS; band++) {
+    const rows = signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND);
+    buckets.push(fnv1a(rows.join(',')).toString(16));
+  }
+  return buckets;
+}
@@ -0,0 +1,216 @@
+/**
+ * 近似重复索引（按名人持久化）
+ * 每条内容的 MinHash 签名存在 Content.minhash，LSH 分桶存在 ContentLshBucket，
+ * 相似内容（转载的新闻、被转发的语录、不同平台的同一份文字稿）归入同一个簇（Content.clusterId）
+ */
+
+import prisma from '@/lib/db/prisma';
+import { computeMinHash, estimateSimilarity, lshBuckets } from './minhash';
+
+// 达到该相似度视为同一条内容，入库时直接合并
+export const NEAR_DUPLICATE_THRESHOLD = 0.9;
+
+// 达到该相似度归入同一个簇（分别保存，导出时可折叠）
+export const CLUSTER_THRESHOLD = 0.6;
+
+export interface NearDuplicateMatch {
+  contentId: string;
+  clusterId: string | null;
+  similarity: number;
+}
+
+export interface DuplicateCluster {
+  clusterId: string;
+  contentIds: string[];
+}
+
+function parseSignature(minhash: string | null): number[] | null {
+  if (!minhash) return null;
+  try {
+    return JSON.parse(minhash) as number[];
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 查找与签名相似的已有内容（按相似度降序，只返回达到 CLUSTER_THRESHOLD 的）
+ */
+export async function findNearDuplicates(
+  celebrityId: string,
+  signature: number[],
+  excludeContentId?: string
+): Promise<NearDuplicateMatch[]> {
+  const buckets = lshBuckets(signature);
+  const hits = await prisma.contentLshBucket.findMany({
+    where: {
+      celebrityId,
+      OR: buckets.map((bucket, band) => ({ band, bucket })),
+    },
+    select: { contentId: true },
+  });
+
+  const candidateIds = Array.from(new Set(hits.map((hit) => hit.contentId))).filter(
+    (id) => id !== excludeContentId
+  );
+  if (candidateIds.length === 0) return [];
+
+  const candidates = await prisma.content.findMany({
+    where: { id: { in: candidateIds } },
+    select: { id: true, minhash: true, clusterId: true },
+  });
+
+  const matches: NearDuplicateMatch[] = [];
+  for (const candidate of candidates) {
+    const candidateSignature = parseSignature(candidate.minhash);
+    if (!candidateSignature) continue;
+
+    const similarity = estimateSimilarity(signature, candidateSignature);
+    if (similarity >= CLUSTER_THRESHOLD) {
+      matches.push({ contentId: candidate.id, clusterId: candidate.clusterId, similarity });
+    }
+  }
+
+  return matches.sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * 写入（或替换）一条内容的签名和分桶，签名为 null 时清除索引
+ */
+export async function indexContent(
+  celebrityId: string,
+  contentId: string,
+  signature: number[] | null
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.contentLshBucket.deleteMany({ where: { contentId } }),
+    prisma.content.update({
+      where: { id: contentId },
+      data: { minhash: signature ? JSON.stringify(signature) : null },
+    }),
+    ...(signature
+      ? [
+          prisma.contentLshBucket.createMany({
+            data: lshBuckets(signature).map((bucket, band) => ({
+              celebrityId,
+              contentId,
+              band,
+              bucket,
+            })),
+          }),
+        ]
+      : []),
+  ]);
+}
+
+/**
+ * 重建某个名人的近似重复索引：重新计算所有签名和分桶，并重新划分簇
+ * 用于索引上线前已入库的内容，或调整阈值之后
+ */
+export async function rebuildNearDuplicateIndex(
+  celebrityId: string
+): Promise<{ indexed: number; clusters: number }> {
+  const contents = await prisma.content.findMany({
+    where: { celebrityId },
+    select: { id: true, content: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const signatures = new Map<string, number[]>();
+  for (const item of contents) {
+    const signature = computeMinHash(item.content);
+    await indexContent(celebrityId, item.id, signature);
+    if (signature) signatures.set(item.id, signature);
+  }
+
+  // 并查集：同一 band 同一桶的候选验证相似度后合并
+  const parent = new Map<string, string>();
+  const order = new Map<string, number>();
+  contents.forEach((item, index) => {
+    order.set(item.id, index);
+    parent.set(item.id, item.id);
+  });
+
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) return;
+    // 以较早入库的内容作为根，保证簇ID稳定
+    if (order.get(rootA)! < order.get(rootB)!) parent.set(rootB, rootA);
+    else parent.set(rootA, rootB);
+  };
+
+  const bucketMembers = new Map<string, string[]>();
+  signatures.forEach((signature, id) => {
+    lshBuckets(signature).forEach((bucket, band) => {
+      const key = `${band}:${bucket}`;
+      const members = bucketMembers.get(key) || [];
+      members.push(id);
+      bucketMembers.set(key, members);
+    });
+  });
+
+  const compared = new Set<string>();
+  bucketMembers.forEach((members) => {
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const pairKey = `${members[i]}|${members[j]}`;
+        if (compared.has(pairKey)) continue;
+        compared.add(pairKey);
+
+        const similarity = estimateSimilarity(
+          signatures.get(members[i])!,
+          signatures.get(members[j])!
+        );
+        if (similarity >= CLUSTER_THRESHOLD) union(members[i], members[j]);
+      }
+    }
+  });
+
+  // 写回簇ID（单独成簇的内容 clusterId 为空）
+  const clusterSizes = new Map<string, number>();
+  contents.forEach((item) => {
+    const root = find(item.id);
+    clusterSizes.set(root, (clusterSizes.get(root) || 0) + 1);
+  });
+
+  const clusters = Array.from(clusterSizes.values()).filter((size) => size > 1).length;
+
+  for (const item of contents) {
+    const root = find(item.id);
+    await prisma.content.update({
+      where: { id: item.id },
+      data: { clusterId: clusterSizes.get(root)! > 1 ? root : null },
+    });
+  }
+
+  return { indexed: signatures.size, clusters };
+}
+
+/**
+ * 获取某个名人的所有近似重复簇
+ */
+export async function getDuplicateClusters(celebrityId: string): Promise<DuplicateCluster[]> {
+  const rows = await prisma.content.findMany({
+    where: { celebrityId, clusterId: { not: null } },
+    select: { id: true, clusterId: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const grouped = new Map<string, string[]>();
+  for (const row of rows) {
+    const ids = grouped.get(row.clusterId!) || [];
+    ids.push(row.id);
+    grouped.set(row.clusterId!, ids);
+  }
+
+  return Array.from(grouped.entries())
+    .filter(([, contentIds]) => contentIds.length > 1)
+    .map(([clusterId, contentIds]) => ({ clusterId, contentIds }));
+}
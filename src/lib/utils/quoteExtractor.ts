@@ -0,0 +1,265 @@
+/**
+ * 引语提取
+ * 第三方文章（新闻、报道）中常有名人本人的直接引语，按规则找出归属于本人的引号内容，
+ * 可选由 LLM 核实，输出为独立的 quote 条目（核实过的由 ContentClassifier 提升为 P1）
+ */
+
+import { z } from 'zod';
+import { Celebrity, ContentItem, ContentType } from '@/types';
+import { generateStructured, ILLMAdapter, QUOTE_VERIFICATION_PROMPT } from '@/lib/llm';
+import { ContentClassifier } from './classifier';
+import { LLMBudgetExceededError } from './llmUsage';
+
+// 会从中提取引语的内容类型（本人发言的内容不需要再提取）
+const QUOTE_SOURCE_TYPES: ContentType[] = ['news', 'article', 'blog_post'];
+
+// 引号内容：中英文弯引号、直引号、直角引号
+const QUOTE_PATTERNS = [/“([^“”]+)”/g, /"([^"\n]+)"/g, /「([^「」]+)」/g];
+
+const MIN_QUOTE_LENGTH = 15;
+const MAX_QUOTE_LENGTH = 1000;
+// 拉丁文字的引语至少包含的词数（排除标题、作品名等短语）
+const MIN_QUOTE_WORDS = 5;
+// 查找说话人的上下文范围（字符）
+const ATTRIBUTION_WINDOW = 120;
+const MAX_QUOTES_PER_ITEM = 20;
+
+const EN_VERBS =
+  'said|says|told|tells|wrote|writes|tweeted|posted|added|adds|explained|recalled|argued|noted|insisted|declared|replied|stated|continued|joked|admitted|warned';
+const ZH_VERBS = '说|表示|称|指出|透露|写道|坦言|强调|回应|直言|补充|解释|回忆';
+
+const CJK_PATTERN = /[\u3040-\u30ff\u4e00-\u9fff\uac00-\ud7af]/;
+
+const verificationSchema = z.object({
+  results: z.array(
+    z.object({
+      index: z.number().int(),
+      verified: z.boolean(),
+      reason: z.string().optional(),
+    })
+  ),
+});
+
+interface QuoteCandidate {
+  text: string;
+  speaker: string;
+  verb: string;
+  // 引语前后的上下文（用于 LLM 核实和追溯）
+  context: string;
+}
+
+export interface QuoteExtractorOptions {
+  // 提供时由 LLM 核实引语是否为本人原话
+  adapter?: ILLMAdapter;
+  maxQuotesPerItem?: number;
+}
+
+export interface QuoteExtractor {
+  // 从已入库的内容中提取引语，parentContentId 为该内容的 ID
+  extract: (item: ContentItem, parentContentId?: string) => Promise<ContentItem[]>;
+}
+
+/**
+ * 是否需要从该内容中提取引语：只处理第三方文章（本人撰写的文章不提取）
+ */
+export function shouldExtractQuotes(item: ContentItem): boolean {
+  return QUOTE_SOURCE_TYPES.includes(item.type) && item.priority >= 3 && !item.metadata?.isSelfAuthored;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 名人在文章中可能的称呼：全名、别名，以及姓氏（"Musk"、"马斯克"）
+ */
+function speakerNames(celebrity: Celebrity): string[] {
+  const names = new Set<string>();
+  for (const name of [celebrity.name, ...celebrity.aliases]) {
+    const trimmed = name.trim();
+    if (!trimmed) continue;
+    names.add(trimmed);
+    const parts = trimmed.split(/[\s·・]+/);
+    const surname = parts[parts.length - 1];
+    if (parts.length > 1 && surname.length >= (CJK_PATTERN.test(surname) ? 2 : 3)) {
+      names.add(surname);
+    }
+  }
+  // 长的名字优先匹配
+  return Array.from(names).sort((a, b) => b.length - a.length);
+}
+
+function buildAttributionPatterns(names: string[]) {
+  const name = `(${names.map(escapeRegExp).join('|')})`;
+  return {
+    // ," Musk said / ," said Musk / ”马斯克表示
+    after: [
+      new RegExp(`^[\\s,，.。:：]*${name}\\s+(${EN_VERBS})\\b`),
+      new RegExp(`^[\\s,，.。:：]*(${EN_VERBS})\\s+${name}\\b`),
+      new RegExp(`^[\\s,，.。:：]*${name}\\s*(${ZH_VERBS})`),
+    ],
+    // Musk said: " / Musk told reporters, " / 马斯克表示：“ / according to Musk, "
+    before: [
+      new RegExp(`${name}[^.。!?！？"“”「」]{0,40}?\\b(${EN_VERBS})\\b[^.。"“”]{0,30}[,:：]?\\s*$`),
+      new RegExp(`\\b(according to)\\s+${name},?\\s*$`, 'i'),
+      new RegExp(`${name}[^。！？“”「」]{0,20}?(${ZH_VERBS})[^。“”]{0,10}[:：，,]?\\s*$`),
+    ],
+  };
+}
+
+function isQuoteLike(text: string): boolean {
+  if (text.length < MIN_QUOTE_LENGTH || text.length > MAX_QUOTE_LENGTH) return false;
+  if (CJK_PATTERN.test(text)) return true;
+  return text.split(/\s+/).length >= MIN_QUOTE_WORDS;
+}
+
+/**
+ * 找出正文中归属于本人的引语（规则匹配）
+ */
+export function findQuoteCandidates(content: string, celebrity: Celebrity): QuoteCandidate[] {
+  const patterns = buildAttributionPatterns(speakerNames(celebrity));
+  const candidates = new Map<string, QuoteCandidate>();
+
+  for (const quotePattern of QUOTE_PATTERNS) {
+    for (const match of Array.from(content.matchAll(quotePattern))) {
+      // 英文引语常以逗号结尾（"...," Musk said）
+      const text = match[1].trim().replace(/[,，]$/, '');
+      if (!isQuoteLike(text) || candidates.has(text)) continue;
+
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      // 说话人只在同一段落内查找
+      const before = content.slice(Math.max(0, start - ATTRIBUTION_WINDOW), start).split('\n').pop() || '';
+      const after = content.slice(end, end + ATTRIBUTION_WINDOW).split('\n')[0];
+
+      let attribution: { speaker: string; verb: string } | null = null;
+      for (const pattern of patterns.after) {
+        const found = after.match(pattern);
+        if (found) {
+          // 第二个模式是 "said Musk"，捕获组顺序相反
+          const [first, second] = [found[1], found[2]];
+          attribution = pattern === patterns.after[1]
+            ? { speaker: second, verb: first }
+            : { speaker: first, verb: second };
+          break;
+        }
+      }
+      if (!attribution) {
+        for (const pattern of patterns.before) {
+          const found = before.match(pattern);
+          if (found) {
+            attribution = pattern === patterns.before[1]
+              ? { speaker: found[2], verb: found[1] }
+              : { speaker: found[1], verb: found[2] };
+            break;
+          }
+        }
+      }
+      if (!attribution) continue;
+
+      candidates.set(text, {
+        text,
+        ...attribution,
+        context: `${before}${match[0]}${after}`.trim(),
+      });
+    }
+  }
+
+  return Array.from(candidates.values());
+}
+
+/**
+ * 由 LLM 核实引语，返回每条引语是否为本人原话；调用失败或预算用尽时返回 null
+ */
+async function verifyWithLLM(
+  adapter: ILLMAdapter,
+  celebrity: Celebrity,
+  item: ContentItem,
+  candidates: QuoteCandidate[]
+): Promise<boolean[] | null> {
+  const list = candidates
+    .map((candidate, index) => `${index + 1}. 引语：${candidate.text}\n   上下文：${candidate.context}`)
+    .join('\n\n');
+
+  try {
+    const { results } = await generateStructured(
+      adapter,
+      [
+        { role: 'system', content: QUOTE_VERIFICATION_PROMPT.replace('{name}', celebrity.name) },
+        { role: 'user', content: `文章标题：${item.title || '（无）'}\n\n${list}` },
+      ],
+      verificationSchema
+    );
+    return candidates.map(
+      (_, index) => results.find((result) => result.index === index + 1)?.verified === true
+    );
+  } catch (error) {
+    if (!(error instanceof LLMBudgetExceededError)) console.error('引语核实失败:', error);
+    return null;
+  }
+}
+
+// 指向原文中引语位置的链接（浏览器支持时会高亮引语）
+function quoteUrl(parentUrl: string | undefined, text: string): string | undefined {
+  if (!parentUrl) return undefined;
+  const fragment = CJK_PATTERN.test(text)
+    ? text.slice(0, 20)
+    : text.split(/\s+/).slice(0, 8).join(' ');
+  return `${parentUrl.split('#')[0]}#:~:text=${encodeURIComponent(fragment)}`;
+}
+
+export function createQuoteExtractor(
+  celebrity: Celebrity,
+  options: QuoteExtractorOptions = {}
+): QuoteExtractor {
+  const { adapter, maxQuotesPerItem = MAX_QUOTES_PER_ITEM } = options;
+
+  const extract = async (item: ContentItem, parentContentId?: string): Promise<ContentItem[]> => {
+    const candidates = findQuoteCandidates(item.content, celebrity).slice(0, maxQuotesPerItem);
+    if (candidates.length === 0) return [];
+
+    const verdicts = adapter ? await verifyWithLLM(adapter, celebrity, item, candidates) : null;
+
+    return candidates
+      .map((candidate, index) => {
+        // LLM 判断不是本人原话的引语直接丢弃，未经核实的保留为未验证
+        if (verdicts && !verdicts[index]) return null;
+
+        const metadata = {
+          verified: !!verdicts,
+          verification: verdicts ? 'llm' : 'rule',
+          attribution: {
+            speaker: candidate.speaker,
+            verb: candidate.verb,
+            context: candidate.context,
+          },
+          parent: {
+            contentId: parentContentId,
+            url: item.sourceUrl,
+            title: item.title,
+            source: item.source,
+            type: item.type,
+          },
+        };
+        const { priority, weight } = ContentClassifier.classify(item.source, 'quote', metadata);
+
+        const quote: ContentItem = {
+          source: item.source,
+          type: 'quote',
+          priority,
+          weight,
+          title: `${celebrity.name}：“${candidate.text.slice(0, 40)}${candidate.text.length > 40 ? '…' : ''}”`,
+          content: candidate.text,
+          sourceUrl: quoteUrl(item.sourceUrl, candidate.text),
+          date: item.date,
+          author: celebrity.name,
+          language: item.language,
+          metadata,
+        };
+        return quote;
+      })
+      .filter((quote): quote is ContentItem => quote !== null);
+  };
+
+  return { extract };
+}
@@ -0,0 +1,48 @@
+/**
+ * 持久化的密钥加密
+ * 爬取任务配置中的 API Key 用 CONFIG_ENCRYPTION_KEY 派生的密钥做 AES-256-GCM 加密后再写入数据库；
+ * 未配置 CONFIG_ENCRYPTION_KEY 时不保存密钥，由 worker 执行时从环境变量读取
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+
+function encryptionKey(): Buffer | null {
+  const secret = process.env.CONFIG_ENCRYPTION_KEY;
+  return secret ? createHash('sha256').update(secret).digest() : null;
+}
+
+/**
+ * 加密密钥，未配置 CONFIG_ENCRYPTION_KEY 时返回 undefined（调用方不应保存明文）
+ */
+export function encryptSecret(value: string): string | undefined {
+  const key = encryptionKey();
+  if (!key) return undefined;
+
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return PREFIX + [iv, cipher.getAuthTag(), data].map((part) => part.toString('base64')).join(':');
+}
+
+/**
+ * 解密 encryptSecret 的结果；密钥已更换或内容被篡改时返回 undefined
+ */
+export function decryptSecret(value: string): string | undefined {
+  const key = encryptionKey();
+  if (!key || !value.startsWith(PREFIX)) return undefined;
+
+  try {
+    const [iv, tag, data] = value
+      .slice(PREFIX.length)
+      .split(':')
+      .map((part) => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+  } catch {
+    return undefined;
+  }
+}
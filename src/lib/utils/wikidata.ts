@@ -0,0 +1,291 @@
+/**
+ * Wikidata 身份解析
+ * 按名称搜索候选实体，返回 QID、出生日期、职业、多语言名称、站点链接和外部标识，
+ * 用于名人确认时的消歧（别名取自 Wikidata 名称，而不是 LLM 生成）
+ */
+
+import http from '@/lib/crawlers/http';
+import { CelebrityIdentifiers } from '@/types';
+import { sanitizeProposedIdentifiers } from './identifiers';
+
+const WIKIDATA_API_URL = 'https://www.wikidata.org/w/api.php';
+
+// 作为别名的名称语言
+const LABEL_LANGUAGES = ['en', 'zh', 'zh-hans', 'zh-hant', 'zh-cn', 'zh-tw', 'ja', 'ko', 'fr', 'de', 'es', 'ru'];
+
+// 只收录这些语言的别名（其他语言的别名多为音译变体）
+const ALIAS_LANGUAGES = ['en', 'zh', 'zh-hans', 'zh-hant'];
+
+// Wikidata 属性
+const PROPERTY = {
+  instanceOf: 'P31',
+  birthDate: 'P569',
+  deathDate: 'P570',
+  occupation: 'P106',
+  twitterHandle: 'P2002',
+  youtubeChannelId: 'P2397',
+  isni: 'P213',
+  openLibraryAuthorKey: 'P648',
+  website: 'P856',
+} as const;
+
+// 人类（P31 = Q5）
+const HUMAN = 'Q5';
+
+/**
+ * Wikidata API 客户端，默认通过爬虫共享的 HTTP 客户端请求，可替换为本地数据
+ */
+export interface WikidataHttpClient {
+  get<T = unknown>(params: Record<string, string | number>): Promise<T>;
+}
+
+export interface WikidataCandidate {
+  qid: string;
+  label: string;
+  description?: string;
+  // ISO 日期，精度只到年份时为 YYYY
+  birthDate?: string;
+  deathDate?: string;
+  occupations: string[];
+  // 各语言名称
+  labels: Record<string, string>;
+  // 名称和别名（去重，不含 label）
+  aliases: string[];
+  // 站点 ID（enwiki、zhwiki…）到页面标题和链接
+  sitelinks: Record<string, { title: string; url?: string }>;
+  // 从 Wikidata 声明中读取的外部标识（含 wikidataId）
+  identifiers: CelebrityIdentifiers;
+}
+
+interface WikidataEntity {
+  id: string;
+  labels?: Record<string, { value: string }>;
+  descriptions?: Record<string, { value: string }>;
+  aliases?: Record<string, { value: string }[]>;
+  claims?: Record<string, WikidataClaim[]>;
+  sitelinks?: Record<string, { site: string; title: string; url?: string }>;
+}
+
+interface WikidataClaim {
+  mainsnak: {
+    datavalue?: {
+      value: string | { id: string } | { time: string; precision: number };
+    };
+  };
+  rank?: string;
+}
+
+export const defaultWikidataClient: WikidataHttpClient = {
+  async get<T>(params: Record<string, string | number>): Promise<T> {
+    const response = await http.get(WIKIDATA_API_URL, {
+      params: { ...params, format: 'json', origin: '*' },
+      headers: { 'User-Agent': 'CelebrityCrawler/1.0' },
+      timeout: 10000,
+    });
+    return response.data as T;
+  },
+};
+
+// 按语言优先级取值
+function pickLanguage<T>(values: Record<string, T> | undefined, languages: string[]): T | undefined {
+  if (!values) return undefined;
+  for (const language of languages) {
+    if (values[language] !== undefined) return values[language];
+  }
+  return Object.values(values)[0];
+}
+
+// 取声明的值（跳过已废弃的声明）
+function claimValues(entity: WikidataEntity, property: string) {
+  return (entity.claims?.[property] || [])
+    .filter((claim) => claim.rank !== 'deprecated')
+    .map((claim) => claim.mainsnak.datavalue?.value)
+    .filter((value): value is NonNullable<typeof value> => value !== undefined);
+}
+
+function stringClaim(entity: WikidataEntity, property: string): string | undefined {
+  const value = claimValues(entity, property)[0];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function entityIdClaims(entity: WikidataEntity, property: string): string[] {
+  return claimValues(entity, property)
+    .map((value) => (typeof value === 'object' && 'id' in value ? value.id : undefined))
+    .filter((id): id is string => !!id);
+}
+
+// Wikidata 时间格式 "+1971-06-28T00:00:00Z"，precision 9 = 年、10 = 月、11 = 日
+function timeClaim(entity: WikidataEntity, property: string): string | undefined {
+  const value = claimValues(entity, property)[0];
+  if (!value || typeof value !== 'object' || !('time' in value)) return undefined;
+  const match = value.time.match(/^[+-]?(\d{4,})-(\d{2})-(\d{2})/);
+  if (!match) return undefined;
+  const [, year, month, day] = match;
+  if (value.precision <= 9) return year;
+  if (value.precision === 10) return `${year}-${month}`;
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * 创建 Wikidata 解析器
+ * @param client 可替换的 API 客户端（测试或离线时传入本地实现）
+ */
+export function createWikidataResolver(client: WikidataHttpClient = defaultWikidataClient) {
+  async function getEntities(
+    ids: string[],
+    props: string
+  ): Promise<Record<string, WikidataEntity>> {
+    if (ids.length === 0) return {};
+    const data = await client.get<{ entities?: Record<string, WikidataEntity> }>({
+      action: 'wbgetentities',
+      ids: ids.slice(0, 50).join('|'),
+      props,
+    });
+    return data.entities || {};
+  }
+
+  // 批量获取职业等实体的名称
+  async function getLabels(ids: string[], languages: string[]): Promise<Record<string, string>> {
+    const entities = await getEntities(Array.from(new Set(ids)), 'labels');
+    const labels: Record<string, string> = {};
+    for (const [id, entity] of Object.entries(entities)) {
+      const label = pickLanguage(entity.labels, languages)?.value;
+      if (label) labels[id] = label;
+    }
+    return labels;
+  }
+
+  function toCandidate(
+    entity: WikidataEntity,
+    languages: string[],
+    occupationLabels: Record<string, string>
+  ): WikidataCandidate {
+    const labels: Record<string, string> = {};
+    for (const language of LABEL_LANGUAGES) {
+      const value = entity.labels?.[language]?.value;
+      if (value) labels[language] = value;
+    }
+    const label = pickLanguage(entity.labels, languages)?.value || entity.id;
+
+    const names = new Set<string>(Object.values(labels));
+    for (const language of ALIAS_LANGUAGES) {
+      for (const alias of entity.aliases?.[language] || []) {
+        names.add(alias.value);
+      }
+    }
+    names.delete(label);
+
+    const sitelinks: WikidataCandidate['sitelinks'] = {};
+    for (const link of Object.values(entity.sitelinks || {})) {
+      sitelinks[link.site] = { title: link.title, url: link.url };
+    }
+
+    // Open Library 的 P648 同时用于作品，只保留作者 key（OL…A）
+    const openLibraryKey = claimValues(entity, PROPERTY.openLibraryAuthorKey).find(
+      (value): value is string => typeof value === 'string' && /^OL\d+A$/.test(value)
+    );
+
+    return {
+      qid: entity.id,
+      label,
+      description: pickLanguage(entity.descriptions, languages)?.value,
+      birthDate: timeClaim(entity, PROPERTY.birthDate),
+      deathDate: timeClaim(entity, PROPERTY.deathDate),
+      occupations: entityIdClaims(entity, PROPERTY.occupation)
+        .map((id) => occupationLabels[id])
+        .filter(Boolean),
+      labels,
+      aliases: Array.from(names),
+      sitelinks,
+      identifiers: sanitizeProposedIdentifiers({
+        wikidataId: entity.id,
+        twitterHandle: stringClaim(entity, PROPERTY.twitterHandle),
+        youtubeChannelId: stringClaim(entity, PROPERTY.youtubeChannelId),
+        isni: stringClaim(entity, PROPERTY.isni),
+        openLibraryAuthorKey: openLibraryKey,
+        website: stringClaim(entity, PROPERTY.website),
+      }),
+    };
+  }
+
+  /**
+   * 获取实体详情，只返回人物（P31 = Q5）
+   */
+  async function getCandidates(qids: string[], language = 'en'): Promise<WikidataCandidate[]> {
+    const languages = Array.from(new Set([language, 'zh', 'en']));
+    const entities = await getEntities(qids, 'labels|descriptions|aliases|claims|sitelinks/urls');
+    const people = qids
+      .map((qid) => entities[qid])
+      .filter((entity) => entity && entityIdClaims(entity, PROPERTY.instanceOf).includes(HUMAN));
+
+    const occupationIds = people.flatMap((entity) =>
+      entityIdClaims(entity, PROPERTY.occupation).slice(0, 5)
+    );
+    const occupationLabels = await getLabels(occupationIds, languages);
+
+    return people.map((entity) => toCandidate(entity, languages, occupationLabels));
+  }
+
+  /**
+   * 按名称搜索候选人物，按 Wikidata 搜索相关度排序
+   */
+  async function search(
+    name: string,
+    options: { language?: string; limit?: number } = {}
+  ): Promise<WikidataCandidate[]> {
+    // 含中日韩文字时按中文搜索，否则按英文搜索
+    const language = options.language || (/[\u3040-\u30ff\u4e00-\u9fff\uac00-\ud7af]/.test(name) ? 'zh' : 'en');
+    const data = await client.get<{ search?: { id: string }[] }>({
+      action: 'wbsearchentities',
+      search: name,
+      language,
+      uselang: language,
+      type: 'item',
+      // 多取一些，过滤掉非人物后再截取
+      limit: (options.limit || 5) * 2,
+    });
+
+    const qids = (data.search || []).map((result) => result.id);
+    const candidates = await getCandidates(qids, language);
+    return candidates.slice(0, options.limit || 5);
+  }
+
+  /**
+   * 确认的人物对应的实体：只接受候选中的 QID（LLM 编造的 QID 忽略），
+   * 再按 QID 重新获取，不直接信任客户端回传的候选内容
+   */
+  async function confirm(
+    qid: string | undefined,
+    candidates: WikidataCandidate[]
+  ): Promise<WikidataCandidate | undefined> {
+    const candidate = candidates.find((item) => item.qid === qid);
+    if (!candidate) {
+      if (qid) console.warn(`LLM 给出的 QID 不在候选中，已忽略: ${qid}`);
+      return undefined;
+    }
+    try {
+      const [entity] = await getCandidates([candidate.qid]);
+      return entity;
+    } catch (error) {
+      console.warn('获取 Wikidata 实体失败:', error);
+      return candidate;
+    }
+  }
+
+  return { search, getCandidates, confirm };
+}
+
+export type WikidataResolver = ReturnType<typeof createWikidataResolver>;
+
+/**
+ * 候选人物的单行摘要，用于提示词和确认界面
+ */
+export function describeWikidataCandidate(candidate: WikidataCandidate): string {
+  const lifespan = candidate.birthDate
+    ? `${candidate.birthDate}${candidate.deathDate ? ` – ${candidate.deathDate}` : ''}`
+    : undefined;
+  const details = [lifespan, candidate.occupations.slice(0, 3).join('、'), candidate.description]
+    .filter(Boolean)
+    .join('；');
+  return `${candidate.qid} ${candidate.label}${details ? `（${details}）` : ''}`;
+}
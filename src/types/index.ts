@@ -1,5 +1,7 @@
+import type { WikidataCandidate } from '@/lib/utils/wikidata';
+
 // 数据源类型
-export type DataSource =
+export type BuiltinDataSource =
   | 'twitter'
   | 'youtube'
   | 'wikipedia'
@@ -8,6 +10,9 @@ export type DataSource =
   | 'podcast'
   | 'blog';
 
+// 插件爬虫可注册任意数据源 ID（见 lib/crawlers/registry.ts）
+export type DataSource = BuiltinDataSource | (string & {});
+
 // 内容类型
 export type ContentType =
   | 'tweet'
@@ -21,6 +26,11 @@ export type ContentType =
   | 'article'
   | 'news'
   | 'wiki'
+  | 'wiki_article'
+  | 'wiki_section'
+  | 'wiki_infobox'
+  | 'wiki_timeline'
+  | 'wiki_not_found'
   | 'blog_post'
   | 'quote'
   | 'other';
@@ -68,6 +78,8 @@ export interface ContentItem {
   author?: string;
   language?: string;
   metadata?: Record<string, unknown>;
+  // 近似重复簇ID（同一簇的内容在导出时可折叠为一条）
+  clusterId?: string;
 }
 
 // 名人信息
@@ -77,6 +89,24 @@ export interface Celebrity {
   aliases: string[];
   description?: string;
   imageUrl?: string;
+  // 已验证的外部标识，爬虫优先使用
+  identifiers?: CelebrityIdentifiers;
+}
+
+// 名人的外部标识
+export interface CelebrityIdentifiers {
+  // Twitter/X 用户名（不含 @）
+  twitterHandle?: string;
+  // YouTube 频道 ID（UC 开头）
+  youtubeChannelId?: string;
+  // Wikidata 实体 ID（如 Q317521）
+  wikidataId?: string;
+  // 国际标准名称标识符（16 位）
+  isni?: string;
+  // Open Library 作者 key（如 OL23919A）
+  openLibraryAuthorKey?: string;
+  // 官方网站 / 个人博客
+  website?: string;
 }
 
 // 爬取任务状态
@@ -96,20 +126,93 @@ export interface CrawlTask {
   completedAt?: Date;
 }
 
+// 爬取日志（实时推送给前端）
+export interface CrawlLogEntry {
+  id: string;
+  taskId: string;
+  level: 'info' | 'warn' | 'error' | 'success';
+  message: string;
+  details: Record<string, unknown> | null;
+  createdAt: string;
+}
+
 // 聊天消息
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
 }
 
-// LLM 提供者
-export type LLMProvider = 'openai' | 'anthropic';
+// 名人识别对话的流式响应事件（每行一个 JSON）：Wikidata 候选、回复文本片段、
+// 完整回复和校验后的确认信息、错误
+export type ChatStreamEvent =
+  | { type: 'candidates'; candidates: WikidataCandidate[] }
+  | { type: 'delta'; text: string }
+  | {
+      type: 'done';
+      message: string;
+      confirmed: boolean;
+      celebrity: Celebrity | null;
+      proposedIdentifiers: CelebrityIdentifiers;
+      candidates: WikidataCandidate[];
+      wikidata?: WikidataCandidate;
+    }
+  | { type: 'error'; error: string };
+
+// LLM 提供者：openai-compatible 为兼容 OpenAI 接口的自建服务（Ollama、vLLM、llama.cpp server 等）
+export type LLMProvider = 'openai' | 'anthropic' | 'openai-compatible';
 
 // LLM 配置
 export interface LLMConfig {
   provider: LLMProvider;
+  // openai-compatible 不需要鉴权时为空
   apiKey: string;
   model?: string;
+  // openai-compatible 的接口地址，如 http://localhost:11434/v1
+  baseUrl?: string;
+  // openai-compatible 的鉴权请求头名称，默认 Authorization（Bearer）；自定义时直接发送 apiKey
+  authHeader?: string;
+}
+
+// 单次 LLM 调用的 token 用量（由适配器上报）
+export interface LLMUsage {
+  provider: LLMProvider;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// 调用 LLM 的阶段
+export type LLMStage = 'identification' | 'quote_verification' | 'classification';
+
+// 一次爬取的 LLM 预算（该次爬取的所有任务共用），超出后停止 LLM 阶段
+export interface LLMBudget {
+  // 估算费用上限（美元），没有定价的模型不计入
+  maxCost?: number;
+  // 输入 + 输出 token 总数上限
+  maxTokens?: number;
+}
+
+// 爬取检查点（由各爬虫自行定义结构，如分页 token、已处理 ID、搜索词下标）
+export type CrawlCheckpoint = Record<string, unknown>;
+
+// 爬取模式：full 全量爬取；update 增量更新，只爬取上次成功爬取之后的新内容
+export type CrawlMode = 'full' | 'update';
+
+// 内容分类模式：rule 只用静态规则；llm 全部由 LLM 分类；hybrid 规则能确定的（本人发言、本人作品）保留规则结果，其余交给 LLM
+export type ClassificationMode = 'rule' | 'llm' | 'hybrid';
+
+// 单个数据源的爬取选项（由用户配置）
+export interface CrawlSourceOptions {
+  maxItems?: number;
+  // 发布时间范围，ISO 日期字符串
+  startDate?: string;
+  endDate?: string;
+  // 语言代码，如 en、zh
+  languages?: string[];
+  // 搜索词模板，{name} 替换为名人名称
+  queryTemplates?: string[];
+  // 数据源专属配置，按爬虫插件声明的 settingsSchema 校验
+  settings?: Record<string, unknown>;
 }
 
 // 爬虫配置
@@ -117,8 +220,17 @@ export interface CrawlerConfig {
   source: DataSource;
   apiKey?: string;
   maxItems?: number;
+  // 只爬取该时间范围内发布的内容（增量更新时 startDate 为上次成功爬取的完成时间）
   startDate?: Date;
   endDate?: Date;
+  // 优先爬取的语言
+  languages?: string[];
+  // 搜索词模板（支持搜索的数据源使用）
+  queryTemplates?: string[];
+  // 数据源专属配置
+  settings?: Record<string, unknown>;
+  // 从该检查点继续爬取
+  checkpoint?: CrawlCheckpoint;
 }
 
 // 导出格式
@@ -140,6 +252,8 @@ export interface ExportResult {
     totalItems: number;
     sources: DataSource[];
     priorityDistribution: Record<number, number>;
+    // 折叠近似重复簇时被合并的条目数
+    collapsedItems?: number;
   };
   contents: ContentItem[];
 }
@@ -154,6 +268,17 @@ export interface ApiResponse<T = unknown> {
 // 爬虫基类接口
 export interface ICrawler {
   source: DataSource;
-  crawl(celebrity: Celebrity, config?: CrawlerConfig): AsyncGenerator<ContentItem>;
+  // signal 被中止（任务取消）时，爬虫应尽快停止网络请求
+  crawl(celebrity: Celebrity, config?: CrawlerConfig, signal?: AbortSignal): AsyncGenerator<ContentItem>;
   validateConfig(config: CrawlerConfig): boolean;
+  // 返回当前检查点（反映已 yield 的全部条目），不支持断点续爬的爬虫可不实现
+  getCheckpoint?(): CrawlCheckpoint;
+  // 设置内容条目的默认优先级和权重（爬虫插件声明的 defaults）
+  setDefaults?(defaults: CrawlerDefaults): void;
+}
+
+// 爬虫插件声明的内容默认值
+export interface CrawlerDefaults {
+  priority: number;
+  weight: number;
 }